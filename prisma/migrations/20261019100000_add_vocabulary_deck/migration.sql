@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "VocabularyCard" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "languageId" TEXT NOT NULL,
+    "lessonId" TEXT,
+    "word" TEXT NOT NULL,
+    "translation" TEXT NOT NULL,
+    "example" TEXT,
+    "easeFactor" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+    "interval" INTEGER NOT NULL DEFAULT 0,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VocabularyCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VocabularyReview" (
+    "id" TEXT NOT NULL,
+    "cardId" TEXT NOT NULL,
+    "grade" INTEGER NOT NULL,
+    "interval" INTEGER NOT NULL,
+    "reviewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VocabularyReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VocabularyCard_userId_dueAt_idx" ON "VocabularyCard"("userId", "dueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VocabularyCard_userId_languageId_word_key" ON "VocabularyCard"("userId", "languageId", "word");
+
+-- CreateIndex
+CREATE INDEX "VocabularyReview_cardId_idx" ON "VocabularyReview"("cardId");
+
+-- AddForeignKey
+ALTER TABLE "VocabularyCard" ADD CONSTRAINT "VocabularyCard_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VocabularyCard" ADD CONSTRAINT "VocabularyCard_languageId_fkey" FOREIGN KEY ("languageId") REFERENCES "Language"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VocabularyCard" ADD CONSTRAINT "VocabularyCard_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "Lesson"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VocabularyReview" ADD CONSTRAINT "VocabularyReview_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "VocabularyCard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
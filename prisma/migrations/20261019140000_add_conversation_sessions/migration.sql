@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "ConversationStatus" AS ENUM ('ACTIVE', 'ENDED');
+
+-- AlterTable
+ALTER TABLE "ConversationExchange" ADD COLUMN     "sessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ConversationSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "languageId" TEXT NOT NULL,
+    "practiceId" TEXT,
+    "level" "Level" NOT NULL DEFAULT 'BEGINNER',
+    "scenario" TEXT,
+    "status" "ConversationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "summary" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ConversationSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConversationSession_userId_updatedAt_idx" ON "ConversationSession"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "ConversationExchange_sessionId_createdAt_idx" ON "ConversationExchange"("sessionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ConversationSession" ADD CONSTRAINT "ConversationSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationSession" ADD CONSTRAINT "ConversationSession_languageId_fkey" FOREIGN KEY ("languageId") REFERENCES "Language"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationSession" ADD CONSTRAINT "ConversationSession_practiceId_fkey" FOREIGN KEY ("practiceId") REFERENCES "ConversationPractice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationExchange" ADD CONSTRAINT "ConversationExchange_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "ConversationSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "GrammarErrorCategory" AS ENUM ('VERB_TENSE', 'VERB_CONJUGATION', 'GENDER_AGREEMENT', 'NUMBER_AGREEMENT', 'WORD_ORDER', 'ARTICLE', 'PREPOSITION', 'SPELLING', 'VOCABULARY', 'PUNCTUATION', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "ConversationCorrection" (
+    "id" TEXT NOT NULL,
+    "exchangeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "languageId" TEXT NOT NULL,
+    "category" "GrammarErrorCategory" NOT NULL,
+    "original" TEXT NOT NULL,
+    "corrected" TEXT NOT NULL,
+    "explanation" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConversationCorrection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConversationCorrection_userId_languageId_createdAt_idx" ON "ConversationCorrection"("userId", "languageId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ConversationCorrection" ADD CONSTRAINT "ConversationCorrection_exchangeId_fkey" FOREIGN KEY ("exchangeId") REFERENCES "ConversationExchange"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationCorrection" ADD CONSTRAINT "ConversationCorrection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationCorrection" ADD CONSTRAINT "ConversationCorrection_languageId_fkey" FOREIGN KEY ("languageId") REFERENCES "Language"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "PronunciationFeedback" ADD COLUMN     "characterAccuracy" DOUBLE PRECISION,
+ADD COLUMN     "languageId" TEXT,
+ADD COLUMN     "transcript" TEXT,
+ADD COLUMN     "wordAccuracy" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "PronunciationSoundScore" (
+    "id" TEXT NOT NULL,
+    "feedbackId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "languageId" TEXT NOT NULL,
+    "sound" TEXT NOT NULL,
+    "occurrences" INTEGER NOT NULL,
+    "correct" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PronunciationSoundScore_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PronunciationFeedback_userId_languageId_createdAt_idx" ON "PronunciationFeedback"("userId", "languageId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PronunciationSoundScore_userId_languageId_createdAt_idx" ON "PronunciationSoundScore"("userId", "languageId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PronunciationFeedback" ADD CONSTRAINT "PronunciationFeedback_languageId_fkey" FOREIGN KEY ("languageId") REFERENCES "Language"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PronunciationSoundScore" ADD CONSTRAINT "PronunciationSoundScore_feedbackId_fkey" FOREIGN KEY ("feedbackId") REFERENCES "PronunciationFeedback"("id") ON DELETE CASCADE ON UPDATE CASCADE;
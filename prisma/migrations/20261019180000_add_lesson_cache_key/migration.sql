@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Lesson" ADD COLUMN     "cacheKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Lesson_cacheKey_createdAt_idx" ON "Lesson"("cacheKey", "createdAt");
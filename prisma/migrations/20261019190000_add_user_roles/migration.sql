@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('LEARNER', 'CONTENT_EDITOR', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deactivatedAt" TIMESTAMP(3),
+ADD COLUMN     "role" "Role" NOT NULL DEFAULT 'LEARNER';
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "TextDirection" AS ENUM ('LTR', 'RTL');
+
+-- AlterTable
+ALTER TABLE "Language" ADD COLUMN     "direction" "TextDirection" NOT NULL DEFAULT 'LTR',
+ADD COLUMN     "enabled" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "nativeName" TEXT,
+ADD COLUMN     "script" TEXT;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "PlacementStatus" AS ENUM ('IN_PROGRESS', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "PlacementTest" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "languageId" TEXT NOT NULL,
+    "status" "PlacementStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "currentLevel" "Level" NOT NULL,
+    "questionCount" INTEGER NOT NULL,
+    "correctCount" INTEGER NOT NULL DEFAULT 0,
+    "recommendedLevel" "Level",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PlacementTest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlacementQuestion" (
+    "id" TEXT NOT NULL,
+    "testId" TEXT NOT NULL,
+    "level" "Level" NOT NULL,
+    "question" TEXT NOT NULL,
+    "options" JSONB NOT NULL,
+    "correctAnswer" INTEGER NOT NULL,
+    "explanation" TEXT NOT NULL DEFAULT '',
+    "askedOrder" INTEGER,
+    "selectedOption" INTEGER,
+    "isCorrect" BOOLEAN,
+    "answeredAt" TIMESTAMP(3),
+
+    CONSTRAINT "PlacementQuestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlacementTest_userId_languageId_createdAt_idx" ON "PlacementTest"("userId", "languageId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PlacementQuestion_testId_askedOrder_idx" ON "PlacementQuestion"("testId", "askedOrder");
+
+-- AddForeignKey
+ALTER TABLE "PlacementTest" ADD CONSTRAINT "PlacementTest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlacementTest" ADD CONSTRAINT "PlacementTest_languageId_fkey" FOREIGN KEY ("languageId") REFERENCES "Language"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlacementQuestion" ADD CONSTRAINT "PlacementQuestion_testId_fkey" FOREIGN KEY ("testId") REFERENCES "PlacementTest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
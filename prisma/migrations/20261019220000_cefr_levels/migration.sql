@@ -0,0 +1,48 @@
+-- Replace BEGINNER/INTERMEDIATE/ADVANCED with CEFR levels. A level (or the lower bound of a
+-- range) becomes the start of its band; the upper bound of a range becomes the end of its band.
+BEGIN;
+CREATE TYPE "Level_new" AS ENUM ('A1', 'A2', 'B1', 'B2', 'C1', 'C2');
+
+ALTER TABLE "Course" ALTER COLUMN "minLevel" DROP DEFAULT;
+ALTER TABLE "Course" ALTER COLUMN "maxLevel" DROP DEFAULT;
+ALTER TABLE "ConversationSession" ALTER COLUMN "level" DROP DEFAULT;
+ALTER TABLE "UserLanguage" ALTER COLUMN "level" DROP DEFAULT;
+
+ALTER TABLE "Lesson" ALTER COLUMN "level" TYPE "Level_new" USING (
+    CASE "level"::text WHEN 'BEGINNER' THEN 'A1' WHEN 'INTERMEDIATE' THEN 'B1' WHEN 'ADVANCED' THEN 'C1' END
+)::"Level_new";
+ALTER TABLE "Course" ALTER COLUMN "minLevel" TYPE "Level_new" USING (
+    CASE "minLevel"::text WHEN 'BEGINNER' THEN 'A1' WHEN 'INTERMEDIATE' THEN 'B1' WHEN 'ADVANCED' THEN 'C1' END
+)::"Level_new";
+ALTER TABLE "Course" ALTER COLUMN "maxLevel" TYPE "Level_new" USING (
+    CASE "maxLevel"::text WHEN 'BEGINNER' THEN 'A2' WHEN 'INTERMEDIATE' THEN 'B2' WHEN 'ADVANCED' THEN 'C2' END
+)::"Level_new";
+ALTER TABLE "ConversationSession" ALTER COLUMN "level" TYPE "Level_new" USING (
+    CASE "level"::text WHEN 'BEGINNER' THEN 'A1' WHEN 'INTERMEDIATE' THEN 'B1' WHEN 'ADVANCED' THEN 'C1' END
+)::"Level_new";
+ALTER TABLE "UserLanguage" ALTER COLUMN "level" TYPE "Level_new" USING (
+    CASE "level"::text WHEN 'BEGINNER' THEN 'A1' WHEN 'INTERMEDIATE' THEN 'B1' WHEN 'ADVANCED' THEN 'C1' END
+)::"Level_new";
+ALTER TABLE "PlacementTest" ALTER COLUMN "currentLevel" TYPE "Level_new" USING (
+    CASE "currentLevel"::text WHEN 'BEGINNER' THEN 'A1' WHEN 'INTERMEDIATE' THEN 'B1' WHEN 'ADVANCED' THEN 'C1' END
+)::"Level_new";
+ALTER TABLE "PlacementTest" ALTER COLUMN "recommendedLevel" TYPE "Level_new" USING (
+    CASE "recommendedLevel"::text WHEN 'BEGINNER' THEN 'A1' WHEN 'INTERMEDIATE' THEN 'B1' WHEN 'ADVANCED' THEN 'C1' END
+)::"Level_new";
+ALTER TABLE "PlacementQuestion" ALTER COLUMN "level" TYPE "Level_new" USING (
+    CASE "level"::text WHEN 'BEGINNER' THEN 'A1' WHEN 'INTERMEDIATE' THEN 'B1' WHEN 'ADVANCED' THEN 'C1' END
+)::"Level_new";
+
+ALTER TYPE "Level" RENAME TO "Level_old";
+ALTER TYPE "Level_new" RENAME TO "Level";
+DROP TYPE "Level_old";
+
+ALTER TABLE "Course" ALTER COLUMN "minLevel" SET DEFAULT 'A1';
+ALTER TABLE "Course" ALTER COLUMN "maxLevel" SET DEFAULT 'C2';
+ALTER TABLE "ConversationSession" ALTER COLUMN "level" SET DEFAULT 'A1';
+ALTER TABLE "UserLanguage" ALTER COLUMN "level" SET DEFAULT 'A1';
+COMMIT;
+
+-- Lesson cache keys ("languageId:level:topic") embed the level
+UPDATE "Lesson" SET "cacheKey" = split_part("cacheKey", ':', 1) || ':' || "level"::text || ':' || split_part("cacheKey", ':', 3)
+WHERE "cacheKey" IS NOT NULL;
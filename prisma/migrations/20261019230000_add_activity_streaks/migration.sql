@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "ActivityType" AS ENUM ('LESSON_COMPLETED', 'QUIZ_ATTEMPT', 'CONVERSATION_TURN', 'PRONUNCIATION_PRACTICE');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN "dailyXpGoal" INTEGER NOT NULL DEFAULT 20,
+ADD COLUMN "streakFreezes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ActivityEvent" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "ActivityType" NOT NULL,
+    "xp" INTEGER NOT NULL,
+    "day" TEXT NOT NULL,
+    "sourceId" TEXT,
+    "languageId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ActivityEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StreakFreezeUse" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StreakFreezeUse_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ActivityEvent_userId_type_sourceId_key" ON "ActivityEvent"("userId", "type", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "ActivityEvent_userId_day_idx" ON "ActivityEvent"("userId", "day");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StreakFreezeUse_userId_day_key" ON "StreakFreezeUse"("userId", "day");
+
+-- AddForeignKey
+ALTER TABLE "ActivityEvent" ADD CONSTRAINT "ActivityEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StreakFreezeUse" ADD CONSTRAINT "StreakFreezeUse_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
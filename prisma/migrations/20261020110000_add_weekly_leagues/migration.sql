@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "LeagueTier" AS ENUM ('BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'DIAMOND');
+
+-- CreateEnum
+CREATE TYPE "LeagueOutcome" AS ENUM ('PROMOTED', 'STAYED', 'RELEGATED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "leagueTier" "LeagueTier" NOT NULL DEFAULT 'BRONZE';
+
+-- CreateTable
+CREATE TABLE "LeagueCohort" (
+    "id" TEXT NOT NULL,
+    "weekStart" TEXT NOT NULL,
+    "tier" "LeagueTier" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "LeagueCohort_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LeagueMembership" (
+    "id" TEXT NOT NULL,
+    "cohortId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "weekStart" TEXT NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finalXp" INTEGER,
+    "finalRank" INTEGER,
+    "outcome" "LeagueOutcome",
+
+    CONSTRAINT "LeagueMembership_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeagueCohort_weekStart_tier_idx" ON "LeagueCohort"("weekStart", "tier");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeagueMembership_userId_weekStart_key" ON "LeagueMembership"("userId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "LeagueMembership_cohortId_idx" ON "LeagueMembership"("cohortId");
+
+-- AddForeignKey
+ALTER TABLE "LeagueMembership" ADD CONSTRAINT "LeagueMembership_cohortId_fkey" FOREIGN KEY ("cohortId") REFERENCES "LeagueCohort"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeagueMembership" ADD CONSTRAINT "LeagueMembership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ExerciseType" AS ENUM ('FILL_BLANK', 'TRANSLATE', 'REORDER', 'MATCH_PAIRS', 'DICTATION');
+
+-- CreateTable
+CREATE TABLE "LessonExercise" (
+    "id" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" "ExerciseType" NOT NULL,
+    "prompt" JSONB NOT NULL,
+    "answerKey" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LessonExercise_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExerciseAttempt" (
+    "id" TEXT NOT NULL,
+    "exerciseId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "answer" JSONB NOT NULL,
+    "isCorrect" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExerciseAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LessonExercise_lessonId_position_key" ON "LessonExercise"("lessonId", "position");
+
+-- CreateIndex
+CREATE INDEX "ExerciseAttempt_userId_exerciseId_idx" ON "ExerciseAttempt"("userId", "exerciseId");
+
+-- AddForeignKey
+ALTER TABLE "LessonExercise" ADD CONSTRAINT "LessonExercise_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "Lesson"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExerciseAttempt" ADD CONSTRAINT "ExerciseAttempt_exerciseId_fkey" FOREIGN KEY ("exerciseId") REFERENCES "LessonExercise"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExerciseAttempt" ADD CONSTRAINT "ExerciseAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
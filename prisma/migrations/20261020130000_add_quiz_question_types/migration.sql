@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "QuizAttemptAnswer" ADD COLUMN "answer" JSONB;
+
+-- Answers given before there were several question types were option indexes
+UPDATE "QuizAttemptAnswer" SET "answer" = to_jsonb("selectedOption") WHERE "selectedOption" IS NOT NULL;
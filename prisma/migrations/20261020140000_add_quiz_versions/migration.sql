@@ -0,0 +1,11 @@
+-- A lesson can now have several quiz versions
+DROP INDEX "Quiz_lessonId_key";
+
+-- AlterTable: existing quizzes become version 1
+ALTER TABLE "Quiz" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "flaggedAt" TIMESTAMP(3),
+ADD COLUMN "flagReason" TEXT,
+ADD COLUMN "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Quiz_lessonId_version_key" ON "Quiz"("lessonId", "version");
@@ -0,0 +1,6 @@
+-- The scores were always per letter of the target text, not per phoneme
+ALTER TABLE "PronunciationSoundScore" RENAME TO "PronunciationLetterScore";
+ALTER TABLE "PronunciationLetterScore" RENAME COLUMN "sound" TO "letter";
+ALTER TABLE "PronunciationLetterScore" RENAME CONSTRAINT "PronunciationSoundScore_pkey" TO "PronunciationLetterScore_pkey";
+ALTER TABLE "PronunciationLetterScore" RENAME CONSTRAINT "PronunciationSoundScore_feedbackId_fkey" TO "PronunciationLetterScore_feedbackId_fkey";
+ALTER INDEX "PronunciationSoundScore_userId_languageId_createdAt_idx" RENAME TO "PronunciationLetterScore_userId_languageId_createdAt_idx";
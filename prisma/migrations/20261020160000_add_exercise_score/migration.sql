@@ -0,0 +1,2 @@
+-- Exercises no longer share the quiz score column
+ALTER TABLE "LearningProgress" ADD COLUMN "exerciseScore" INTEGER;
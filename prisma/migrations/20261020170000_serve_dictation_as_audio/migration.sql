@@ -0,0 +1,20 @@
+-- Dictation prompts carried the sentence to dictate as "speechText". It now stays in the
+-- answer key and is read out by GET /api/ai-lessons/exercises/:exerciseId/audio.
+UPDATE "LessonExercise"
+SET "prompt" = ("prompt" - 'speechText') || jsonb_build_object('audioUrl', '/api/ai-lessons/exercises/' || "id" || '/audio')
+WHERE "type" = 'DICTATION';
+
+-- The lesson content keeps a copy of every exercise's public side
+UPDATE "Lesson"
+SET "content" = jsonb_set("content", '{exercises}', (
+    SELECT jsonb_agg(
+        CASE WHEN exercise->>'type' = 'dictation'
+            THEN (exercise - 'speechText') || jsonb_build_object('audioUrl', '/api/ai-lessons/exercises/' || (exercise->>'id') || '/audio')
+            ELSE exercise
+        END
+        ORDER BY position
+    )
+    FROM jsonb_array_elements("content"->'exercises') WITH ORDINALITY AS exercises(exercise, position)
+))
+WHERE jsonb_typeof("content"->'exercises') = 'array'
+  AND "content"->'exercises' @> '[{"type": "dictation"}]';
@@ -0,0 +1,10 @@
+-- Scores are now per sound, transcribed with each language's spelling rules.
+-- Letter rows cannot be converted; npm run pronunciation:rescore rebuilds them from the stored transcripts.
+DELETE FROM "PronunciationLetterScore";
+
+ALTER TABLE "PronunciationLetterScore" RENAME TO "PronunciationSoundScore";
+ALTER TABLE "PronunciationSoundScore" RENAME COLUMN "letter" TO "sound";
+ALTER TABLE "PronunciationSoundScore" ADD COLUMN "spelling" TEXT NOT NULL;
+ALTER TABLE "PronunciationSoundScore" RENAME CONSTRAINT "PronunciationLetterScore_pkey" TO "PronunciationSoundScore_pkey";
+ALTER TABLE "PronunciationSoundScore" RENAME CONSTRAINT "PronunciationLetterScore_feedbackId_fkey" TO "PronunciationSoundScore_feedbackId_fkey";
+ALTER INDEX "PronunciationLetterScore_userId_languageId_createdAt_idx" RENAME TO "PronunciationSoundScore_userId_languageId_createdAt_idx";
@@ -11,6 +11,14 @@ import languageRoutes from './routes/language.routes';
 import progressRoutes from './routes/progress.routes';
 import aiLessonsRoutes from './routes/ai-lessons.routes';
 import leaderboardRoutes from './routes/leaderboard.routes';
+import vocabularyRoutes from './routes/vocabulary.routes';
+import conversationRoutes from './routes/conversation.routes';
+import pronunciationRoutes from './routes/pronunciation.routes';
+import curriculumRoutes from './routes/curriculum.routes';
+import placementRoutes from './routes/placement.routes';
+import socialRoutes from './routes/social.routes';
+import leagueRoutes from './routes/league.routes';
+import adminRoutes from './routes/admin.routes';
 
 // Initialize express app
 const app = express();
@@ -31,6 +39,14 @@ app.use('/api/languages', languageRoutes);
 app.use('/api/progress', progressRoutes);
 app.use('/api/ai-lessons', aiLessonsRoutes);
 app.use('/api/leaderboard', leaderboardRoutes);
+app.use('/api/vocabulary', vocabularyRoutes);
+app.use('/api/conversations', conversationRoutes);
+app.use('/api/pronunciation', pronunciationRoutes);
+app.use('/api/curriculum', curriculumRoutes);
+app.use('/api/placement', placementRoutes);
+app.use('/api/social', socialRoutes);
+app.use('/api/leagues', leagueRoutes);
+app.use('/api/admin', adminRoutes);
 
 
 function printRoutes(stack: any[], prefix = "") {
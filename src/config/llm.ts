@@ -0,0 +1,39 @@
+import { LLMTask } from '../services/llm/llm.types';
+
+export interface LLMTaskConfig {
+    provider: string;
+    model?: string;
+}
+
+// Env var prefix per task, e.g. LLM_QUIZ_PROVIDER / LLM_QUIZ_MODEL
+const TASK_ENV_PREFIX: Record<LLMTask, string> = {
+    lesson: 'LESSON',
+    quiz: 'QUIZ',
+    conversation: 'CONVERSATION',
+    conversationReply: 'CONVERSATION_REPLY',
+    conversationSummary: 'CONVERSATION_SUMMARY',
+    pronunciation: 'PRONUNCIATION',
+    pronunciationPractice: 'PRONUNCIATION_PRACTICE',
+    placement: 'PLACEMENT'
+};
+
+/**
+ * Resolve which provider and model handle a task.
+ * Task-specific variables win over LLM_PROVIDER / LLM_MODEL; Gemini is the default.
+ * LLM_MODEL names a model of LLM_PROVIDER, so it only applies to tasks that use that
+ * provider; a task moved to another provider gets that provider's default model
+ * (GEMINI_MODEL, OPENAI_MODEL) unless it sets its own.
+ * Read on every call so tests can switch providers at runtime.
+ */
+export const getLLMTaskConfig = (task: LLMTask): LLMTaskConfig => {
+    const prefix = TASK_ENV_PREFIX[task];
+    const defaultProvider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+    const provider = (process.env[`LLM_${prefix}_PROVIDER`] || defaultProvider).toLowerCase();
+
+    return {
+        provider,
+        model: process.env[`LLM_${prefix}_MODEL`]
+            || (provider === defaultProvider ? process.env.LLM_MODEL : undefined)
+            || undefined
+    };
+};
@@ -0,0 +1,857 @@
+import { Response } from 'express';
+import { PrismaClient, Prisma, Role, TextDirection } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { revokeAllSessions } from '../services/session.service';
+import { normalizeLanguageCode, describeLanguage, isValidScript } from '../services/language-catalog.service';
+import { validateLessonContent, validateQuizQuestions } from '../services/llm/llm.schemas';
+import { prepareLessonExercises } from '../services/lesson-exercise.service';
+import { CURRENT_QUIZ_ORDER, createQuizVersion, findCurrentQuiz } from '../services/quiz-version.service';
+import { parseLevel, parseLevelFilter, LEVEL_INPUT_HINT } from '../utils/levels';
+import { parsePagination, PaginationQuery } from '../utils/pagination';
+
+const prisma = new PrismaClient();
+
+interface TypedRequestBody<T> extends AuthenticatedRequest {
+    body: T;
+}
+
+interface RoleBody {
+    role: Role;
+}
+
+interface LanguageBody {
+    code?: string;
+    name?: string;
+    nativeName?: string | null;
+    script?: string | null;
+    direction?: TextDirection;
+    enabled?: boolean;
+}
+
+interface LessonUpdateBody {
+    title?: string;
+    description?: string | null;
+    level?: string;
+    content?: unknown;
+}
+
+interface QuizUpdateBody {
+    questions: unknown;
+}
+
+const USER_SELECT: Prisma.UserSelect = {
+    id: true,
+    email: true,
+    fullName: true,
+    role: true,
+    emailVerified: true,
+    deactivatedAt: true,
+    createdAt: true
+};
+
+const isUniqueViolation = (error: unknown): boolean =>
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+const isForeignKeyViolation = (error: unknown): boolean =>
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003';
+
+/**
+ * List users, optionally filtered by role or a name/email search
+ */
+export const listUsers = async (
+    req: TypedRequestBody<{}> & { query: PaginationQuery & { role?: string; search?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const { role, search } = req.query;
+        const { page, limit, skip } = parsePagination(req.query);
+
+        if (role && !Object.values(Role).includes(role as Role)) {
+            res.status(400).json({
+                success: false,
+                message: `role must be one of ${Object.values(Role).join(', ')}`
+            });
+            return;
+        }
+
+        const where: Prisma.UserWhereInput = {
+            ...(role && { role: role as Role }),
+            ...(search && {
+                OR: [
+                    { email: { contains: search, mode: 'insensitive' } },
+                    { fullName: { contains: search, mode: 'insensitive' } }
+                ]
+            })
+        };
+
+        const [users, total] = await Promise.all([
+            prisma.user.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip,
+                take: limit,
+                select: USER_SELECT
+            }),
+            prisma.user.count({ where })
+        ]);
+
+        res.json({
+            success: true,
+            data: { users, page, limit, total }
+        });
+    } catch (error) {
+        console.error('List users error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching users'
+        });
+    }
+};
+
+export const updateUserRole = async (req: TypedRequestBody<RoleBody>, res: Response): Promise<void> => {
+    try {
+        const { userId } = req.params;
+        const { role } = req.body;
+
+        if (!Object.values(Role).includes(role)) {
+            res.status(400).json({
+                success: false,
+                message: `role must be one of ${Object.values(Role).join(', ')}`
+            });
+            return;
+        }
+
+        // Keeps at least one admin: an admin cannot demote themselves
+        if (userId === req.user.id && role !== Role.ADMIN) {
+            res.status(400).json({
+                success: false,
+                message: 'You cannot remove your own admin role'
+            });
+            return;
+        }
+
+        const existing = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        const user = await prisma.user.update({
+            where: { id: userId },
+            data: { role },
+            select: USER_SELECT
+        });
+
+        res.json({
+            success: true,
+            message: 'Role updated successfully',
+            data: user
+        });
+    } catch (error) {
+        console.error('Update user role error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating user role'
+        });
+    }
+};
+
+/**
+ * Deactivate a user: blocks login and signs them out of every session
+ */
+export const deactivateUser = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { userId } = req.params;
+
+        if (userId === req.user.id) {
+            res.status(400).json({
+                success: false,
+                message: 'You cannot deactivate your own account'
+            });
+            return;
+        }
+
+        const existing = await prisma.user.findUnique({ where: { id: userId }, select: { deactivatedAt: true } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        // Bumping tokenVersion invalidates access tokens that are still within their lifetime
+        const user = await prisma.user.update({
+            where: { id: userId },
+            data: {
+                deactivatedAt: existing.deactivatedAt ?? new Date(),
+                tokenVersion: { increment: 1 }
+            },
+            select: USER_SELECT
+        });
+        await revokeAllSessions(userId);
+
+        res.json({
+            success: true,
+            message: 'User deactivated successfully',
+            data: user
+        });
+    } catch (error) {
+        console.error('Deactivate user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error deactivating user'
+        });
+    }
+};
+
+export const reactivateUser = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { userId } = req.params;
+
+        const existing = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        const user = await prisma.user.update({
+            where: { id: userId },
+            data: { deactivatedAt: null },
+            select: USER_SELECT
+        });
+
+        res.json({
+            success: true,
+            message: 'User reactivated successfully',
+            data: user
+        });
+    } catch (error) {
+        console.error('Reactivate user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error reactivating user'
+        });
+    }
+};
+
+/**
+ * The whole catalog, including disabled languages, with learner counts
+ */
+export const listCatalogLanguages = async (_req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const languages = await prisma.language.findMany({
+            orderBy: { name: 'asc' },
+            include: { _count: { select: { userLanguages: true } } }
+        });
+
+        res.json({
+            success: true,
+            data: languages.map(({ _count, ...language }) => ({
+                ...language,
+                learners: _count.userLanguages
+            }))
+        });
+    } catch (error) {
+        console.error('List catalog languages error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching languages'
+        });
+    }
+};
+
+/**
+ * Validate the optional catalog fields of a language body; returns an error message or null
+ */
+const validateLanguageFields = (body: LanguageBody): string | null => {
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) return 'name must be a non-empty string';
+    if (body.nativeName !== undefined && body.nativeName !== null && typeof body.nativeName !== 'string') return 'nativeName must be a string';
+    if (body.script !== undefined && body.script !== null && !isValidScript(body.script)) {
+        return 'script must be an ISO 15924 code such as "Latn" or "Arab"';
+    }
+    if (body.direction !== undefined && !Object.values(TextDirection).includes(body.direction)) {
+        return `direction must be one of ${Object.values(TextDirection).join(', ')}`;
+    }
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+    return null;
+};
+
+/**
+ * Add a language to the catalog. Name, native name, script and direction default
+ * to what the code implies, e.g. "ar" -> Arabic, العربية, Arab, RTL.
+ */
+export const createLanguage = async (req: TypedRequestBody<LanguageBody>, res: Response): Promise<void> => {
+    try {
+        const code = normalizeLanguageCode(req.body.code);
+
+        if (!code) {
+            res.status(400).json({
+                success: false,
+                message: 'code must be a valid ISO 639-1 / BCP-47 language tag, e.g. "es" or "pt-BR"'
+            });
+            return;
+        }
+
+        const validationError = validateLanguageFields(req.body);
+        if (validationError) {
+            res.status(400).json({
+                success: false,
+                message: validationError
+            });
+            return;
+        }
+
+        const defaults = describeLanguage(code);
+        const { name, nativeName, script, direction, enabled } = req.body;
+
+        const language = await prisma.language.create({
+            data: {
+                code,
+                name: name?.trim() || defaults.name,
+                nativeName: nativeName?.trim() || defaults.nativeName,
+                script: script ?? defaults.script,
+                direction: direction ?? defaults.direction,
+                enabled: enabled ?? true
+            }
+        });
+
+        res.status(201).json({
+            success: true,
+            message: 'Language created successfully',
+            data: language
+        });
+    } catch (error) {
+        if (isUniqueViolation(error)) {
+            res.status(409).json({
+                success: false,
+                message: 'A language with this name or code already exists'
+            });
+            return;
+        }
+
+        console.error('Create language error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error creating language'
+        });
+    }
+};
+
+/**
+ * Edit a catalog entry; also used to enable or disable a language
+ */
+export const updateLanguage = async (req: TypedRequestBody<LanguageBody>, res: Response): Promise<void> => {
+    try {
+        const { languageId } = req.params;
+        const { name, nativeName, script, direction, enabled } = req.body;
+
+        const code = req.body.code !== undefined ? normalizeLanguageCode(req.body.code) : undefined;
+        if (code === null) {
+            res.status(400).json({
+                success: false,
+                message: 'code must be a valid ISO 639-1 / BCP-47 language tag, e.g. "es" or "pt-BR"'
+            });
+            return;
+        }
+
+        const validationError = validateLanguageFields(req.body);
+        if (validationError) {
+            res.status(400).json({
+                success: false,
+                message: validationError
+            });
+            return;
+        }
+
+        const existing = await prisma.language.findUnique({ where: { id: languageId } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Language not found'
+            });
+            return;
+        }
+
+        const language = await prisma.language.update({
+            where: { id: languageId },
+            data: {
+                ...(code && { code }),
+                ...(name && { name: name.trim() }),
+                ...(nativeName !== undefined && { nativeName: nativeName?.trim() || null }),
+                ...(script !== undefined && { script }),
+                ...(direction && { direction }),
+                ...(enabled !== undefined && { enabled })
+            }
+        });
+
+        res.json({
+            success: true,
+            message: 'Language updated successfully',
+            data: language
+        });
+    } catch (error) {
+        if (isUniqueViolation(error)) {
+            res.status(409).json({
+                success: false,
+                message: 'A language with this name or code already exists'
+            });
+            return;
+        }
+
+        console.error('Update language error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating language'
+        });
+    }
+};
+
+/**
+ * Delete a language. Languages that still have learners, lessons or history are kept.
+ */
+export const deleteLanguage = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { languageId } = req.params;
+
+        const existing = await prisma.language.findUnique({ where: { id: languageId } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Language not found'
+            });
+            return;
+        }
+
+        await prisma.language.delete({ where: { id: languageId } });
+
+        res.json({
+            success: true,
+            message: 'Language deleted successfully'
+        });
+    } catch (error) {
+        if (isForeignKeyViolation(error)) {
+            res.status(409).json({
+                success: false,
+                message: 'Language is still in use and cannot be deleted'
+            });
+            return;
+        }
+
+        console.error('Delete language error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error deleting language'
+        });
+    }
+};
+
+/**
+ * List lessons for review, newest first. generated=true limits to AI-generated lessons.
+ */
+export const listLessons = async (
+    req: TypedRequestBody<{}> & { query: PaginationQuery & { languageId?: string; level?: string; generated?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const { languageId, level, generated } = req.query;
+        const { page, limit, skip } = parsePagination(req.query);
+        // A legacy level filters on its whole band, e.g. INTERMEDIATE matches B1 and B2
+        const levels = parseLevelFilter(level);
+
+        const where: Prisma.LessonWhereInput = {
+            ...(languageId && { languageId }),
+            ...(levels && { level: { in: levels } }),
+            ...(generated === 'true' && { cacheKey: { not: null } })
+        };
+
+        const [lessons, total] = await Promise.all([
+            prisma.lesson.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip,
+                take: limit,
+                select: {
+                    id: true,
+                    title: true,
+                    description: true,
+                    languageId: true,
+                    level: true,
+                    unitId: true,
+                    cacheKey: true,
+                    createdAt: true,
+                    updatedAt: true,
+                    Quiz: { select: { id: true, version: true }, orderBy: CURRENT_QUIZ_ORDER, take: 1 },
+                    _count: { select: { progress: true } }
+                }
+            }),
+            prisma.lesson.count({ where })
+        ]);
+
+        res.json({
+            success: true,
+            data: {
+                lessons: lessons.map(({ Quiz, _count, ...lesson }) => ({
+                    ...lesson,
+                    quizId: Quiz[0]?.id ?? null,
+                    quizVersion: Quiz[0]?.version ?? null,
+                    learners: _count.progress
+                })),
+                page,
+                limit,
+                total
+            }
+        });
+    } catch (error) {
+        console.error('List lessons error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching lessons'
+        });
+    }
+};
+
+export const updateLesson = async (req: TypedRequestBody<LessonUpdateBody>, res: Response): Promise<void> => {
+    try {
+        const { lessonId } = req.params;
+        const { title, description, content } = req.body;
+        const level = req.body.level !== undefined ? parseLevel(req.body.level) : undefined;
+
+        if (level === null) {
+            res.status(400).json({
+                success: false,
+                message: `level must be one of ${LEVEL_INPUT_HINT}`
+            });
+            return;
+        }
+
+        // Edited content must still be something the lesson screens can render
+        let prepared: ReturnType<typeof prepareLessonExercises> | undefined;
+        if (content !== undefined) {
+            const validation = validateLessonContent(content);
+            if (!validation.ok) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Invalid lesson content',
+                    errors: validation.errors
+                });
+                return;
+            }
+            prepared = prepareLessonExercises(validation.value);
+        }
+
+        const existing = await prisma.lesson.findUnique({ where: { id: lessonId }, select: { id: true } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Lesson not found'
+            });
+            return;
+        }
+
+        // New content replaces the exercises, and with them the learners' answers to the old ones
+        const lesson = await prisma.lesson.update({
+            where: { id: lessonId },
+            data: {
+                ...(title && { title }),
+                ...(description !== undefined && { description }),
+                ...(level && { level }),
+                ...(prepared && {
+                    content: prepared.content,
+                    exercises: { deleteMany: {}, createMany: { data: prepared.exercises } }
+                })
+            }
+        });
+
+        res.json({
+            success: true,
+            message: 'Lesson updated successfully',
+            data: lesson
+        });
+    } catch (error) {
+        console.error('Update lesson error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating lesson'
+        });
+    }
+};
+
+/**
+ * Delete a lesson together with its quiz, exercises, attempts, leaderboard entries and progress.
+ * Vocabulary cards extracted from it are kept.
+ */
+export const deleteLesson = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { lessonId } = req.params;
+
+        const existing = await prisma.lesson.findUnique({ where: { id: lessonId }, select: { id: true } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Lesson not found'
+            });
+            return;
+        }
+
+        await prisma.$transaction([
+            prisma.leaderboardEntry.deleteMany({ where: { quiz: { lessonId } } }),
+            prisma.quizAttempt.deleteMany({ where: { quiz: { lessonId } } }),
+            prisma.quiz.deleteMany({ where: { lessonId } }),
+            prisma.learningProgress.deleteMany({ where: { lessonId } }),
+            prisma.progress.deleteMany({ where: { lessonId } }),
+            prisma.lesson.delete({ where: { id: lessonId } })
+        ]);
+
+        res.json({
+            success: true,
+            message: 'Lesson deleted successfully'
+        });
+    } catch (error) {
+        console.error('Delete lesson error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error deleting lesson'
+        });
+    }
+};
+
+/**
+ * The moderation queue: quizzes flagged by learners, oldest report first. A flag is resolved
+ * by dismissing it or by saving a new version of the quiz (edit or regenerate).
+ */
+export const listFlaggedQuizzes = async (
+    req: TypedRequestBody<{}> & { query: PaginationQuery },
+    res: Response
+): Promise<void> => {
+    try {
+        const { page, limit, skip } = parsePagination(req.query);
+        const where: Prisma.QuizWhereInput = { flaggedAt: { not: null } };
+
+        const [quizzes, total] = await Promise.all([
+            prisma.quiz.findMany({
+                where,
+                orderBy: { flaggedAt: 'asc' },
+                skip,
+                take: limit,
+                select: {
+                    id: true,
+                    lessonId: true,
+                    version: true,
+                    flaggedAt: true,
+                    flagReason: true,
+                    createdAt: true,
+                    lesson: { select: { title: true, languageId: true, level: true } }
+                }
+            }),
+            prisma.quiz.count({ where })
+        ]);
+
+        res.json({
+            success: true,
+            data: { quizzes, page, limit, total }
+        });
+    } catch (error) {
+        console.error('List flagged quizzes error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching flagged quizzes'
+        });
+    }
+};
+
+/**
+ * Dismiss the flag on a quiz that turned out to be fine
+ */
+export const dismissQuizFlag = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { quizId } = req.params;
+
+        const { count } = await prisma.quiz.updateMany({
+            where: { id: quizId },
+            data: { flaggedAt: null, flagReason: null }
+        });
+        if (!count) {
+            res.status(404).json({
+                success: false,
+                message: 'Quiz not found'
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'Quiz flag dismissed'
+        });
+    } catch (error) {
+        console.error('Dismiss quiz flag error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error dismissing quiz flag'
+        });
+    }
+};
+
+/**
+ * Save edited questions as a new version of the quiz. The edited version keeps its attempts
+ * and leaderboard entries on the questions they were answered against.
+ */
+export const updateQuiz = async (req: TypedRequestBody<QuizUpdateBody>, res: Response): Promise<void> => {
+    try {
+        const { quizId } = req.params;
+
+        const validation = validateQuizQuestions(req.body.questions);
+        if (!validation.ok) {
+            res.status(400).json({
+                success: false,
+                message: 'Invalid quiz questions',
+                errors: validation.errors
+            });
+            return;
+        }
+
+        const existing = await prisma.quiz.findUnique({ where: { id: quizId }, select: { id: true, lessonId: true, version: true } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Quiz not found'
+            });
+            return;
+        }
+
+        const current = await findCurrentQuiz(existing.lessonId);
+        if (current?.id !== existing.id) {
+            res.status(409).json({
+                success: false,
+                message: 'Only the current version of a quiz can be edited'
+            });
+            return;
+        }
+
+        const quiz = await createQuizVersion(existing.lessonId, validation.value);
+
+        res.json({
+            success: true,
+            message: 'Quiz saved as a new version',
+            data: quiz,
+            previousVersion: existing.version
+        });
+    } catch (error) {
+        if (isUniqueViolation(error)) {
+            res.status(409).json({
+                success: false,
+                message: 'The quiz was changed at the same time, please retry'
+            });
+            return;
+        }
+        console.error('Update quiz error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating quiz'
+        });
+    }
+};
+
+export const deleteQuiz = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { quizId } = req.params;
+
+        const existing = await prisma.quiz.findUnique({ where: { id: quizId }, select: { id: true } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Quiz not found'
+            });
+            return;
+        }
+
+        await prisma.$transaction([
+            prisma.leaderboardEntry.deleteMany({ where: { quizId } }),
+            prisma.quizAttempt.deleteMany({ where: { quizId } }),
+            prisma.quiz.delete({ where: { id: quizId } })
+        ]);
+
+        res.json({
+            success: true,
+            message: 'Quiz deleted successfully'
+        });
+    } catch (error) {
+        console.error('Delete quiz error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error deleting quiz'
+        });
+    }
+};
+
+export const deleteLeaderboardEntry = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { entryId } = req.params;
+
+        const { count } = await prisma.leaderboardEntry.deleteMany({ where: { id: entryId } });
+        if (!count) {
+            res.status(404).json({
+                success: false,
+                message: 'Leaderboard entry not found'
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'Leaderboard entry deleted successfully'
+        });
+    } catch (error) {
+        console.error('Delete leaderboard entry error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error deleting leaderboard entry'
+        });
+    }
+};
+
+/**
+ * Reset leaderboard entries for a user, a quiz, or both. At least one filter is required
+ * so a missing query parameter cannot wipe the whole leaderboard.
+ */
+export const resetLeaderboard = async (
+    req: TypedRequestBody<{}> & { query: { userId?: string; quizId?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const { userId, quizId } = req.query;
+
+        if (!userId && !quizId) {
+            res.status(400).json({
+                success: false,
+                message: 'userId or quizId is required'
+            });
+            return;
+        }
+
+        const { count } = await prisma.leaderboardEntry.deleteMany({
+            where: {
+                ...(userId && { userId }),
+                ...(quizId && { quizId })
+            }
+        });
+
+        res.json({
+            success: true,
+            message: 'Leaderboard entries reset successfully',
+            data: { deleted: count }
+        });
+    } catch (error) {
+        console.error('Reset leaderboard error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error resetting leaderboard'
+        });
+    }
+};
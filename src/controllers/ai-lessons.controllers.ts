@@ -1,150 +1,152 @@
-import { Request, Response } from "express";
-import { PrismaClient } from "@prisma/client";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { Response } from "express";
+import { PrismaClient, Prisma, Lesson, ActivityType, ExerciseType, Role } from "@prisma/client";
+import {
+  parseQuizQuestions,
+  parseQuestionTypes,
+  stripAnswers,
+  validateSubmission,
+  gradeQuiz,
+  QuizAnswer,
+  QuizQuestionType,
+  QUIZ_QUESTION_TYPES,
+  DEFAULT_QUESTION_TYPES,
+} from "../services/quiz-grading.service";
+import { addLessonVocabularyToDeck } from "../services/spaced-repetition.service";
+import {
+  CURRENT_QUIZ_ORDER,
+  findCurrentQuiz,
+  isQuizReplaceable,
+  createQuizVersion,
+} from "../services/quiz-version.service";
+import {
+  prepareLessonExercises,
+  validateExerciseAnswer,
+  gradeExercise,
+  lessonExerciseScore,
+} from "../services/lesson-exercise.service";
+import {
+  lessonCacheKey,
+  findReusableLesson,
+  recordCacheOutcome,
+  getLessonCacheStats,
+} from "../services/lesson-cache.service";
+import { replyToLearner, parsePracticeTranscript } from "../services/conversation.service";
+import { recordActivity } from "../services/activity.service";
+import { getLessonAccess } from "../services/curriculum.service";
+import { evaluateAchievements } from "../services/achievements/achievement.service";
+import {
+  decodeAudio,
+  parseBase64Audio,
+  AudioValidationError,
+  DecodedAudio,
+} from "../services/audio.service";
+import { transcribeAudio } from "../services/stt/stt.service";
+import { synthesizeSpeech } from "../services/tts/tts.service";
+import { scorePronunciation } from "../services/pronunciation-scoring.service";
+import {
+  generateValidatedJSON,
+  LLMValidationError,
+} from "../services/llm/llm.service";
+import {
+  validateLessonContent,
+  quizQuestionsValidator,
+  validateConversationScript,
+  validatePronunciationCoaching,
+  LessonContent,
+  ConversationScript,
+  PronunciationCoaching,
+} from "../services/llm/llm.schemas";
+import { parseLevel, describeLevelForPrompt, LEVEL_INPUT_HINT } from "../utils/levels";
+import { AuthenticatedRequest } from "../middleware/auth.middleware";
 
 const prisma = new PrismaClient();
 
-// Gemini setup
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
-const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-2.5-flash";
-
-console.log("GEMINI_API_KEY loaded?", !!process.env.GEMINI_API_KEY);
-console.log("GEMINI_MODEL:", GEMINI_MODEL);
-
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-
-
-function safeJsonParse<T = any>(raw: string): T {
-  const text = String(raw || "").trim();
-
-  try {
-    return JSON.parse(text);
-  } catch {}
-
-  const cleaned = text
-    .replace(/^```json\s*/i, "")
-    .replace(/^```\s*/i, "")
-    .replace(/```$/i, "")
-    .trim();
-
-  try {
-    return JSON.parse(cleaned);
-  } catch {}
-
-  const objMatch = cleaned.match(/\{[\s\S]*\}/);
-  if (objMatch) {
-    try {
-      return JSON.parse(objMatch[0]);
-    } catch {}
-  }
-
-  const arrMatch = cleaned.match(/\[[\s\S]*\]/);
-  if (arrMatch) {
-    try {
-      return JSON.parse(arrMatch[0]);
-    } catch {}
-  }
-
-  throw new Error("Gemini did not return valid JSON");
-}
-
-async function callGeminiText(prompt: string, maxOutputTokens = 1200): Promise<string> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Missing GEMINI_API_KEY in environment variables");
-  }
-
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
-
-  const result = await model.generateContent({
-    contents: [{ role: "user", parts: [{ text: prompt }] }],
-    generationConfig: {
-      maxOutputTokens,
-      temperature: 0.7,
-    },
+// The model could not produce valid output even after repair retries; nothing is persisted
+function sendGenerationFailure(res: Response, what: string, error: LLMValidationError) {
+  return res.status(502).json({
+    success: false,
+    status: "generation_failed",
+    message: `${what} generation failed: the AI returned invalid output. Please retry.`,
+    errors: error.errors,
   });
-
-  return result.response.text();
-}
-
-async function callGeminiJSON<T = any>(prompt: string, maxOutputTokens = 2000): Promise<T> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Missing GEMINI_API_KEY in environment variables");
-  }
-
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
-
-  const result = await model.generateContent({
-    contents: [
-      {
-        role: "user",
-        parts: [
-          {
-            text: `
-You MUST respond with ONLY valid JSON.
-No markdown. No code fences. No explanation. No extra text.
-
-${prompt}
-            `.trim(),
-          },
-        ],
-      },
-    ],
-    generationConfig: {
-      maxOutputTokens,
-      temperature: 0.4,
-      responseMimeType: "application/json",
-    },
-  });
-
-  const raw = result.response.text();
-  return safeJsonParse<T>(raw);
 }
 
 interface LessonRequest {
   languageId: string;
-  level: "BEGINNER" | "INTERMEDIATE" | "ADVANCED";
+  // A1-C2; BEGINNER, INTERMEDIATE and ADVANCED are still accepted
+  level: string;
   topic?: string;
+  // Skip the reuse cache and always generate a new lesson
+  forceNew?: boolean;
 }
 
 interface QuizRequest {
   lessonId: string;
   numberOfQuestions?: number;
+  // Question types to mix, e.g. ["true_false", "short_answer"]; multiple choice only by default
+  questionTypes?: string[] | string;
+}
+
+interface QuizRegenerateRequest {
+  numberOfQuestions?: number;
+  questionTypes?: string[] | string;
+}
+
+interface QuizFlagRequest {
+  reason?: string;
+}
+
+interface QuizAttemptRequest {
+  answers: QuizAnswer[];
+  timeTaken?: number;
+}
+
+// JSON shape and rules of each question type, for the quiz prompt
+const QUESTION_FORMATS: Record<QuizQuestionType, string> = {
+  multiple_choice:
+    '{"type":"multiple_choice","question":"","options":["","","",""],"correctAnswer":0,"explanation":""}\n  4 distinct options; correctAnswer is the index (0-3) of the right one',
+  true_false:
+    '{"type":"true_false","question":"<a statement to judge>","correctAnswer":true,"explanation":""}',
+  multi_select:
+    '{"type":"multi_select","question":"","options":["","","","",""],"correctAnswers":[0,2],"explanation":""}\n  3 to 6 distinct options; correctAnswers lists the index of every right option',
+  short_answer:
+    '{"type":"short_answer","question":"","answers":["",""],"explanation":""}\n  answered by typing a word or short phrase; answers lists every acceptable answer, the most natural first',
+  ordering:
+    '{"type":"ordering","question":"","options":["","","",""],"correctOrder":[2,0,3,1],"explanation":""}\n  3 to 8 items listed out of order; correctOrder lists the option indexes in the right order',
+};
+
+interface ExerciseAnswerRequest {
+  // A string, the words of a reorder exercise, or a left -> right map for match_pairs
+  answer: unknown;
 }
 
 interface PronunciationFeedbackRequest {
   languageId: string;
-  audioData: string;
+  audioData?: string;
   targetText: string;
-  level: "BEGINNER" | "INTERMEDIATE" | "ADVANCED";
+  level: string;
 }
 
-interface PronunciationFeedback {
-  accuracy: number;
-  feedback: string;
-  suggestions: string[];
-  phonemes: Array<{
-    sound: string;
-    accuracy: number;
-    feedback: string;
-  }>;
-}
+// Longer texts make alignment scoring slow and are not a single sentence to read aloud
+const MAX_TARGET_TEXT_LENGTH = 500;
 
 /**
- * Generate a language lesson using Gemini
+ * Generate a language lesson with the configured LLM provider
  */
-export const generateLesson = async (req: Request, res: Response) => {
+export const generateLesson = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { languageId, level, topic } = req.body as LessonRequest;
-    const userId = (req as any).user?.id;
+    const { languageId, topic, forceNew } = req.body as LessonRequest;
+    const level = parseLevel(req.body.level);
+    const userId = req.user.id;
 
-    if (!languageId || !level) {
+    if (!languageId || !req.body.level) {
       return res.status(400).json({
         success: false,
         message: "languageId and level are required",
       });
     }
-    if (!userId) {
-      return res.status(401).json({ success: false, message: "Unauthorized" });
+    if (!level) {
+      return res.status(400).json({ success: false, message: `level must be one of ${LEVEL_INPUT_HINT}` });
     }
 
     const language = await prisma.language.findUnique({ where: { id: languageId } });
@@ -152,13 +154,37 @@ export const generateLesson = async (req: Request, res: Response) => {
       return res.status(404).json({ success: false, message: "Language not found" });
     }
 
-    let lessonContent: any;
-    try {
-      lessonContent = await callGeminiJSON(
-        `
-Generate a structured ${level.toLowerCase()} level lesson for learning ${language.name}${
-          topic ? ` about ${topic}` : ""
-        }.
+    const cacheKey = lessonCacheKey(languageId, level, topic);
+    const cached = forceNew ? null : await findReusableLesson(cacheKey, userId);
+    recordCacheOutcome(forceNew ? "forced" : cached ? "hit" : "miss");
+
+    let lesson: Lesson;
+    let lessonContent: LessonContent;
+    let quizStatus: "generated" | "existing" | "failed" = "generated";
+
+    if (cached) {
+      lesson = cached;
+      lessonContent = cached.content as unknown as LessonContent;
+
+      const currentQuiz = await findCurrentQuiz(lesson.id);
+      if (currentQuiz && !isQuizReplaceable(currentQuiz)) {
+        quizStatus = "existing";
+      } else {
+        try {
+          await generateQuizInternal(lesson.id, lessonContent, 5);
+        } catch (e) {
+          console.error("Quiz generation for cached lesson failed:", e);
+          quizStatus = "failed";
+        }
+      }
+    } else {
+      try {
+        lessonContent = await generateValidatedJSON(
+          "lesson",
+          `
+Generate a structured lesson for learning ${language.name}${
+            topic ? ` about ${topic}` : ""
+          } for a learner at ${describeLevelForPrompt(level)}.
 
 Return JSON with exactly:
 {
@@ -172,40 +198,59 @@ Return JSON with exactly:
 Rules:
 - vocabulary: 5 to 10 items
 - examples: 3 to 6 short sentences
-- exercises: 3 to 6 prompts/questions
-- Keep beginner friendly if BEGINNER
-        `.trim(),
-        2400
-      );
-    } catch (e) {
-      console.error("Lesson JSON generation failed:", e);
-      lessonContent = {
-        vocabulary: [],
-        grammar: "Lesson generated but JSON formatting failed. Please retry.",
-        examples: [],
-        exercises: [],
-        culturalNotes: "",
-      };
-    }
+- exercises: 3 to 6 items, each one of:
+  {"type":"fill_blank","sentence":"Buenos ___, señora.","answers":["días"],"hint":"morning greeting"}
+  {"type":"translate","text":"<English sentence>","answers":["<translation>","<other accepted translation>"]}
+  {"type":"reorder","answers":["<target-language sentence of 3 to 8 words>"]}
+  {"type":"match_pairs","pairs":[{"left":"<word>","right":"<English meaning>"}]}
+  {"type":"dictation","answers":["<short target-language sentence>"],"translation":"<English meaning>"}
+- fill_blank sentences contain exactly one ___
+- answers lists every answer that should be accepted, the most natural one first
+- use at least 3 different exercise types
+- Match vocabulary, grammar and sentence length to the learner's level
+          `.trim(),
+          validateLessonContent,
+          2400
+        );
+      } catch (e) {
+        if (e instanceof LLMValidationError) return sendGenerationFailure(res, "Lesson", e);
+        throw e;
+      }
 
-    const lesson = await prisma.lesson.create({
-      data: {
-        title: topic || `${level} ${language.name} Lesson`,
-        description: "AI-generated lesson",
-        languageId,
-        level,
-        content: lessonContent,
-      },
-    });
+      // Answer keys go to LessonExercise rows; the stored content only has what learners see
+      const prepared = prepareLessonExercises(lessonContent);
+      lesson = await prisma.lesson.create({
+        data: {
+          title: topic || `${level} ${language.name} Lesson`,
+          description: "AI-generated lesson",
+          languageId,
+          level,
+          content: prepared.content,
+          cacheKey,
+          exercises: { createMany: { data: prepared.exercises } },
+        },
+      });
+
+      try {
+        await generateQuizInternal(lesson.id, lessonContent, 5);
+      } catch (e) {
+        console.error("Auto quiz generation failed:", e);
+        quizStatus = "failed";
+      }
+    }
 
+    let vocabularyAdded = 0;
     try {
-      await generateQuizInternal(lesson.id, lessonContent, 5);
+      vocabularyAdded = await addLessonVocabularyToDeck(userId, lesson);
     } catch (e) {
-      console.error("Auto quiz generation failed:", e);
+      console.error("Adding lesson vocabulary to review deck failed:", e);
     }
 
-    const progress = await prisma.learningProgress.create({
-      data: {
+    // A reused lesson may already be in progress for this learner
+    const progress = await prisma.learningProgress.upsert({
+      where: { userId_lessonId: { userId, lessonId: lesson.id } },
+      update: {},
+      create: {
         userId,
         lessonId: lesson.id,
         score: 0,
@@ -215,12 +260,15 @@ Rules:
 
     return res.json({
       success: true,
-      lesson: { ...lesson, content: lessonContent },
+      lesson,
       progress: {
         id: progress.id,
         completed: progress.completed,
         score: progress.score,
       },
+      vocabularyAdded,
+      quizStatus,
+      cached: !!cached,
     });
   } catch (error) {
     console.error("Error generating lesson:", error);
@@ -229,46 +277,62 @@ Rules:
 };
 
 
-export const generateQuiz = async (req: Request, res: Response) => {
+export const generateQuiz = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { lessonId, numberOfQuestions = 5 } = req.body as QuizRequest;
+    const questionTypes = parseQuestionTypes(req.body.questionTypes);
 
     if (!lessonId) {
       return res.status(400).json({ success: false, message: "lessonId is required" });
     }
+    if (!questionTypes) {
+      return res.status(400).json({
+        success: false,
+        message: `questionTypes must be a list of ${QUIZ_QUESTION_TYPES.join(", ")}`,
+      });
+    }
 
-    const lesson = await prisma.lesson.findUnique({
-      where: { id: lessonId },
-      include: { language: true, Quiz: true },
-    });
+    const lesson = await prisma.lesson.findUnique({ where: { id: lessonId } });
 
     if (!lesson) {
       return res.status(404).json({ success: false, message: "Lesson not found" });
     }
 
-    if (lesson.Quiz && lesson.Quiz.length > 0) {
-      const existing = lesson.Quiz[0];
-      const questions = Array.isArray(existing.questions) ? existing.questions : [];
+    // A quiz left without questions by an earlier failed generation is replaced by a new version
+    const existing = await findCurrentQuiz(lessonId);
+    const existingQuestions = existing ? parseQuizQuestions(existing.questions) : [];
+    if (existing && existingQuestions.length > 0) {
       return res.json({
         success: true,
-        quiz: { id: existing.id, lessonId: existing.lessonId, questions },
+        quiz: {
+          id: existing.id,
+          lessonId: existing.lessonId,
+          version: existing.version,
+          questions: stripAnswers(existingQuestions),
+        },
       });
     }
 
-    const quiz = await generateQuizInternal(lessonId, lesson.content, numberOfQuestions);
-    const questions = Array.isArray(quiz.questions) ? quiz.questions : [];
+    const quiz = await generateQuizInternal(lessonId, lesson.content, numberOfQuestions, questionTypes);
+    const questions = stripAnswers(parseQuizQuestions(quiz.questions));
 
     return res.json({
       success: true,
-      quiz: { id: quiz.id, lessonId: quiz.lessonId, questions },
+      quiz: { id: quiz.id, lessonId: quiz.lessonId, version: quiz.version, questions },
     });
   } catch (error) {
+    if (error instanceof LLMValidationError) return sendGenerationFailure(res, "Quiz", error);
     console.error("Error generating quiz:", error);
     return res.status(500).json({ success: false, message: "Error generating quiz" });
   }
 };
 
-async function generateQuizInternal(lessonId: string, lessonContent: any = null, numberOfQuestions = 5) {
+async function generateQuizInternal(
+  lessonId: string,
+  lessonContent: any = null,
+  numberOfQuestions = 5,
+  questionTypes: QuizQuestionType[] = DEFAULT_QUESTION_TYPES
+) {
   const lesson = await prisma.lesson.findUnique({
     where: { id: lessonId },
     include: { language: true },
@@ -276,58 +340,358 @@ async function generateQuizInternal(lessonId: string, lessonContent: any = null,
 
   if (!lesson) throw new Error("Lesson not found");
 
-  let quizContent: any[] = [];
-  try {
-    quizContent = await callGeminiJSON<any[]>(
-      `
-Generate ${numberOfQuestions} multiple-choice questions for a ${lesson.level.toLowerCase()} level ${lesson.language.name} lesson.
+  const questions = await generateValidatedJSON(
+    "quiz",
+    `
+Generate ${numberOfQuestions} quiz questions for a ${lesson.language.name} lesson at ${describeLevelForPrompt(lesson.level)}.
 
 If content is provided, base questions on it:
 CONTENT: ${lessonContent ? JSON.stringify(lessonContent) : "N/A"}
 
-Return ONLY a JSON array like:
-[
-  {
-    "question": "",
-    "options": ["", "", "", ""],
-    "correctAnswer": 0,
-    "explanation": ""
-  }
-]
+Return ONLY a JSON array of questions. Use only these question types, spread evenly:
+${questionTypes.map((type) => `- ${QUESTION_FORMATS[type]}`).join("\n")}
 
 Rules:
-- correctAnswer is the index (0-3)
-- options must have 4 items
+- every question has its "type"
+- options must not repeat
 - keep language learner friendly
-      `.trim(),
-      2400
-    );
-  } catch (e) {
-    console.error("Quiz JSON generation failed:", e);
-    quizContent = [];
-  }
+    `.trim(),
+    quizQuestionsValidator(questionTypes),
+    2400
+  );
 
-  return prisma.quiz.create({
-    data: {
-      lessonId,
-      questions: quizContent,
-    },
-  });
+  // Never persist an empty or invalid quiz: generateValidatedJSON throws instead
+  return createQuizVersion(lessonId, questions.slice(0, numberOfQuestions));
 }
 
-export const generateConversationPrompt = async (req: Request, res: Response) => {
+/**
+ * Generate a new version of a lesson's quiz. Learners may only replace a quiz that is empty;
+ * content editors and admins may regenerate any quiz, e.g. one flagged by learners. Earlier
+ * versions keep their attempts and leaderboard entries, so scores are only ever compared on
+ * the same questions.
+ */
+export const regenerateQuiz = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { lessonId } = req.params;
+    const { numberOfQuestions = 5 } = req.body as QuizRegenerateRequest;
+    const questionTypes = parseQuestionTypes(req.body.questionTypes);
+    const role = req.user.role;
+    const isEditor = role === Role.ADMIN || role === Role.CONTENT_EDITOR;
+
+    if (!questionTypes) {
+      return res.status(400).json({
+        success: false,
+        message: `questionTypes must be a list of ${QUIZ_QUESTION_TYPES.join(", ")}`,
+      });
+    }
+
+    const lesson = await prisma.lesson.findUnique({ where: { id: lessonId } });
+    if (!lesson) {
+      return res.status(404).json({ success: false, message: "Lesson not found" });
+    }
+
+    const current = await findCurrentQuiz(lessonId);
+    if (current && !isEditor && !isQuizReplaceable(current)) {
+      return res.status(403).json({
+        success: false,
+        message: "Only empty quizzes can be regenerated. Flag the quiz to have it reviewed.",
+      });
+    }
+
+    const quiz = await generateQuizInternal(lessonId, lesson.content, numberOfQuestions, questionTypes);
+
+    return res.status(201).json({
+      success: true,
+      quiz: {
+        id: quiz.id,
+        lessonId: quiz.lessonId,
+        version: quiz.version,
+        questions: stripAnswers(parseQuizQuestions(quiz.questions)),
+      },
+      previousVersion: current?.version ?? null,
+    });
+  } catch (error) {
+    if (error instanceof LLMValidationError) return sendGenerationFailure(res, "Quiz", error);
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return res.status(409).json({ success: false, message: "The quiz is already being regenerated" });
+    }
+    console.error("Error regenerating quiz:", error);
+    return res.status(500).json({ success: false, message: "Error regenerating quiz" });
+  }
+};
+
+/**
+ * Report a quiz as broken (wrong answers, nonsense questions...). The report waits in the
+ * moderation queue until a content editor dismisses it or regenerates the quiz.
+ */
+export const flagQuiz = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { quizId } = req.params;
+    const { reason } = req.body as QuizFlagRequest;
+
+    const { count } = await prisma.quiz.updateMany({
+      where: { id: quizId },
+      data: {
+        flaggedAt: new Date(),
+        flagReason: typeof reason === "string" && reason.trim() ? reason.trim().slice(0, 500) : null,
+      },
+    });
+    if (!count) {
+      return res.status(404).json({ success: false, message: "Quiz not found" });
+    }
+
+    return res.json({ success: true, message: "Quiz flagged for review" });
+  } catch (error) {
+    console.error("Error flagging quiz:", error);
+    return res.status(500).json({ success: false, message: "Error flagging quiz" });
+  }
+};
+
+/**
+ * Grade a quiz submission server-side and record the attempt, progress and leaderboard entry
+ */
+export const submitQuizAttempt = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { quizId } = req.params;
+    const { answers, timeTaken } = req.body as QuizAttemptRequest;
+    const userId = req.user.id;
+
+    const quiz = await prisma.quiz.findUnique({
+      where: { id: quizId },
+      include: { lesson: { select: { languageId: true } } },
+    });
+    if (!quiz) {
+      return res.status(404).json({ success: false, message: "Quiz not found" });
+    }
+
+    // Passing the quiz completes the lesson, so a locked lesson's quiz is locked too
+    const access = await getLessonAccess(userId, quiz.lessonId);
+    if (!access.unlocked) {
+      return res.status(403).json({ success: false, message: `Lesson is locked: ${access.reason}` });
+    }
+
+    const questions = parseQuizQuestions(quiz.questions);
+    if (questions.length === 0) {
+      return res.status(400).json({ success: false, message: "Quiz has no questions" });
+    }
+
+    const validationError = validateSubmission(questions, answers);
+    if (validationError) {
+      return res.status(400).json({ success: false, message: validationError });
+    }
+
+    const graded = gradeQuiz(questions, answers);
+    // Unverified accounts can practise, but only verified ones are ranked
+    const rankOnLeaderboard = req.user.emailVerified;
+    const validatedTime =
+      typeof timeTaken === "number" && timeTaken >= 0 ? Math.round(timeTaken) : null;
+
+    const attempt = await prisma.$transaction(async (tx) => {
+      const created = await tx.quizAttempt.create({
+        data: {
+          userId,
+          quizId,
+          score: graded.score,
+          correctCount: graded.correctCount,
+          totalQuestions: graded.totalQuestions,
+          timeTaken: validatedTime,
+          answers: {
+            create: graded.results.map((r) => ({
+              questionIndex: r.questionIndex,
+              selectedOption: r.selectedOption,
+              answer: r.answer === null ? Prisma.DbNull : r.answer,
+              isCorrect: r.isCorrect,
+            })),
+          },
+        },
+      });
+
+      // Only a passing attempt completes the lesson; failing a retake never un-completes it
+      await tx.learningProgress.upsert({
+        where: { userId_lessonId: { userId, lessonId: quiz.lessonId } },
+        update: { score: graded.score, ...(graded.passed && { completed: true }), updatedAt: new Date() },
+        create: { userId, lessonId: quiz.lessonId, score: graded.score, completed: graded.passed },
+      });
+
+      // Leaderboard keeps the best graded score for each quiz
+      if (rankOnLeaderboard) {
+        const existingEntry = await tx.leaderboardEntry.findUnique({
+          where: { userId_quizId: { userId, quizId } },
+        });
+        if (!existingEntry) {
+          await tx.leaderboardEntry.create({
+            data: { userId, quizId, score: graded.score, timeTaken: validatedTime },
+          });
+        } else if (graded.score > existingEntry.score) {
+          await tx.leaderboardEntry.update({
+            where: { id: existingEntry.id },
+            data: { score: graded.score, timeTaken: validatedTime },
+          });
+        }
+      }
+
+      return created;
+    });
+
+    const xpAwarded =
+      (await recordActivity(userId, ActivityType.QUIZ_ATTEMPT, {
+        sourceId: attempt.id,
+        languageId: quiz.lesson.languageId,
+        score: graded.score,
+      })) +
+      // Passing the quiz completes the lesson; only the first completion earns XP
+      (graded.passed
+        ? await recordActivity(userId, ActivityType.LESSON_COMPLETED, {
+            sourceId: quiz.lessonId,
+            languageId: quiz.lesson.languageId,
+          })
+        : 0);
+    const achievementsUnlocked = await evaluateAchievements(userId);
+
+    return res.status(201).json({
+      success: true,
+      attempt: {
+        id: attempt.id,
+        quizId,
+        quizVersion: quiz.version,
+        score: graded.score,
+        passed: graded.passed,
+        correctCount: graded.correctCount,
+        totalQuestions: graded.totalQuestions,
+        timeTaken: attempt.timeTaken,
+        createdAt: attempt.createdAt,
+        results: graded.results,
+      },
+      leaderboardUpdated: rankOnLeaderboard,
+      xpAwarded,
+      achievementsUnlocked,
+    });
+  } catch (error) {
+    console.error("Error submitting quiz attempt:", error);
+    return res.status(500).json({ success: false, message: "Error submitting quiz attempt" });
+  }
+};
+
+/**
+ * Grade an answer to one lesson exercise and update the lesson score in LearningProgress.
+ * Exercises can be retried; the score counts those answered correctly at least once.
+ */
+export const submitExerciseAnswer = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { exerciseId } = req.params;
+    const { answer } = req.body as ExerciseAnswerRequest;
+    const userId = req.user.id;
+
+    const exercise = await prisma.lessonExercise.findUnique({ where: { id: exerciseId } });
+    if (!exercise) {
+      return res.status(404).json({ success: false, message: "Exercise not found" });
+    }
+
+    const access = await getLessonAccess(userId, exercise.lessonId);
+    if (!access.unlocked) {
+      return res.status(403).json({ success: false, message: `Lesson is locked: ${access.reason}` });
+    }
+
+    const validationError = validateExerciseAnswer(exercise.type, answer);
+    if (validationError) {
+      return res.status(400).json({ success: false, message: validationError });
+    }
+
+    const result = gradeExercise(exercise, answer);
+    await prisma.exerciseAttempt.create({
+      data: { exerciseId, userId, answer: answer as Prisma.InputJsonValue, isCorrect: result.isCorrect },
+    });
+
+    // Completion and the quiz score are left to the lesson and quiz flows; exercises keep their own score
+    const exerciseScore = await lessonExerciseScore(userId, exercise.lessonId);
+    const progress = await prisma.learningProgress.upsert({
+      where: { userId_lessonId: { userId, lessonId: exercise.lessonId } },
+      update: { exerciseScore },
+      create: { userId, lessonId: exercise.lessonId, exerciseScore, completed: false },
+    });
+
+    return res.status(201).json({
+      success: true,
+      result,
+      progress: {
+        id: progress.id,
+        lessonId: progress.lessonId,
+        score: progress.score,
+        exerciseScore: progress.exerciseScore,
+        completed: progress.completed,
+      },
+    });
+  } catch (error) {
+    console.error("Error submitting exercise answer:", error);
+    return res.status(500).json({ success: false, message: "Error submitting exercise answer" });
+  }
+};
+
+/**
+ * Read a dictation exercise's sentence out. The text is only in the answer key, so the
+ * client gets it as audio and never as something it could display.
+ */
+export const getExerciseAudio = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { exerciseId } = req.params;
+    const userId = req.user.id;
+
+    const exercise = await prisma.lessonExercise.findUnique({
+      where: { id: exerciseId },
+      include: { lesson: { select: { language: { select: { code: true } } } } },
+    });
+    if (!exercise || exercise.type !== ExerciseType.DICTATION) {
+      return res.status(404).json({ success: false, message: "Dictation exercise not found" });
+    }
+
+    const access = await getLessonAccess(userId, exercise.lessonId);
+    if (!access.unlocked) {
+      return res.status(403).json({ success: false, message: `Lesson is locked: ${access.reason}` });
+    }
+
+    const sentence = (exercise.answerKey as { answers?: string[] }).answers?.[0];
+    if (!sentence) {
+      return res.status(404).json({ success: false, message: "Dictation exercise not found" });
+    }
+
+    let speech;
+    try {
+      speech = await synthesizeSpeech(sentence, { languageCode: exercise.lesson.language.code });
+    } catch (e) {
+      console.error("Text-to-speech failed:", e);
+      return res.status(502).json({ success: false, message: "Speech synthesis failed. Please retry." });
+    }
+
+    // The sentence of an exercise never changes, so the audio can be kept by the learner's browser
+    res.set("Cache-Control", "private, max-age=86400");
+    return res.type(speech.mimeType).send(speech.data);
+  } catch (error) {
+    console.error("Error reading exercise audio:", error);
+    return res.status(500).json({ success: false, message: "Error reading exercise audio" });
+  }
+};
+
+/**
+ * Lesson reuse cache hit rate since the process started
+ */
+export const getLessonCacheMetrics = async (_req: AuthenticatedRequest, res: Response) => {
+  return res.json({ success: true, data: getLessonCacheStats() });
+};
+
+export const generateConversationPrompt = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { languageId, level, scenario } = req.body;
-    const userId = (req as any).user?.id;
+    const { languageId, scenario } = req.body;
+    const level = parseLevel(req.body.level);
+    const userId = req.user.id;
 
-    if (!languageId || !level) {
+    if (!languageId || !req.body.level) {
       return res.status(400).json({
         success: false,
         message: "languageId and level are required",
       });
     }
-    if (!userId) {
-      return res.status(401).json({ success: false, message: "Unauthorized" });
+    if (!level) {
+      return res.status(400).json({ success: false, message: `level must be one of ${LEVEL_INPUT_HINT}` });
     }
 
     const language = await prisma.language.findUnique({ where: { id: languageId } });
@@ -335,13 +699,14 @@ export const generateConversationPrompt = async (req: Request, res: Response) =>
       return res.status(404).json({ success: false, message: "Language not found" });
     }
 
-    let conversationContent: any;
+    let conversationContent: ConversationScript;
     try {
-      conversationContent = await callGeminiJSON(
+      conversationContent = await generateValidatedJSON(
+        "conversation",
         `
-Generate a realistic conversation scenario in ${language.name} for ${String(level).toLowerCase()} level${
+Generate a realistic conversation scenario in ${language.name}${
           scenario ? ` about ${scenario}` : ""
-        }.
+        } for a learner at ${describeLevelForPrompt(level)}.
 
 Return ONLY JSON:
 {
@@ -356,19 +721,12 @@ Rules:
 - script: 6 to 12 lines total
 - keep it natural & useful
         `.trim(),
+        validateConversationScript,
         2400
       );
     } catch (e) {
-      console.error("Conversation JSON generation failed:", e);
-      conversationContent = {
-        context: "Practice conversation",
-        vocabulary: [],
-        script: [
-          { [language.code]: "Hola", english: "Hello" },
-          { [language.code]: "¿Cómo estás?", english: "How are you?" },
-        ],
-        culturalNotes: "",
-      };
+      if (e instanceof LLMValidationError) return sendGenerationFailure(res, "Conversation", e);
+      throw e;
     }
 
     const conversation = await prisma.conversationPractice.create({
@@ -376,9 +734,9 @@ Rules:
         userId,
         transcript: {
           languageId,
-          level: level || "BEGINNER",
+          level,
           scenario: scenario || "General conversation",
-          content: conversationContent,
+          content: conversationContent as any,
         },
       },
     });
@@ -402,10 +760,31 @@ Rules:
   }
 };
 
-export const getConversationResponse = async (req: Request, res: Response) => {
+export const getConversationResponse = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { languageId, message } = req.body;
-    const userId = (req as any).user?.id;
+    const { message, sessionId } = req.body;
+    let { languageId } = req.body;
+    const userId = req.user.id;
+
+    // Optional: continue a conversation session so earlier turns are used as context
+    const session = sessionId
+      ? await prisma.conversationSession.findFirst({
+          where: { id: sessionId, userId },
+          include: { practice: { select: { transcript: true } } },
+        })
+      : null;
+    if (sessionId && !session) {
+      return res.status(404).json({ success: false, message: "Conversation session not found" });
+    }
+    if (session && session.status !== "ACTIVE") {
+      return res.status(409).json({ success: false, message: "Conversation session has ended. Resume it first." });
+    }
+    if (session) {
+      if (languageId && languageId !== session.languageId) {
+        return res.status(400).json({ success: false, message: "languageId does not match the conversation session" });
+      }
+      languageId = session.languageId;
+    }
 
     if (!languageId) {
       return res.status(400).json({ success: false, message: "Missing languageId" });
@@ -413,46 +792,38 @@ export const getConversationResponse = async (req: Request, res: Response) => {
     if (!message || typeof message !== "string") {
       return res.status(400).json({ success: false, message: "Missing or invalid message" });
     }
-    if (!userId) {
-      return res.status(401).json({ success: false, message: "Unauthorized" });
-    }
 
     const language = await prisma.language.findUnique({ where: { id: languageId } });
     if (!language) {
       return res.status(404).json({ success: false, message: "Language not found" });
     }
 
-    const prompt = `
-You are a language learning assistant for ${language.name}.
-Respond to this learner message: "${message}"
-
-Your response must:
-1) Be helpful and encouraging
-2) Use simple language
-3) Provide corrections if there are grammar mistakes
-4) Include the correct ${language.name} phrases when appropriate
-
-Keep it under 150 words.
-`.trim();
-
-    const responseText = await callGeminiText(prompt, 700);
-
+    let reply: Awaited<ReturnType<typeof replyToLearner>>;
     try {
-      await prisma.conversationExchange.create({
-        data: {
-          userId,
-          languageId,
-          userMessage: message,
-          aiResponse: responseText,
+      reply = await replyToLearner({
+        userId,
+        languageId,
+        message,
+        sessionId: session?.id,
+        context: {
+          languageName: language.name,
+          level: session?.level,
+          scenario: session?.scenario,
+          scenarioContent: session?.practice ? parsePracticeTranscript(session.practice.transcript).content : null,
         },
       });
-    } catch (dbError) {
-      console.error("Error saving conversation:", dbError);
+    } catch (e) {
+      if (e instanceof LLMValidationError) return sendGenerationFailure(res, "Conversation reply", e);
+      throw e;
     }
 
     return res.json({
       success: true,
-      data: { response: responseText },
+      data: {
+        response: reply.response,
+        corrections: reply.corrections,
+        ...(session && { sessionId: session.id }),
+      },
     });
   } catch (error) {
     console.error("Error generating conversation response:", error);
@@ -463,87 +834,156 @@ Keep it under 150 words.
   }
 };
 
-export const getPronunciationFeedback = async (req: Request, res: Response) => {
+export const getPronunciationFeedback = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { languageId, audioData, targetText, level } = req.body as PronunciationFeedbackRequest;
+    const { languageId, audioData, targetText } = req.body as PronunciationFeedbackRequest;
+    const level = parseLevel(req.body.level);
 
-    if (!languageId || !audioData || !targetText || !level) {
+    // Audio arrives either as a multipart "audio" file or as base64 in audioData
+    if (!languageId || (!req.file && !audioData) || !targetText || !req.body.level) {
       return res.status(400).json({
         success: false,
-        error: "Missing required parameters: languageId, audioData, targetText, level",
+        error: "Missing required parameters: languageId, audio (file or audioData), targetText, level",
       });
     }
+    if (!level) {
+      return res.status(400).json({ success: false, error: `level must be one of ${LEVEL_INPUT_HINT}` });
+    }
+    if (typeof targetText !== "string" || !targetText.trim() || targetText.length > MAX_TARGET_TEXT_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `targetText must be a non-empty string of at most ${MAX_TARGET_TEXT_LENGTH} characters`,
+      });
+    }
+
+    let audio: DecodedAudio;
+    try {
+      if (req.file) {
+        audio = decodeAudio(req.file.buffer, req.file.mimetype);
+      } else {
+        const { buffer, mimeType } = parseBase64Audio(audioData!);
+        audio = decodeAudio(buffer, mimeType);
+      }
+    } catch (e) {
+      if (e instanceof AudioValidationError) {
+        return res.status(e.statusCode).json({ success: false, error: e.message });
+      }
+      throw e;
+    }
 
     const language = await prisma.language.findUnique({ where: { id: languageId } });
     if (!language) {
       return res.status(404).json({ success: false, error: "Language not found" });
     }
 
-    let feedback: PronunciationFeedback;
+    let transcript: string;
+    try {
+      transcript = (await transcribeAudio(audio, { languageCode: language.code, expectedText: targetText })).text;
+    } catch (e) {
+      console.error("Speech-to-text failed:", e);
+      return res.status(502).json({ success: false, error: "Speech recognition failed. Please retry." });
+    }
+
+    const score = scorePronunciation(targetText, transcript, language.code);
+    const misheardSounds = (score.sounds || []).filter(s => s.correct < s.occurrences);
 
+    // The score is final at this point; the model only puts it into words
+    let coaching: PronunciationCoaching;
     try {
-      feedback = await callGeminiJSON<PronunciationFeedback>(
+      coaching = await generateValidatedJSON(
+        "pronunciation",
         `
 You are an expert pronunciation coach.
 
-We cannot transcribe audio here, so give practical pronunciation feedback based on the TARGET TEXT only.
-Target language: ${language.name}
-Student level: ${level}
+A ${language.name} learner at ${describeLevelForPrompt(level)} was asked to read a sentence aloud.
+Speech recognition heard something different wherever they mispronounced a word.
+
 TARGET TEXT: "${targetText}"
+HEARD: "${transcript}"
+Overall accuracy: ${Math.round(score.accuracy * 100)}%
+Word alignment:
+${score.words.map(w => `- expected "${w.expected ?? "-"}", heard "${w.heard ?? "-"}" (${w.status})`).join("\n")}
+Sounds most often misheard: ${misheardSounds.slice(0, 5).map(s => `/${s.sound}/ spelled "${s.spelling}"`).join(", ") || "none"}
+
+Do NOT re-score the attempt. Explain the result in encouraging, actionable words.
 
 Return ONLY JSON in this exact structure:
 {
-  "accuracy": 0.7,
   "feedback": "",
   "suggestions": ["", ""],
-  "phonemes": [{"sound":"","accuracy":0.7,"feedback":""}]
+  "phonemes": [{"sound":"","feedback":""}]
 }
 
 Rules:
-- accuracy must be between 0.0 and 1.0
 - suggestions: 2 to 4 items
-- phonemes: 2 to 5 key sounds or tricky parts from the phrase
-- Be encouraging and actionable.
+- phonemes: one tip for each misheard sound listed above, "sound" is its IPA symbol without slashes, empty if there are none
         `.trim(),
+        validatePronunciationCoaching,
         1800
       );
-
-      if (typeof feedback.accuracy !== "number" || feedback.accuracy < 0 || feedback.accuracy > 1) {
-        feedback.accuracy = 0.7;
-      }
-      if (typeof feedback.feedback !== "string") feedback.feedback = "Good attempt—keep practicing!";
-      if (!Array.isArray(feedback.suggestions)) feedback.suggestions = [];
-      if (!Array.isArray(feedback.phonemes)) feedback.phonemes = [];
     } catch (e) {
-      console.error("Pronunciation JSON generation failed:", e);
-      feedback = {
-        accuracy: 0.7,
-        feedback: `We received your pronunciation attempt for "${targetText}". Here are general tips to improve.`,
-        suggestions: [
-          "Speak slowly and clearly, then speed up gradually",
-          "Repeat the phrase 3 times focusing on vowel sounds",
-          "Record again in a quiet room with mic close to you",
-        ],
-        phonemes: [
-          {
-            sound: targetText.split(" ")[0] || targetText,
-            accuracy: 0.7,
-            feedback: "Focus on clear articulation.",
-          },
-        ],
+      console.warn("Pronunciation coaching unavailable, using generic feedback:", e);
+      coaching = {
+        feedback:
+          score.accuracy >= 0.9
+            ? "Great job! Your pronunciation was very clear."
+            : "Good attempt! Listen to the highlighted words and try again.",
+        suggestions: score.words
+          .filter(w => w.expected && w.status !== "correct")
+          .slice(0, 4)
+          .map(w => `Practise the word "${w.expected}"`),
+        phonemes: [],
       };
     }
 
-    await prisma.pronunciationFeedback.create({
+    const feedback = {
+      accuracy: score.accuracy,
+      wordAccuracy: score.wordAccuracy,
+      characterAccuracy: score.characterAccuracy,
+      transcript,
+      feedback: coaching.feedback,
+      suggestions: coaching.suggestions,
+      words: score.words,
+      // False when the language has no spelling rules; phonemes is then always empty
+      phonemesAvailable: score.sounds !== null,
+      phonemes: misheardSounds.map(s => ({
+        sound: s.sound,
+        spelling: s.spelling,
+        accuracy: s.accuracy,
+        feedback: coaching.phonemes.find(p => p.sound.replace(/\//g, "") === s.sound)?.feedback || "",
+      })),
+    };
+
+    const userId = req.user.id;
+    const attempt = await prisma.pronunciationFeedback.create({
       data: {
-        userId: (req as any).user.id,
+        userId,
+        languageId,
         sentence: targetText,
+        transcript,
         accuracy: feedback.accuracy,
+        wordAccuracy: feedback.wordAccuracy,
+        characterAccuracy: feedback.characterAccuracy,
         feedback: JSON.stringify(feedback),
+        sounds: {
+          create: (score.sounds || []).map(s => ({
+            userId,
+            languageId,
+            sound: s.sound,
+            spelling: s.spelling,
+            occurrences: s.occurrences,
+            correct: s.correct,
+          })),
+        },
       },
     });
 
-    return res.json({ success: true, feedback });
+    const xpAwarded = await recordActivity(userId, ActivityType.PRONUNCIATION_PRACTICE, {
+      sourceId: attempt.id,
+      languageId,
+    });
+
+    return res.json({ success: true, feedback, xpAwarded });
   } catch (error: any) {
     console.error("Error in getPronunciationFeedback:", error);
     return res.status(500).json({
@@ -553,13 +993,13 @@ Rules:
   }
 };
 
-export const getLessonContent = async (req: Request, res: Response) => {
+export const getLessonContent = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { lessonId } = req.params;
 
     const lesson = await prisma.lesson.findUnique({
       where: { id: lessonId },
-      include: { Quiz: true, language: true },
+      include: { Quiz: { orderBy: CURRENT_QUIZ_ORDER, take: 1 }, language: true },
     });
 
     if (!lesson) {
@@ -567,7 +1007,7 @@ export const getLessonContent = async (req: Request, res: Response) => {
     }
 
     const quiz = lesson.Quiz?.[0];
-    const quizQuestions = quiz && Array.isArray(quiz.questions) ? quiz.questions : [];
+    const quizQuestions = quiz ? stripAnswers(parseQuizQuestions(quiz.questions)) : [];
 
     return res.json({
       success: true,
@@ -589,6 +1029,7 @@ export const getLessonContent = async (req: Request, res: Response) => {
         quiz: {
           id: quiz?.id || "",
           lessonId: lesson.id,
+          version: quiz?.version ?? null,
           questions: quizQuestions,
         },
       },
@@ -1,10 +1,63 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import { sendMail } from '../services/mail.service';
+import { generateToken, hashToken } from '../services/token.service';
+import {
+    createSession,
+    rotateRefreshToken,
+    revokeSession,
+    revokeAllSessions
+} from '../services/session.service';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
 
 const prisma = new PrismaClient();
 
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10);
+const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10);
+const VERIFICATION_RESEND_COOLDOWN_SECONDS = parseInt(process.env.VERIFICATION_RESEND_COOLDOWN_SECONDS || '60', 10);
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+// Device details stored with a session so users can recognise it in their session list
+const deviceFromRequest = (req: Request) => ({
+    deviceName: typeof req.body?.deviceName === 'string' ? req.body.deviceName.slice(0, 100) : null,
+    userAgent: req.headers['user-agent'] || null,
+    ipAddress: req.ip || null
+});
+
+// Issue a fresh verification token (superseding older ones) and email the link
+const sendVerificationEmail = async (user: { id: string; email: string; fullName: string }) => {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+
+    await prisma.$transaction([
+        prisma.emailVerificationToken.updateMany({
+            where: { userId: user.id, usedAt: null },
+            data: { usedAt: new Date() }
+        }),
+        prisma.emailVerificationToken.create({
+            data: {
+                userId: user.id,
+                tokenHash: hashToken(token),
+                expiresAt
+            }
+        })
+    ]);
+
+    await sendMail({
+        to: user.email,
+        subject: 'Verify your LangoSpark email',
+        text: [
+            `Hi ${user.fullName},`,
+            '',
+            'Please confirm your email address by opening the link below:',
+            `${APP_URL}/verify-email?token=${token}`,
+            '',
+            `This link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.`
+        ].join('\n')
+    });
+};
+
 // Signup Controller
 export const signup = async (req: Request, res: Response): Promise<any> => {
     try {
@@ -42,20 +95,24 @@ export const signup = async (req: Request, res: Response): Promise<any> => {
             }
         });
 
-        const token = jwt.sign(
-            { userId: user.id },
-            process.env.JWT_SECRET || 'your-secret-key',
-            { expiresIn: '24h' }
-        );
+        const { token, refreshToken } = await createSession(user, deviceFromRequest(req));
 
-        const { password: _, ...userWithoutPassword } = user;
+        // The account is usable right away; a failed email can be retried via resend-verification
+        try {
+            await sendVerificationEmail(user);
+        } catch (mailError) {
+            console.error('Error sending verification email:', mailError);
+        }
+
+        const { password: _, tokenVersion: __, deactivatedAt: ___, ...userWithoutPassword } = user;
 
         return res.status(201).json({
             success: true,
             message: 'User registered successfully',
             data: {
                 user: userWithoutPassword,
-                token
+                token,
+                refreshToken
             }
         });
 
@@ -100,22 +157,26 @@ export const login = async (req: Request, res: Response): Promise<any> => {
             });
         }
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { userId: user.id },
-            process.env.JWT_SECRET || 'your-secret-key',
-            { expiresIn: '24h' }
-        );
+        if (user.deactivatedAt) {
+            return res.status(403).json({
+                success: false,
+                message: 'This account has been deactivated'
+            });
+        }
+
+        // Start a session for this device: short-lived access token plus rotating refresh token
+        const { token, refreshToken } = await createSession(user, deviceFromRequest(req));
 
         // Remove password from response
-        const { password: _, ...userWithoutPassword } = user;
+        const { password: _, tokenVersion: __, deactivatedAt: ___, ...userWithoutPassword } = user;
 
         return res.status(200).json({
             success: true,
             message: 'Login successful',
             data: {
                 user: userWithoutPassword,
-                token
+                token,
+                refreshToken
             }
         });
 
@@ -129,7 +190,7 @@ export const login = async (req: Request, res: Response): Promise<any> => {
 };
 
 // Get Profile Controller
-export const getProfile = async (req: Request, res: Response): Promise<any> => {
+export const getProfile = async (req: AuthenticatedRequest, res: Response): Promise<any> => {
     try {
         return res.json({
             success: true,
@@ -147,7 +208,7 @@ export const getProfile = async (req: Request, res: Response): Promise<any> => {
 };
 
 // Update Profile Controller
-export const updateProfile = async (req: Request, res: Response): Promise<any> => {
+export const updateProfile = async (req: AuthenticatedRequest, res: Response): Promise<any> => {
     try {
         const { fullName } = req.body;
         const userId = req.user.id;
@@ -159,6 +220,8 @@ export const updateProfile = async (req: Request, res: Response): Promise<any> =
                 id: true,
                 email: true,
                 fullName: true,
+                role: true,
+                emailVerified: true,
                 createdAt: true,
                 updatedAt: true
             }
@@ -181,7 +244,7 @@ export const updateProfile = async (req: Request, res: Response): Promise<any> =
 };
 
 // Change Password Controller
-export const changePassword = async (req: Request, res: Response): Promise<any> => {
+export const changePassword = async (req: AuthenticatedRequest, res: Response): Promise<any> => {
     try {
         const { currentPassword, newPassword } = req.body;
         const userId = req.user.id;
@@ -211,15 +274,26 @@ export const changePassword = async (req: Request, res: Response): Promise<any>
         const salt = await bcrypt.genSalt(10);
         const hashedPassword = await bcrypt.hash(newPassword, salt);
 
-        // Update password
-        await prisma.user.update({
+        // Update password and invalidate every previously issued token
+        const updatedUser = await prisma.user.update({
             where: { id: userId },
-            data: { password: hashedPassword }
+            data: {
+                password: hashedPassword,
+                tokenVersion: { increment: 1 }
+            }
         });
 
+        // Log out all other devices; this one gets a fresh session
+        await revokeAllSessions(userId);
+        const { token, refreshToken } = await createSession(updatedUser, deviceFromRequest(req));
+
         return res.json({
             success: true,
-            message: 'Password changed successfully'
+            message: 'Password changed successfully',
+            data: {
+                token,
+                refreshToken
+            }
         });
     } catch (error) {
         console.error('Password change error:', error);
@@ -229,3 +303,399 @@ export const changePassword = async (req: Request, res: Response): Promise<any>
         });
     }
 };
+
+// Forgot Password Controller
+export const forgotPassword = async (req: Request, res: Response): Promise<any> => {
+    try {
+        const { email } = req.body;
+
+        if (!email || typeof email !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Please provide an email'
+            });
+        }
+
+        // Same response whether or not the account exists, to avoid leaking registered emails
+        const genericResponse = {
+            success: true,
+            message: 'If an account with that email exists, a password reset link has been sent'
+        };
+
+        const user = await prisma.user.findUnique({
+            where: { email: email.trim() }
+        });
+
+        if (!user) {
+            return res.json(genericResponse);
+        }
+
+        const token = generateToken();
+        const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+        // Only the latest link should work
+        await prisma.$transaction([
+            prisma.passwordResetToken.updateMany({
+                where: { userId: user.id, usedAt: null },
+                data: { usedAt: new Date() }
+            }),
+            prisma.passwordResetToken.create({
+                data: {
+                    userId: user.id,
+                    tokenHash: hashToken(token),
+                    expiresAt
+                }
+            })
+        ]);
+
+        await sendMail({
+            to: user.email,
+            subject: 'Reset your LangoSpark password',
+            text: [
+                `Hi ${user.fullName},`,
+                '',
+                'We received a request to reset your password. Use the link below to choose a new one:',
+                `${APP_URL}/reset-password?token=${token}`,
+                '',
+                `This link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.`,
+                'If you did not request a password reset, you can ignore this email.'
+            ].join('\n')
+        });
+
+        return res.json(genericResponse);
+    } catch (error) {
+        console.error('Forgot password error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Error processing password reset request'
+        });
+    }
+};
+
+// Reset Password Controller
+export const resetPassword = async (req: Request, res: Response): Promise<any> => {
+    try {
+        const { token, newPassword } = req.body;
+
+        if (!token || typeof token !== 'string' || !newPassword) {
+            return res.status(400).json({
+                success: false,
+                message: 'Please provide token and newPassword'
+            });
+        }
+
+        const resetToken = await prisma.passwordResetToken.findUnique({
+            where: { tokenHash: hashToken(token) }
+        });
+
+        if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid or expired reset token'
+            });
+        }
+
+        const salt = await bcrypt.genSalt(10);
+        const hashedPassword = await bcrypt.hash(newPassword, salt);
+
+        // Mark the token used and bump tokenVersion so all existing sessions are logged out
+        const claimed = await prisma.$transaction(async (tx) => {
+            const { count } = await tx.passwordResetToken.updateMany({
+                where: { id: resetToken.id, usedAt: null },
+                data: { usedAt: new Date() }
+            });
+
+            // Lost a race with a concurrent reset using the same token
+            if (count === 0) return false;
+
+            await tx.user.update({
+                where: { id: resetToken.userId },
+                data: {
+                    password: hashedPassword,
+                    tokenVersion: { increment: 1 }
+                }
+            });
+
+            return true;
+        });
+
+        if (!claimed) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid or expired reset token'
+            });
+        }
+
+        await revokeAllSessions(resetToken.userId);
+
+        return res.json({
+            success: true,
+            message: 'Password has been reset. Please log in with your new password'
+        });
+    } catch (error) {
+        console.error('Reset password error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Error resetting password'
+        });
+    }
+};
+
+// Verify Email Controller
+export const verifyEmail = async (req: Request, res: Response): Promise<any> => {
+    try {
+        const { token } = req.body;
+
+        if (!token || typeof token !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Please provide a verification token'
+            });
+        }
+
+        const verificationToken = await prisma.emailVerificationToken.findUnique({
+            where: { tokenHash: hashToken(token) }
+        });
+
+        if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt < new Date()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid or expired verification token'
+            });
+        }
+
+        const now = new Date();
+        await prisma.$transaction([
+            prisma.emailVerificationToken.update({
+                where: { id: verificationToken.id },
+                data: { usedAt: now }
+            }),
+            prisma.user.update({
+                where: { id: verificationToken.userId },
+                data: {
+                    emailVerified: true,
+                    emailVerifiedAt: now
+                }
+            })
+        ]);
+
+        return res.json({
+            success: true,
+            message: 'Email verified successfully'
+        });
+    } catch (error) {
+        console.error('Verify email error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Error verifying email'
+        });
+    }
+};
+
+// Resend Verification Controller
+export const resendVerification = async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+        const userId = req.user.id;
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId }
+        });
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        if (user.emailVerified) {
+            return res.status(400).json({
+                success: false,
+                message: 'Email is already verified'
+            });
+        }
+
+        const lastToken = await prisma.emailVerificationToken.findFirst({
+            where: { userId },
+            orderBy: { createdAt: 'desc' }
+        });
+
+        if (lastToken) {
+            const elapsedSeconds = (Date.now() - lastToken.createdAt.getTime()) / 1000;
+            if (elapsedSeconds < VERIFICATION_RESEND_COOLDOWN_SECONDS) {
+                const retryAfter = Math.ceil(VERIFICATION_RESEND_COOLDOWN_SECONDS - elapsedSeconds);
+                res.setHeader('Retry-After', retryAfter.toString());
+                return res.status(429).json({
+                    success: false,
+                    message: `Please wait ${retryAfter} seconds before requesting another verification email`
+                });
+            }
+        }
+
+        await sendVerificationEmail(user);
+
+        return res.json({
+            success: true,
+            message: 'Verification email sent'
+        });
+    } catch (error) {
+        console.error('Resend verification error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Error sending verification email'
+        });
+    }
+};
+
+// Refresh Token Controller
+export const refresh = async (req: Request, res: Response): Promise<any> => {
+    try {
+        const { refreshToken } = req.body;
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Please provide a refresh token'
+            });
+        }
+
+        const result = await rotateRefreshToken(refreshToken);
+
+        if (result.status === 'reused') {
+            return res.status(401).json({
+                success: false,
+                message: 'Refresh token reuse detected, the session has been revoked. Please log in again'
+            });
+        }
+
+        if (result.status === 'invalid') {
+            return res.status(401).json({
+                success: false,
+                message: 'Invalid or expired refresh token'
+            });
+        }
+
+        return res.json({
+            success: true,
+            data: {
+                token: result.tokens.token,
+                refreshToken: result.tokens.refreshToken
+            }
+        });
+    } catch (error) {
+        console.error('Refresh token error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Error refreshing token'
+        });
+    }
+};
+
+// Logout Controller
+export const logout = async (req: Request, res: Response): Promise<any> => {
+    try {
+        if (req.sessionId) {
+            await revokeSession(req.sessionId);
+        }
+
+        return res.json({
+            success: true,
+            message: 'Logged out successfully'
+        });
+    } catch (error) {
+        console.error('Logout error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Error logging out'
+        });
+    }
+};
+
+// List Sessions Controller
+export const getSessions = async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+        const sessions = await prisma.session.findMany({
+            where: {
+                userId: req.user.id,
+                revokedAt: null,
+                expiresAt: { gt: new Date() }
+            },
+            orderBy: { lastUsedAt: 'desc' },
+            select: {
+                id: true,
+                deviceName: true,
+                userAgent: true,
+                ipAddress: true,
+                createdAt: true,
+                lastUsedAt: true,
+                expiresAt: true
+            }
+        });
+
+        return res.json({
+            success: true,
+            data: {
+                sessions: sessions.map(session => ({
+                    ...session,
+                    current: session.id === req.sessionId
+                }))
+            }
+        });
+    } catch (error) {
+        console.error('Get sessions error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Error fetching sessions'
+        });
+    }
+};
+
+// Revoke Session Controller
+export const deleteSession = async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+        const { sessionId } = req.params;
+
+        const session = await prisma.session.findFirst({
+            where: { id: sessionId, userId: req.user.id }
+        });
+
+        if (!session) {
+            return res.status(404).json({
+                success: false,
+                message: 'Session not found'
+            });
+        }
+
+        await revokeSession(session.id);
+
+        return res.json({
+            success: true,
+            message: 'Session revoked'
+        });
+    } catch (error) {
+        console.error('Revoke session error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Error revoking session'
+        });
+    }
+};
+
+// Revoke All Sessions Controller
+export const deleteAllSessions = async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+        const revoked = await revokeAllSessions(req.user.id);
+
+        return res.json({
+            success: true,
+            message: 'All sessions revoked',
+            data: { revoked }
+        });
+    } catch (error) {
+        console.error('Revoke all sessions error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Error revoking sessions'
+        });
+    }
+};
@@ -0,0 +1,552 @@
+import { Response } from 'express';
+import { PrismaClient, Level, ConversationStatus, GrammarErrorCategory } from '@prisma/client';
+import {
+    replyToLearner,
+    loadRecentHistory,
+    parsePracticeTranscript
+} from '../services/conversation.service';
+import { generateValidatedJSON, LLMValidationError } from '../services/llm/llm.service';
+import { validateConversationSummary, ConversationSummary } from '../services/llm/llm.schemas';
+import { DAY_MS, weekStartKey, parseDaysParam } from '../utils/dates';
+import { parseLevel, describeLevelForPrompt, LEVEL_INPUT_HINT } from '../utils/levels';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const prisma = new PrismaClient();
+
+interface TypedRequestBody<T> extends AuthenticatedRequest {
+    body: T;
+}
+
+interface StartConversationBody {
+    languageId?: string;
+    practiceId?: string;
+    // A1-C2; BEGINNER, INTERMEDIATE and ADVANCED are still accepted
+    level?: string;
+    scenario?: string;
+}
+
+interface SendMessageBody {
+    message: string;
+}
+
+// Exchanges returned with a resumed session so the client can redraw the recent chat
+const RESUME_HISTORY_LIMIT = 20;
+
+// The summary is generated from at most this many of the latest exchanges
+const SUMMARY_EXCHANGE_LIMIT = 50;
+
+// The model could not produce valid output even after repair retries; nothing is persisted
+const sendGenerationFailure = (res: Response, what: string, error: LLMValidationError): void => {
+    res.status(502).json({
+        success: false,
+        status: 'generation_failed',
+        message: `${what} generation failed: the AI returned invalid output. Please retry.`,
+        errors: error.errors
+    });
+};
+
+const findOwnSession = (sessionId: string, userId: string) =>
+    prisma.conversationSession.findFirst({
+        where: { id: sessionId, userId },
+        include: {
+            language: { select: { id: true, name: true, code: true } },
+            practice: { select: { transcript: true } }
+        }
+    });
+
+const toSessionSummary = (session: {
+    id: string;
+    languageId: string;
+    practiceId: string | null;
+    level: Level;
+    scenario: string | null;
+    status: ConversationStatus;
+    createdAt: Date;
+    updatedAt: Date;
+    endedAt: Date | null;
+}) => ({
+    id: session.id,
+    languageId: session.languageId,
+    practiceId: session.practiceId,
+    level: session.level,
+    scenario: session.scenario,
+    status: session.status,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    endedAt: session.endedAt
+});
+
+/**
+ * Start a conversation session, optionally seeded from a generated ConversationPractice
+ */
+export const startConversation = async (req: TypedRequestBody<StartConversationBody>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { practiceId, scenario } = req.body;
+        let { languageId } = req.body;
+        let levelInput = req.body.level;
+        let scenarioText = scenario;
+
+        if (practiceId) {
+            const practice = await prisma.conversationPractice.findFirst({
+                where: { id: practiceId, userId }
+            });
+
+            if (!practice) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Conversation practice not found'
+                });
+                return;
+            }
+
+            const seeded = parsePracticeTranscript(practice.transcript);
+            if (languageId && seeded.languageId && languageId !== seeded.languageId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'languageId does not match the conversation practice'
+                });
+                return;
+            }
+
+            languageId = languageId || seeded.languageId;
+            // Practices generated before CEFR levels carry a legacy level, which parseLevel maps
+            levelInput = levelInput || seeded.level;
+            scenarioText = scenarioText || seeded.scenario;
+        }
+
+        if (!languageId) {
+            res.status(400).json({
+                success: false,
+                message: 'languageId or practiceId is required'
+            });
+            return;
+        }
+
+        const level = levelInput ? parseLevel(levelInput) : Level.A1;
+        if (!level) {
+            res.status(400).json({
+                success: false,
+                message: `level must be one of ${LEVEL_INPUT_HINT}`
+            });
+            return;
+        }
+
+        const language = await prisma.language.findUnique({ where: { id: languageId } });
+        if (!language) {
+            res.status(404).json({
+                success: false,
+                message: 'Language not found'
+            });
+            return;
+        }
+
+        const session = await prisma.conversationSession.create({
+            data: {
+                userId,
+                languageId,
+                practiceId: practiceId || null,
+                level,
+                scenario: scenarioText || null
+            }
+        });
+
+        res.status(201).json({
+            success: true,
+            data: toSessionSummary(session)
+        });
+    } catch (error) {
+        console.error('Start conversation error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error starting conversation'
+        });
+    }
+};
+
+/**
+ * List the user's conversation sessions, most recently active first
+ */
+export const listConversations = async (
+    req: TypedRequestBody<{}> & { query: { languageId?: string; status?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { languageId } = req.query;
+        const status = req.query.status?.toUpperCase();
+
+        if (status && !Object.values(ConversationStatus).includes(status as ConversationStatus)) {
+            res.status(400).json({
+                success: false,
+                message: `status must be one of ${Object.values(ConversationStatus).join(', ')}`
+            });
+            return;
+        }
+
+        const sessions = await prisma.conversationSession.findMany({
+            where: {
+                userId,
+                ...(languageId && { languageId }),
+                ...(status && { status: status as ConversationStatus })
+            },
+            orderBy: { updatedAt: 'desc' },
+            include: {
+                language: { select: { name: true, code: true } },
+                _count: { select: { exchanges: true } }
+            }
+        });
+
+        res.json({
+            success: true,
+            data: sessions.map(session => ({
+                ...toSessionSummary(session),
+                language: session.language,
+                exchangeCount: session._count.exchanges
+            }))
+        });
+    } catch (error) {
+        console.error('List conversations error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching conversations'
+        });
+    }
+};
+
+/**
+ * Get the full transcript of a conversation session
+ */
+export const getConversation = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { sessionId } = req.params;
+
+        const session = await findOwnSession(sessionId, userId);
+        if (!session) {
+            res.status(404).json({
+                success: false,
+                message: 'Conversation session not found'
+            });
+            return;
+        }
+
+        const exchanges = await prisma.conversationExchange.findMany({
+            where: { sessionId },
+            orderBy: { createdAt: 'asc' },
+            select: {
+                id: true,
+                userMessage: true,
+                aiResponse: true,
+                createdAt: true,
+                corrections: {
+                    select: { original: true, corrected: true, category: true, explanation: true }
+                }
+            }
+        });
+
+        res.json({
+            success: true,
+            data: {
+                ...toSessionSummary(session),
+                language: session.language,
+                summary: session.summary,
+                exchanges
+            }
+        });
+    } catch (error) {
+        console.error('Get conversation error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching conversation'
+        });
+    }
+};
+
+/**
+ * Send a learner message; the tutor sees a bounded window of the previous exchanges
+ */
+export const sendConversationMessage = async (req: TypedRequestBody<SendMessageBody>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { sessionId } = req.params;
+        const { message } = req.body;
+
+        if (!message || typeof message !== 'string' || !message.trim()) {
+            res.status(400).json({
+                success: false,
+                message: 'Missing or invalid message'
+            });
+            return;
+        }
+
+        const session = await findOwnSession(sessionId, userId);
+        if (!session) {
+            res.status(404).json({
+                success: false,
+                message: 'Conversation session not found'
+            });
+            return;
+        }
+
+        if (session.status !== ConversationStatus.ACTIVE) {
+            res.status(409).json({
+                success: false,
+                message: 'Conversation session has ended. Resume it first.'
+            });
+            return;
+        }
+
+        let reply: Awaited<ReturnType<typeof replyToLearner>>;
+        try {
+            reply = await replyToLearner({
+                userId,
+                languageId: session.languageId,
+                sessionId: session.id,
+                message,
+                context: {
+                    languageName: session.language.name,
+                    level: session.level,
+                    scenario: session.scenario,
+                    scenarioContent: session.practice
+                        ? parsePracticeTranscript(session.practice.transcript).content
+                        : null
+                }
+            });
+        } catch (e) {
+            if (e instanceof LLMValidationError) {
+                sendGenerationFailure(res, 'Conversation reply', e);
+                return;
+            }
+            throw e;
+        }
+
+        res.json({
+            success: true,
+            data: {
+                sessionId: session.id,
+                exchangeId: reply.exchangeId,
+                response: reply.response,
+                corrections: reply.corrections
+            }
+        });
+    } catch (error) {
+        console.error('Send conversation message error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error generating conversation response'
+        });
+    }
+};
+
+/**
+ * Reopen a session and return its most recent exchanges
+ */
+export const resumeConversation = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { sessionId } = req.params;
+
+        const existing = await findOwnSession(sessionId, userId);
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Conversation session not found'
+            });
+            return;
+        }
+
+        const session = existing.status === ConversationStatus.ACTIVE
+            ? existing
+            : await prisma.conversationSession.update({
+                where: { id: sessionId },
+                data: { status: ConversationStatus.ACTIVE, endedAt: null }
+            });
+
+        res.json({
+            success: true,
+            data: {
+                ...toSessionSummary(session),
+                history: await loadRecentHistory(sessionId, RESUME_HISTORY_LIMIT)
+            }
+        });
+    } catch (error) {
+        console.error('Resume conversation error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error resuming conversation'
+        });
+    }
+};
+
+/**
+ * End a session and store an AI-generated summary of the learner's mistakes
+ */
+export const endConversation = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { sessionId } = req.params;
+
+        const session = await findOwnSession(sessionId, userId);
+        if (!session) {
+            res.status(404).json({
+                success: false,
+                message: 'Conversation session not found'
+            });
+            return;
+        }
+
+        if (session.status === ConversationStatus.ENDED) {
+            res.json({
+                success: true,
+                data: { ...toSessionSummary(session), summary: session.summary }
+            });
+            return;
+        }
+
+        const history = await loadRecentHistory(sessionId, SUMMARY_EXCHANGE_LIMIT);
+
+        let summary: ConversationSummary | null = null;
+        if (history.length) {
+            try {
+                summary = await generateValidatedJSON(
+                    'conversationSummary',
+                    `
+You are reviewing a ${session.language.name} practice conversation between a learner at ${describeLevelForPrompt(session.level)} and a tutor.
+${session.scenario ? `Scenario: ${session.scenario}` : ''}
+
+Conversation:
+${history.map(turn => `Learner: ${turn.userMessage}\nTutor: ${turn.aiResponse}`).join('\n')}
+
+Summarize how the learner did. List every mistake the learner made with the corrected sentence.
+
+Return ONLY JSON:
+{
+  "summary": "",
+  "mistakes": [{"original":"","correction":"","explanation":""}],
+  "strengths": [""],
+  "suggestions": [""]
+}
+                    `.trim(),
+                    validateConversationSummary,
+                    1500
+                );
+            } catch (e) {
+                if (e instanceof LLMValidationError) {
+                    sendGenerationFailure(res, 'Summary', e);
+                    return;
+                }
+                throw e;
+            }
+        }
+
+        const ended = await prisma.conversationSession.update({
+            where: { id: sessionId },
+            data: {
+                status: ConversationStatus.ENDED,
+                endedAt: new Date(),
+                ...(summary && { summary: summary as any })
+            }
+        });
+
+        res.json({
+            success: true,
+            data: { ...toSessionSummary(ended), summary: ended.summary }
+        });
+    } catch (error) {
+        console.error('End conversation error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error ending conversation'
+        });
+    }
+};
+
+const DEFAULT_STATS_DAYS = 90;
+const MAX_STATS_DAYS = 365;
+
+/**
+ * Most frequent grammar error categories per language, with a weekly breakdown
+ */
+export const getErrorCategoryStats = async (
+    req: TypedRequestBody<{}> & { query: { languageId?: string; days?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { languageId } = req.query;
+        const days = parseDaysParam(req.query.days, DEFAULT_STATS_DAYS, MAX_STATS_DAYS);
+        const since = new Date(Date.now() - days * DAY_MS);
+
+        const corrections = await prisma.conversationCorrection.findMany({
+            where: {
+                userId,
+                createdAt: { gte: since },
+                ...(languageId && { languageId })
+            },
+            orderBy: { createdAt: 'asc' },
+            select: {
+                category: true,
+                createdAt: true,
+                language: { select: { id: true, name: true, code: true } }
+            }
+        });
+
+        const byLanguage = new Map<string, {
+            language: { id: string; name: string; code: string };
+            totals: Map<GrammarErrorCategory, number>;
+            weeks: Map<string, Map<GrammarErrorCategory, number>>;
+        }>();
+
+        for (const correction of corrections) {
+            let entry = byLanguage.get(correction.language.id);
+            if (!entry) {
+                entry = { language: correction.language, totals: new Map(), weeks: new Map() };
+                byLanguage.set(correction.language.id, entry);
+            }
+
+            entry.totals.set(correction.category, (entry.totals.get(correction.category) || 0) + 1);
+
+            const week = weekStartKey(correction.createdAt);
+            const weekTotals = entry.weeks.get(week) || new Map<GrammarErrorCategory, number>();
+            weekTotals.set(correction.category, (weekTotals.get(correction.category) || 0) + 1);
+            entry.weeks.set(week, weekTotals);
+        }
+
+        const languages = Array.from(byLanguage.values()).map(({ language, totals, weeks }) => {
+            const totalCorrections = Array.from(totals.values()).reduce((sum, count) => sum + count, 0);
+
+            return {
+                language,
+                totalCorrections,
+                categories: Array.from(totals.entries())
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([category, count]) => ({
+                        category,
+                        count,
+                        share: Math.round((count / totalCorrections) * 100)
+                    })),
+                weekly: Array.from(weeks.entries()).map(([week, counts]) => ({
+                    weekStart: week,
+                    total: Array.from(counts.values()).reduce((sum, count) => sum + count, 0),
+                    categories: Object.fromEntries(counts)
+                }))
+            };
+        });
+
+        res.json({
+            success: true,
+            data: {
+                days,
+                since,
+                languages: languages.sort((a, b) => b.totalCorrections - a.totalCorrections)
+            }
+        });
+    } catch (error) {
+        console.error('Get error category stats error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching grammar error statistics'
+        });
+    }
+};
@@ -0,0 +1,586 @@
+import { Response } from 'express';
+import { PrismaClient, Level } from '@prisma/client';
+import {
+    loadCoursePaths,
+    findNextLesson,
+    LESSON_ORDER
+} from '../services/curriculum.service';
+import { LEVEL_ORDER, LEVEL_INPUT_HINT, isLevelInRange, parseLevel } from '../utils/levels';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const prisma = new PrismaClient();
+
+interface TypedRequestBody<T> extends AuthenticatedRequest {
+    body: T;
+}
+
+interface CourseBody {
+    languageId?: string;
+    title?: string;
+    description?: string | null;
+    minLevel?: string; // CEFR level; legacy levels are mapped, see parseLevel
+    maxLevel?: string;
+    position?: number;
+}
+
+interface UnitBody {
+    title?: string;
+    description?: string | null;
+    position?: number;
+}
+
+interface UnitLessonsBody {
+    lessonIds: string[];
+}
+
+interface PrerequisitesBody {
+    prerequisiteIds: string[];
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Parse the level range of a course body against the course's current range.
+ * Legacy levels widen to their band: BEGINNER-INTERMEDIATE becomes A1-B2.
+ */
+const parseLevelRange = (
+    minInput: unknown,
+    maxInput: unknown,
+    current?: { minLevel: Level; maxLevel: Level }
+): { error: string } | { minLevel?: Level; maxLevel?: Level } => {
+    const minLevel = minInput === undefined ? undefined : parseLevel(minInput, 'min');
+    const maxLevel = maxInput === undefined ? undefined : parseLevel(maxInput, 'max');
+
+    if (minLevel === null) return { error: `minLevel must be one of ${LEVEL_INPUT_HINT}` };
+    if (maxLevel === null) return { error: `maxLevel must be one of ${LEVEL_INPUT_HINT}` };
+
+    const lower = minLevel ?? current?.minLevel;
+    const upper = maxLevel ?? current?.maxLevel;
+    if (lower && upper && LEVEL_ORDER.indexOf(lower) > LEVEL_ORDER.indexOf(upper)) {
+        return { error: 'minLevel must not be above maxLevel' };
+    }
+
+    return { minLevel, maxLevel };
+};
+
+/**
+ * List the courses of a language with the user's completion counts
+ */
+export const listCourses = async (
+    req: TypedRequestBody<{}> & { query: { languageId?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const { languageId } = req.query;
+        const courses = await loadCoursePaths(req.user.id, languageId ? { languageId } : {});
+
+        res.json({
+            success: true,
+            data: courses.map(({ units, ...course }) => ({
+                ...course,
+                unitCount: units.length
+            }))
+        });
+    } catch (error) {
+        console.error('List courses error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching courses'
+        });
+    }
+};
+
+/**
+ * Get a course as a learning path: units and ordered lessons with lock status
+ */
+export const getCourse = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const [course] = await loadCoursePaths(req.user.id, { id: req.params.courseId });
+
+        if (!course) {
+            res.status(404).json({
+                success: false,
+                message: 'Course not found'
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: course
+        });
+    } catch (error) {
+        console.error('Get course error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching course'
+        });
+    }
+};
+
+export const createCourse = async (req: TypedRequestBody<CourseBody>, res: Response): Promise<void> => {
+    try {
+        const { languageId, title, description, position } = req.body;
+
+        if (!languageId || !title) {
+            res.status(400).json({
+                success: false,
+                message: 'languageId and title are required'
+            });
+            return;
+        }
+
+        const range = parseLevelRange(req.body.minLevel, req.body.maxLevel);
+        if ('error' in range) {
+            res.status(400).json({ success: false, message: range.error });
+            return;
+        }
+
+        const language = await prisma.language.findUnique({ where: { id: languageId } });
+        if (!language) {
+            res.status(404).json({
+                success: false,
+                message: 'Language not found'
+            });
+            return;
+        }
+
+        const course = await prisma.course.create({
+            data: {
+                languageId,
+                title,
+                description: description ?? null,
+                ...(range.minLevel && { minLevel: range.minLevel }),
+                ...(range.maxLevel && { maxLevel: range.maxLevel }),
+                position: Number.isInteger(position)
+                    ? position!
+                    : await prisma.course.count({ where: { languageId } })
+            }
+        });
+
+        res.status(201).json({
+            success: true,
+            data: course
+        });
+    } catch (error) {
+        console.error('Create course error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error creating course'
+        });
+    }
+};
+
+export const updateCourse = async (req: TypedRequestBody<CourseBody>, res: Response): Promise<void> => {
+    try {
+        const { courseId } = req.params;
+        const { title, description, position } = req.body;
+
+        const existing = await prisma.course.findUnique({ where: { id: courseId } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Course not found'
+            });
+            return;
+        }
+
+        const range = parseLevelRange(req.body.minLevel, req.body.maxLevel, existing);
+        if ('error' in range) {
+            res.status(400).json({ success: false, message: range.error });
+            return;
+        }
+
+        const course = await prisma.course.update({
+            where: { id: courseId },
+            data: {
+                ...(title && { title }),
+                ...(description !== undefined && { description }),
+                ...(range.minLevel && { minLevel: range.minLevel }),
+                ...(range.maxLevel && { maxLevel: range.maxLevel }),
+                ...(Number.isInteger(position) && { position })
+            }
+        });
+
+        res.json({
+            success: true,
+            data: course
+        });
+    } catch (error) {
+        console.error('Update course error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating course'
+        });
+    }
+};
+
+/**
+ * Delete a course and its units. Lessons are kept but leave the curriculum.
+ */
+export const deleteCourse = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { courseId } = req.params;
+
+        const existing = await prisma.course.findUnique({ where: { id: courseId } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Course not found'
+            });
+            return;
+        }
+
+        await prisma.$transaction([
+            prisma.lesson.updateMany({
+                where: { unit: { courseId } },
+                data: { unitId: null, position: null }
+            }),
+            prisma.course.delete({ where: { id: courseId } })
+        ]);
+
+        res.json({
+            success: true,
+            message: 'Course deleted successfully'
+        });
+    } catch (error) {
+        console.error('Delete course error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error deleting course'
+        });
+    }
+};
+
+export const createUnit = async (req: TypedRequestBody<UnitBody>, res: Response): Promise<void> => {
+    try {
+        const { courseId } = req.params;
+        const { title, description, position } = req.body;
+
+        if (!title) {
+            res.status(400).json({
+                success: false,
+                message: 'title is required'
+            });
+            return;
+        }
+
+        const course = await prisma.course.findUnique({ where: { id: courseId } });
+        if (!course) {
+            res.status(404).json({
+                success: false,
+                message: 'Course not found'
+            });
+            return;
+        }
+
+        const unit = await prisma.unit.create({
+            data: {
+                courseId,
+                title,
+                description: description ?? null,
+                position: Number.isInteger(position)
+                    ? position!
+                    : await prisma.unit.count({ where: { courseId } })
+            }
+        });
+
+        res.status(201).json({
+            success: true,
+            data: unit
+        });
+    } catch (error) {
+        console.error('Create unit error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error creating unit'
+        });
+    }
+};
+
+export const updateUnit = async (req: TypedRequestBody<UnitBody>, res: Response): Promise<void> => {
+    try {
+        const { unitId } = req.params;
+        const { title, description, position } = req.body;
+
+        const existing = await prisma.unit.findUnique({ where: { id: unitId } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Unit not found'
+            });
+            return;
+        }
+
+        const unit = await prisma.unit.update({
+            where: { id: unitId },
+            data: {
+                ...(title && { title }),
+                ...(description !== undefined && { description }),
+                ...(Number.isInteger(position) && { position })
+            }
+        });
+
+        res.json({
+            success: true,
+            data: unit
+        });
+    } catch (error) {
+        console.error('Update unit error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating unit'
+        });
+    }
+};
+
+export const deleteUnit = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { unitId } = req.params;
+
+        const existing = await prisma.unit.findUnique({ where: { id: unitId } });
+        if (!existing) {
+            res.status(404).json({
+                success: false,
+                message: 'Unit not found'
+            });
+            return;
+        }
+
+        await prisma.$transaction([
+            prisma.lesson.updateMany({
+                where: { unitId },
+                data: { unitId: null, position: null }
+            }),
+            prisma.unit.delete({ where: { id: unitId } })
+        ]);
+
+        res.json({
+            success: true,
+            message: 'Unit deleted successfully'
+        });
+    } catch (error) {
+        console.error('Delete unit error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error deleting unit'
+        });
+    }
+};
+
+/**
+ * Replace the ordered lesson list of a unit. Lessons dropped from the list leave
+ * the curriculum; lessons taken from another unit move here.
+ */
+export const setUnitLessons = async (req: TypedRequestBody<UnitLessonsBody>, res: Response): Promise<void> => {
+    try {
+        const { unitId } = req.params;
+        const { lessonIds } = req.body;
+
+        if (!isStringArray(lessonIds) || new Set(lessonIds).size !== lessonIds.length) {
+            res.status(400).json({
+                success: false,
+                message: 'lessonIds must be an array of unique lesson ids'
+            });
+            return;
+        }
+
+        const unit = await prisma.unit.findUnique({
+            where: { id: unitId },
+            include: { course: true }
+        });
+        if (!unit) {
+            res.status(404).json({
+                success: false,
+                message: 'Unit not found'
+            });
+            return;
+        }
+
+        const lessons = await prisma.lesson.findMany({
+            where: { id: { in: lessonIds } },
+            select: { id: true, title: true, languageId: true, level: true }
+        });
+
+        if (lessons.length !== lessonIds.length) {
+            res.status(404).json({
+                success: false,
+                message: 'One or more lessons not found'
+            });
+            return;
+        }
+
+        const invalid = lessons.find(lesson =>
+            lesson.languageId !== unit.course.languageId ||
+            !isLevelInRange(lesson.level, unit.course.minLevel, unit.course.maxLevel)
+        );
+        if (invalid) {
+            res.status(400).json({
+                success: false,
+                message: `Lesson "${invalid.title}" does not match the course language or level range`
+            });
+            return;
+        }
+
+        await prisma.$transaction([
+            prisma.lesson.updateMany({
+                where: { unitId, id: { notIn: lessonIds } },
+                data: { unitId: null, position: null }
+            }),
+            ...lessonIds.map((id, position) =>
+                prisma.lesson.update({ where: { id }, data: { unitId, position } })
+            )
+        ]);
+
+        const ordered = await prisma.lesson.findMany({
+            where: { unitId },
+            orderBy: LESSON_ORDER,
+            select: { id: true, title: true, level: true, position: true }
+        });
+
+        res.json({
+            success: true,
+            data: { unitId, lessons: ordered }
+        });
+    } catch (error) {
+        console.error('Set unit lessons error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating unit lessons'
+        });
+    }
+};
+
+/**
+ * Replace the explicit prerequisites of a lesson. Cycles are rejected.
+ */
+export const setLessonPrerequisites = async (req: TypedRequestBody<PrerequisitesBody>, res: Response): Promise<void> => {
+    try {
+        const { lessonId } = req.params;
+        const { prerequisiteIds } = req.body;
+
+        if (!isStringArray(prerequisiteIds) || prerequisiteIds.includes(lessonId)) {
+            res.status(400).json({
+                success: false,
+                message: 'prerequisiteIds must be an array of other lesson ids'
+            });
+            return;
+        }
+
+        const lesson = await prisma.lesson.findUnique({ where: { id: lessonId } });
+        if (!lesson) {
+            res.status(404).json({
+                success: false,
+                message: 'Lesson not found'
+            });
+            return;
+        }
+
+        // Prerequisite graph of the whole language, to look for cycles
+        const languageLessons = await prisma.lesson.findMany({
+            where: { languageId: lesson.languageId },
+            select: { id: true, prerequisites: { select: { id: true } } }
+        });
+        const graph = new Map(languageLessons.map(l => [l.id, l.prerequisites.map(p => p.id)]));
+
+        if (prerequisiteIds.some(id => !graph.has(id))) {
+            res.status(400).json({
+                success: false,
+                message: 'Prerequisites must be existing lessons of the same language'
+            });
+            return;
+        }
+
+        graph.set(lessonId, prerequisiteIds);
+
+        const dependsOnLesson = (start: string): boolean => {
+            const stack = [start];
+            const seen = new Set<string>();
+            while (stack.length) {
+                const current = stack.pop()!;
+                if (current === lessonId) return true;
+                if (seen.has(current)) continue;
+                seen.add(current);
+                stack.push(...(graph.get(current) || []));
+            }
+            return false;
+        };
+
+        if (prerequisiteIds.some(dependsOnLesson)) {
+            res.status(400).json({
+                success: false,
+                message: 'Prerequisites would create a cycle'
+            });
+            return;
+        }
+
+        const updated = await prisma.lesson.update({
+            where: { id: lessonId },
+            data: { prerequisites: { set: prerequisiteIds.map(id => ({ id })) } },
+            select: { id: true, prerequisites: { select: { id: true, title: true } } }
+        });
+
+        res.json({
+            success: true,
+            data: updated
+        });
+    } catch (error) {
+        console.error('Set lesson prerequisites error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating lesson prerequisites'
+        });
+    }
+};
+
+/**
+ * Get the next lesson the user should take in a language
+ */
+export const getNextLesson = async (
+    req: TypedRequestBody<{}> & { query: { languageId?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { languageId } = req.query;
+
+        if (!languageId) {
+            res.status(400).json({
+                success: false,
+                message: 'languageId is required'
+            });
+            return;
+        }
+
+        const userLanguage = await prisma.userLanguage.findUnique({
+            where: { userId_languageId: { userId, languageId } }
+        });
+
+        const next = await findNextLesson(userId, languageId, userLanguage?.level);
+
+        if (!next) {
+            res.json({
+                success: true,
+                message: 'No open lessons left in this language\'s curriculum',
+                data: null
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: {
+                course: { id: next.course.id, title: next.course.title },
+                unit: { id: next.unit.id, title: next.unit.title },
+                lesson: next.lesson
+            }
+        });
+    } catch (error) {
+        console.error('Get next lesson error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching next lesson'
+        });
+    }
+};
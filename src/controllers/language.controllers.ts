@@ -1,30 +1,34 @@
 import { Request, Response } from 'express';
 import { PrismaClient, Level } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { normalizeLanguageCode } from '../services/language-catalog.service';
+import { parseLevel, LEVEL_INPUT_HINT } from '../utils/levels';
 
 const prisma = new PrismaClient();
 
-interface TypedRequestBody<T> extends Request {
+interface TypedRequestBody<T> extends AuthenticatedRequest {
     body: T;
-    user: {
-        id: string;
-    };
 }
 
 interface AddLanguageBody {
-    name: string;
-    code: string;
-    level?: Level;
+    languageId?: string;
+    code?: string;
+    // A1-C2; BEGINNER, INTERMEDIATE and ADVANCED are still accepted
+    level?: string;
 }
 
 interface UpdateLevelBody {
     languageId: string;
-    level: Level;
+    level: string;
 }
 
-// Get all available languages
+// Get all available languages (the enabled part of the catalog)
 export const getAllLanguages = async (_req: Request, res: Response): Promise<void> => {
     try {
-        const languages = await prisma.language.findMany();
+        const languages = await prisma.language.findMany({
+            where: { enabled: true },
+            orderBy: { name: 'asc' }
+        });
         res.json({
             success: true,
             data: languages
@@ -74,21 +78,48 @@ export const addUserLanguage = async (
     res: Response
 ): Promise<void> => {
     try {
-        const { name, code, level } = req.body;
+        const { languageId, code } = req.body;
         const userId = req.user.id;
 
-        // First, create or find the language
-        let language = await prisma.language.findUnique({
-            where: { code }
-        });
+        if (!languageId && !code) {
+            res.status(400).json({
+                success: false,
+                message: 'languageId or code is required'
+            });
+            return;
+        }
+
+        const level = req.body.level ? parseLevel(req.body.level) : Level.A1;
+        if (!level) {
+            res.status(400).json({
+                success: false,
+                message: `level must be one of ${LEVEL_INPUT_HINT}`
+            });
+            return;
+        }
+
+        // Only catalog languages can be learned; codes are matched in canonical form ("PT_br" -> "pt-BR")
+        const normalizedCode = code ? normalizeLanguageCode(code) : null;
+        const language = languageId
+            ? await prisma.language.findUnique({ where: { id: languageId } })
+            : normalizedCode
+                ? await prisma.language.findUnique({ where: { code: normalizedCode } })
+                : null;
 
         if (!language) {
-            language = await prisma.language.create({
-                data: {
-                    name,
-                    code
-                }
+            res.status(404).json({
+                success: false,
+                message: 'Language not found in the catalog'
             });
+            return;
+        }
+
+        if (!language.enabled) {
+            res.status(400).json({
+                success: false,
+                message: 'This language is not currently available'
+            });
+            return;
         }
 
         // Check if user already has this language
@@ -114,7 +145,7 @@ export const addUserLanguage = async (
             data: {
                 userId,
                 languageId: language.id,
-                level: level || 'BEGINNER'
+                level
             },
             include: {
                 language: true
@@ -166,9 +197,18 @@ export const updateLanguageLevel = async (
     res: Response
 ): Promise<void> => {
     try {
-        const { languageId, level } = req.body;
+        const { languageId } = req.body;
+        const level = parseLevel(req.body.level);
         const userId = req.user.id;
 
+        if (!level) {
+            res.status(400).json({
+                success: false,
+                message: `level must be one of ${LEVEL_INPUT_HINT}`
+            });
+            return;
+        }
+
         const userLanguage = await prisma.userLanguage.update({
             where: {
                 userId_languageId: {
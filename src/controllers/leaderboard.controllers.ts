@@ -1,19 +1,32 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, ActivityType } from '@prisma/client';
+import { AuthenticatedUser, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { parseLevelFilter, LEVEL_INPUT_HINT } from '../utils/levels';
+import { parsePagination, PaginationQuery } from '../utils/pagination';
+import { evaluateAchievements } from '../services/achievements/achievement.service';
+import { recordActivity } from '../services/activity.service';
+import {
+    loadLeaderboard,
+    LeaderboardQuery,
+    LeaderboardWindow,
+    LeaderboardMetric,
+    LEADERBOARD_WINDOWS,
+    LEADERBOARD_METRICS,
+    DEFAULT_MIN_ACTIVITY
+} from '../services/leaderboard.service';
+import { loadFriendIds } from '../services/social.service';
+import { getLessonAccess } from '../services/curriculum.service';
+import { isPassingScore } from '../services/quiz-grading.service';
 
 const prisma = new PrismaClient();
 
-interface TypedRequestBody<T> extends Request {
+interface TypedRequestBody<T> extends AuthenticatedRequest {
     body: T;
-    user: {
-        id: string;
-    };
 }
 
 interface LeaderboardEntryBody {
     quizId: string;
-    score: number;
-    timeTaken?: number;
+    attemptId?: string;
 }
 
 interface LeaderboardEntry {
@@ -29,15 +42,98 @@ interface LeaderboardEntry {
     };
 }
 
+interface ScopeQueryParams {
+    scope?: string;
+}
+
+interface BoardQueryParams extends PaginationQuery, ScopeQueryParams {
+    window?: string;
+    metric?: string;
+    minActivity?: string;
+    level?: string;
+}
+
 /**
- * Add or update a user's score on the leaderboard for a specific quiz
+ * Options shared by the global and language boards:
+ * - window: week, month or all (default) - weeks start on Monday, UTC
+ * - metric: average (default) or total quiz score, or xp from all activity
+ * - minActivity: quizzes (activities for xp) needed to be ranked, see DEFAULT_MIN_ACTIVITY
+ * - level: only quizzes of lessons at a level (quiz metrics only)
+ */
+const parseBoardQuery = (params: BoardQueryParams): { query: LeaderboardQuery } | { error: string } => {
+    const window = (params.window || 'all') as LeaderboardWindow;
+    if (!LEADERBOARD_WINDOWS.includes(window)) {
+        return { error: `window must be one of ${LEADERBOARD_WINDOWS.join(', ')}` };
+    }
+
+    const metric = (params.metric || 'average') as LeaderboardMetric;
+    if (!LEADERBOARD_METRICS.includes(metric)) {
+        return { error: `metric must be one of ${LEADERBOARD_METRICS.join(', ')}` };
+    }
+
+    let minActivity = DEFAULT_MIN_ACTIVITY[metric];
+    if (params.minActivity !== undefined) {
+        minActivity = Number(params.minActivity);
+        if (!Number.isInteger(minActivity) || minActivity < 1) {
+            return { error: 'minActivity must be a positive integer' };
+        }
+    }
+
+    let levels = null;
+    if (params.level !== undefined) {
+        if (metric === 'xp') {
+            return { error: 'level can only be used with the average and total metrics' };
+        }
+        levels = parseLevelFilter(params.level);
+        if (!levels) {
+            return { error: `level must be one of ${LEVEL_INPUT_HINT}` };
+        }
+    }
+
+    return { query: { window, metric, minActivity, levels } };
+};
+
+const SCOPES = ['global', 'friends'];
+
+/**
+ * ?scope=friends limits a board to the signed-in caller and their friends.
+ * Returns the users to rank, or undefined for everyone.
+ */
+const resolveScope = async (
+    params: ScopeQueryParams,
+    user: AuthenticatedUser | undefined
+): Promise<{ userIds?: string[] } | { status: number; error: string }> => {
+    const scope = params.scope || 'global';
+    if (!SCOPES.includes(scope)) {
+        return { status: 400, error: `scope must be one of ${SCOPES.join(', ')}` };
+    }
+    if (scope === 'global') return {};
+
+    if (!user) {
+        return { status: 401, error: 'Sign in to see the friends leaderboard' };
+    }
+    return { userIds: [user.id, ...(await loadFriendIds(user.id))] };
+};
+
+// The options a board was built with, echoed in responses
+const describeBoard = (query: LeaderboardQuery) => ({
+    scope: query.userIds ? 'friends' : 'global',
+    window: query.window,
+    metric: query.metric,
+    minActivity: query.minActivity,
+    levels: query.levels
+});
+
+/**
+ * Add or update a user's score on the leaderboard for a specific quiz.
+ * The score is taken from a server-graded quiz attempt, never from the request body.
  */
 export const addLeaderboardEntry = async (
     req: TypedRequestBody<LeaderboardEntryBody>,
     res: Response
 ): Promise<void> => {
     try {
-        const { quizId, score, timeTaken } = req.body;
+        const { quizId, attemptId } = req.body;
         const userId = req.user.id;
 
         // Validate quiz exists
@@ -60,10 +156,36 @@ export const addLeaderboardEntry = async (
             return;
         }
 
-        // Validate score (must be between 0-100)
-        const validatedScore = typeof score === 'number' && score >= 0 && score <= 100 
-            ? Math.round(score) 
-            : 0;
+        // Curriculum lessons unlock in order; ad-hoc lessons are always open
+        const access = await getLessonAccess(userId, quiz.lessonId);
+        if (!access.unlocked) {
+            res.status(403).json({
+                success: false,
+                message: `Lesson is locked: ${access.reason}`
+            });
+            return;
+        }
+
+        // Use the given attempt, or the user's latest attempt on this quiz
+        const attempt = await prisma.quizAttempt.findFirst({
+            where: {
+                userId,
+                quizId,
+                ...(attemptId && { id: attemptId })
+            },
+            orderBy: { createdAt: 'desc' }
+        });
+
+        if (!attempt) {
+            res.status(400).json({
+                success: false,
+                message: 'No graded attempt found for this quiz. Submit answers to /api/ai-lessons/quiz/:quizId/attempts first'
+            });
+            return;
+        }
+
+        const validatedScore = attempt.score;
+        const timeTaken = attempt.timeTaken;
 
         // Add or update leaderboard entry
         const entry = await prisma.$transaction(async (tx) => {
@@ -79,14 +201,15 @@ export const addLeaderboardEntry = async (
 
             if (existingEntry) {
                 // Update if score is better
+                const isBetter = validatedScore > existingEntry.score;
                 return await tx.leaderboardEntry.update({
                     where: {
                         id: existingEntry.id
                     },
-                    data: {
+                    data: isBetter ? {
                         score: validatedScore,
-                        timeTaken: timeTaken !== undefined ? timeTaken : existingEntry.timeTaken
-                    },
+                        timeTaken: timeTaken ?? existingEntry.timeTaken
+                    } : {},
                     include: {
                         user: {
                             select: {
@@ -115,7 +238,8 @@ export const addLeaderboardEntry = async (
             }
         });
 
-        // Also update learning progress for this lesson
+        // Also update learning progress for this lesson; only a passing attempt completes it
+        const passed = isPassingScore(validatedScore);
         await prisma.learningProgress.upsert({
             where: {
                 userId_lessonId: {
@@ -125,16 +249,25 @@ export const addLeaderboardEntry = async (
             },
             update: {
                 score: validatedScore,
-                completed: true
+                ...(passed && { completed: true })
             },
             create: {
                 userId,
                 lessonId: quiz.lessonId,
                 score: validatedScore,
-                completed: true
+                completed: passed
             }
         });
 
+        // Only the first completion of a lesson earns XP
+        const xpAwarded = passed
+            ? await recordActivity(userId, ActivityType.LESSON_COMPLETED, {
+                sourceId: quiz.lessonId,
+                languageId: quiz.lesson.languageId
+            })
+            : 0;
+        const achievementsUnlocked = await evaluateAchievements(userId);
+
         res.json({
             success: true,
             message: 'Leaderboard entry added/updated successfully',
@@ -143,7 +276,9 @@ export const addLeaderboardEntry = async (
                 quizId: entry.quizId,
                 score: entry.score,
                 timeTaken: entry.timeTaken,
-                userName: entry.user.fullName
+                userName: entry.user.fullName,
+                xpAwarded,
+                achievementsUnlocked
             }
         });
     } catch (error) {
@@ -156,40 +291,43 @@ export const addLeaderboardEntry = async (
 };
 
 /**
- * Get the global leaderboard across all quizzes
+ * Get the global leaderboard across all quizzes. See parseBoardQuery for the options.
  */
 export const getGlobalLeaderboard = async (
-    _req: Request, 
+    req: Request & { query: BoardQueryParams }, 
     res: Response
 ): Promise<void> => {
     try {
-        // Get the top scorers based on average quiz scores
-        const topUsers = await prisma.$queryRaw`
-            SELECT 
-                u."id" as "userId",
-                u."fullName" as "userName",
-                COUNT(le."id") as "quizzesCompleted",
-                ROUND(AVG(le."score")::numeric, 2) as "averageScore",
-                SUM(le."score") as "totalScore"
-            FROM "User" u
-            JOIN "LeaderboardEntry" le ON u."id" = le."userId"
-            GROUP BY u."id", u."fullName"
-            ORDER BY "averageScore" DESC, "quizzesCompleted" DESC
-            LIMIT 20
-        `;
-
-        // Format numeric values to ensure they are numbers, not strings
-        const formattedTopUsers = Array.isArray(topUsers) ? topUsers.map(user => ({
-            userId: user.userId,
-            userName: user.userName,
-            quizzesCompleted: Number(user.quizzesCompleted),
-            averageScore: Number(user.averageScore),
-            totalScore: Number(user.totalScore)
-        })) : [];
+        const parsed = parseBoardQuery(req.query);
+        if ('error' in parsed) {
+            res.status(400).json({
+                success: false,
+                message: parsed.error
+            });
+            return;
+        }
+
+        const scope = await resolveScope(req.query, req.user);
+        if ('error' in scope) {
+            res.status(scope.status).json({
+                success: false,
+                message: scope.error
+            });
+            return;
+        }
+
+        const query = { ...parsed.query, ...scope };
+        const { page, limit, skip } = parsePagination(req.query);
+        const board = await loadLeaderboard(query, { limit, skip }, req.user?.id);
 
         res.json({
             success: true,
-            data: formattedTopUsers
+            data: {
+                ...describeBoard(query),
+                page,
+                limit,
+                ...board
+            }
         });
     } catch (error) {
         console.error('Error fetching global leaderboard:', error);
@@ -201,15 +339,24 @@ export const getGlobalLeaderboard = async (
 };
 
 /**
- * Get the leaderboard for a specific quiz
+ * Get the leaderboard for a specific quiz (?scope=friends for the caller and their friends)
  */
 export const getQuizLeaderboard = async (
-    req: Request & { params: { quizId: string } }, 
+    req: Request & { params: { quizId: string }; query: ScopeQueryParams }, 
     res: Response
 ): Promise<void> => {
     try {
         const { quizId } = req.params;
 
+        const scope = await resolveScope(req.query, req.user);
+        if ('error' in scope) {
+            res.status(scope.status).json({
+                success: false,
+                message: scope.error
+            });
+            return;
+        }
+
         // Validate quiz exists
         const quiz = await prisma.quiz.findUnique({
             where: { id: quizId },
@@ -229,7 +376,8 @@ export const getQuizLeaderboard = async (
         // Get the leaderboard entries for this quiz
         const leaderboard = await prisma.leaderboardEntry.findMany({
             where: {
-                quizId
+                quizId,
+                ...(scope.userIds && { userId: { in: scope.userIds } })
             },
             orderBy: [
                 { score: 'desc' },
@@ -259,11 +407,14 @@ export const getQuizLeaderboard = async (
         res.json({
             success: true,
             data: {
+                // Each quiz version has its own board, so scores are always on the same questions
                 quizInfo: {
                     id: quiz.id,
                     lessonId: quiz.lessonId,
-                    lessonTitle: quiz.lesson.title
+                    lessonTitle: quiz.lesson.title,
+                    version: quiz.version
                 },
+                scope: scope.userIds ? 'friends' : 'global',
                 leaderboard: formattedLeaderboard
             }
         });
@@ -277,15 +428,24 @@ export const getQuizLeaderboard = async (
 };
 
 /**
- * Get the leaderboard for a specific language
+ * Get the leaderboard for a specific language, with the same options as the global one
  */
 export const getLanguageLeaderboard = async (
-    req: Request & { params: { languageId: string } }, 
+    req: Request & { params: { languageId: string }; query: BoardQueryParams }, 
     res: Response
 ): Promise<void> => {
     try {
         const { languageId } = req.params;
 
+        const parsed = parseBoardQuery(req.query);
+        if ('error' in parsed) {
+            res.status(400).json({
+                success: false,
+                message: parsed.error
+            });
+            return;
+        }
+
         // Validate language exists
         const language = await prisma.language.findUnique({
             where: { id: languageId }
@@ -299,23 +459,18 @@ export const getLanguageLeaderboard = async (
             return;
         }
 
-        // Get the top users for this language
-        const languageLeaderboard = await prisma.$queryRaw`
-            SELECT 
-                u."id" as "userId",
-                u."fullName" as "userName",
-                COUNT(le."id") as "quizzesCompleted",
-                ROUND(AVG(le."score")::numeric, 2) as "averageScore",
-                SUM(le."score") as "totalScore"
-            FROM "User" u
-            JOIN "LeaderboardEntry" le ON u."id" = le."userId"
-            JOIN "Quiz" q ON le."quizId" = q."id"
-            JOIN "Lesson" l ON q."lessonId" = l."id"
-            WHERE l."languageId" = ${languageId}
-            GROUP BY u."id", u."fullName"
-            ORDER BY "averageScore" DESC, "quizzesCompleted" DESC
-            LIMIT 20
-        `;
+        const scope = await resolveScope(req.query, req.user);
+        if ('error' in scope) {
+            res.status(scope.status).json({
+                success: false,
+                message: scope.error
+            });
+            return;
+        }
+
+        const query = { ...parsed.query, ...scope, languageId };
+        const { page, limit, skip } = parsePagination(req.query);
+        const board = await loadLeaderboard(query, { limit, skip }, req.user?.id);
 
         res.json({
             success: true,
@@ -324,7 +479,10 @@ export const getLanguageLeaderboard = async (
                     id: language.id,
                     name: language.name,
                 },
-                leaderboard: languageLeaderboard
+                ...describeBoard(query),
+                page,
+                limit,
+                ...board
             }
         });
     } catch (error) {
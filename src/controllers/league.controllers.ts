@@ -0,0 +1,115 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { leagueWeekRange, loadCohortStandings, zoneSizes } from '../services/league.service';
+import { weekStartKey } from '../utils/dates';
+import { parsePagination, PaginationQuery } from '../utils/pagination';
+
+const prisma = new PrismaClient();
+
+interface TypedRequestBody<T> extends AuthenticatedRequest {
+    body: T;
+}
+
+/**
+ * The caller's league this week with live standings. Learners join a league with their
+ * first lesson or quiz XP of the week, so until then only their tier is returned.
+ */
+export const getCurrentLeague = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const weekStart = weekStartKey(new Date());
+
+        const [user, membership] = await Promise.all([
+            prisma.user.findUnique({ where: { id: userId }, select: { leagueTier: true } }),
+            prisma.leagueMembership.findUnique({
+                where: { userId_weekStart: { userId, weekStart } },
+                include: { cohort: true }
+            })
+        ]);
+
+        const week = { weekStart, endsAt: leagueWeekRange(weekStart).end };
+
+        if (!membership) {
+            res.json({
+                success: true,
+                data: { ...week, joined: false, tier: user?.leagueTier ?? null, standings: [], me: null }
+            });
+            return;
+        }
+
+        const standings = await loadCohortStandings(membership.cohortId);
+
+        res.json({
+            success: true,
+            data: {
+                ...week,
+                joined: true,
+                tier: membership.cohort.tier,
+                cohortId: membership.cohortId,
+                ...zoneSizes(standings.length),
+                standings,
+                me: standings.find(standing => standing.userId === userId) ?? null
+            }
+        });
+    } catch (error) {
+        console.error('Current league error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching current league'
+        });
+    }
+};
+
+/**
+ * The caller's finished league weeks, newest first (?page=, ?limit=)
+ */
+export const getLeagueHistory = async (
+    req: TypedRequestBody<{}> & { query: PaginationQuery },
+    res: Response
+): Promise<void> => {
+    try {
+        const { page, limit, skip } = parsePagination(req.query);
+        const where = { userId: req.user.id, cohort: { closedAt: { not: null } } };
+
+        const [memberships, total] = await Promise.all([
+            prisma.leagueMembership.findMany({
+                where,
+                orderBy: { weekStart: 'desc' },
+                skip,
+                take: limit,
+                include: {
+                    cohort: {
+                        select: { id: true, tier: true, closedAt: true, _count: { select: { members: true } } }
+                    }
+                }
+            }),
+            prisma.leagueMembership.count({ where })
+        ]);
+
+        res.json({
+            success: true,
+            data: {
+                weeks: memberships.map(membership => ({
+                    weekStart: membership.weekStart,
+                    cohortId: membership.cohort.id,
+                    tier: membership.cohort.tier,
+                    members: membership.cohort._count.members,
+                    xp: membership.finalXp,
+                    rank: membership.finalRank,
+                    outcome: membership.outcome,
+                    closedAt: membership.cohort.closedAt
+                })),
+                page,
+                limit,
+                total
+            }
+        });
+    } catch (error) {
+        console.error('League history error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching league history'
+        });
+    }
+};
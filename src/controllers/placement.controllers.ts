@@ -0,0 +1,407 @@
+import { Response } from 'express';
+import { PrismaClient, Prisma, PlacementStatus, PlacementQuestion } from '@prisma/client';
+import { generateValidatedJSON, LLMValidationError } from '../services/llm/llm.service';
+import { validatePlacementQuestions } from '../services/llm/llm.schemas';
+import {
+    PLACEMENT_LENGTH,
+    PLACEMENT_QUESTIONS_PER_LEVEL,
+    START_LEVEL,
+    nextLevel,
+    pickQuestion,
+    recommendLevel,
+    summarizeLevels
+} from '../services/placement.service';
+import { LEVEL_ORDER, LEVEL_DESCRIPTIONS, levelBand } from '../utils/levels';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const prisma = new PrismaClient();
+
+interface TypedRequestBody<T> extends AuthenticatedRequest {
+    body: T;
+}
+
+interface StartPlacementBody {
+    languageId: string;
+}
+
+interface PlacementAnswerBody {
+    questionId: string;
+    answer: number;
+}
+
+// What the learner sees while the test runs: no level, answer key or explanation
+const toPublicQuestion = (question: PlacementQuestion) => ({
+    id: question.id,
+    number: question.askedOrder,
+    question: question.question,
+    options: question.options as string[]
+});
+
+const currentQuestion = (questions: PlacementQuestion[]): PlacementQuestion | undefined =>
+    questions.find(q => q.askedOrder !== null && q.selectedOption === null);
+
+/**
+ * Start a placement test for a language, or resume the one in progress.
+ * The whole question pool is generated up front; questions are then served adaptively.
+ */
+export const startPlacementTest = async (req: TypedRequestBody<StartPlacementBody>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { languageId } = req.body;
+
+        if (!languageId) {
+            res.status(400).json({
+                success: false,
+                message: 'languageId is required'
+            });
+            return;
+        }
+
+        const language = await prisma.language.findUnique({ where: { id: languageId } });
+        if (!language || !language.enabled) {
+            res.status(404).json({
+                success: false,
+                message: 'Language not found'
+            });
+            return;
+        }
+
+        const inProgress = await prisma.placementTest.findFirst({
+            where: { userId, languageId, status: PlacementStatus.IN_PROGRESS },
+            orderBy: { createdAt: 'desc' },
+            include: { questions: true }
+        });
+        const pending = inProgress && currentQuestion(inProgress.questions);
+
+        if (inProgress && pending) {
+            res.json({
+                success: true,
+                message: 'Resumed placement test in progress',
+                data: {
+                    testId: inProgress.id,
+                    questionCount: inProgress.questionCount,
+                    answered: pending.askedOrder! - 1,
+                    question: toPublicQuestion(pending)
+                }
+            });
+            return;
+        }
+
+        let drafts;
+        try {
+            drafts = await generateValidatedJSON(
+                'placement',
+                `
+Write a ${language.name} placement test for English speakers.
+Create ${PLACEMENT_QUESTIONS_PER_LEVEL} multiple-choice questions for each of these CEFR levels:
+${LEVEL_ORDER.map(level => `- ${level}: ${LEVEL_DESCRIPTIONS[level]}`).join('\n')}
+
+Return ONLY JSON:
+{
+  "questions": [{"level":"A1","question":"","options":["","","",""],"correctAnswer":0,"explanation":""}]
+}
+
+Rules:
+- exactly 4 distinct options per question and exactly one correct answer
+- correctAnswer is the 0-based index of the correct option
+- vary the position of the correct answer
+- each question tests one clear point and does not depend on the others
+                `.trim(),
+                validatePlacementQuestions,
+                4000
+            );
+        } catch (e) {
+            if (e instanceof LLMValidationError) {
+                res.status(502).json({
+                    success: false,
+                    status: 'generation_failed',
+                    message: 'Placement test generation failed: the AI returned invalid output. Please retry.',
+                    errors: e.errors
+                });
+                return;
+            }
+            throw e;
+        }
+
+        const pool = drafts.map((draft, index) => ({ ...draft, index, askedOrder: null }));
+        const first = pickQuestion(pool, START_LEVEL)!;
+
+        const test = await prisma.placementTest.create({
+            data: {
+                userId,
+                languageId,
+                currentLevel: first.level,
+                questionCount: Math.min(PLACEMENT_LENGTH, drafts.length),
+                questions: {
+                    create: pool.map(draft => ({
+                        level: draft.level,
+                        question: draft.question,
+                        options: draft.options,
+                        correctAnswer: draft.correctAnswer,
+                        explanation: draft.explanation,
+                        askedOrder: draft.index === first.index ? 1 : null
+                    }))
+                }
+            },
+            include: { questions: true }
+        });
+
+        // A test replaces any earlier one left unfinished
+        if (inProgress) {
+            await prisma.placementTest.delete({ where: { id: inProgress.id } });
+        }
+
+        res.status(201).json({
+            success: true,
+            data: {
+                testId: test.id,
+                questionCount: test.questionCount,
+                answered: 0,
+                question: toPublicQuestion(currentQuestion(test.questions)!)
+            }
+        });
+    } catch (error) {
+        console.error('Start placement test error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error starting placement test'
+        });
+    }
+};
+
+/**
+ * Grade the answer to the current question and serve the next one. After the last
+ * answer the test completes, and the recommended level is set on the user's language.
+ */
+export const answerPlacementQuestion = async (req: TypedRequestBody<PlacementAnswerBody>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { testId } = req.params;
+        const { questionId, answer } = req.body;
+
+        if (!Number.isInteger(answer) || answer < 0 || answer > 3) {
+            res.status(400).json({
+                success: false,
+                message: 'answer must be the index of an option (0-3)'
+            });
+            return;
+        }
+
+        const test = await prisma.placementTest.findFirst({
+            where: { id: testId, userId },
+            include: { questions: true }
+        });
+
+        if (!test) {
+            res.status(404).json({
+                success: false,
+                message: 'Placement test not found'
+            });
+            return;
+        }
+
+        const pending = currentQuestion(test.questions);
+        if (test.status !== PlacementStatus.IN_PROGRESS || !pending) {
+            res.status(409).json({
+                success: false,
+                message: 'This placement test has already been completed'
+            });
+            return;
+        }
+
+        if (questionId !== pending.id) {
+            res.status(409).json({
+                success: false,
+                message: 'Answer the current question first',
+                data: { question: toPublicQuestion(pending) }
+            });
+            return;
+        }
+
+        const isCorrect = answer === pending.correctAnswer;
+
+        // Guarded on selectedOption so a double submit cannot grade the question twice
+        const { count } = await prisma.placementQuestion.updateMany({
+            where: { id: pending.id, selectedOption: null },
+            data: { selectedOption: answer, isCorrect, answeredAt: new Date() }
+        });
+        if (!count) {
+            res.status(409).json({
+                success: false,
+                message: 'This question has already been answered'
+            });
+            return;
+        }
+
+        const answered = pending.askedOrder!;
+        const correctCount = test.correctCount + (isCorrect ? 1 : 0);
+        const remaining = test.questions.filter(q => q.id !== pending.id);
+        const next = answered < test.questionCount
+            ? pickQuestion(remaining, nextLevel(pending.level, isCorrect))
+            : null;
+
+        if (next) {
+            await prisma.$transaction([
+                prisma.placementQuestion.update({
+                    where: { id: next.id },
+                    data: { askedOrder: answered + 1 }
+                }),
+                prisma.placementTest.update({
+                    where: { id: test.id },
+                    data: { currentLevel: next.level, correctCount }
+                })
+            ]);
+
+            res.json({
+                success: true,
+                data: {
+                    testId: test.id,
+                    correct: isCorrect,
+                    completed: false,
+                    questionCount: test.questionCount,
+                    answered,
+                    question: toPublicQuestion({ ...next, askedOrder: answered + 1 })
+                }
+            });
+            return;
+        }
+
+        const answers = [
+            ...test.questions.filter(q => q.isCorrect !== null).map(q => ({ level: q.level, isCorrect: q.isCorrect! })),
+            { level: pending.level, isCorrect }
+        ];
+        const recommendedLevel = recommendLevel(answers);
+
+        await prisma.$transaction([
+            prisma.placementTest.update({
+                where: { id: test.id },
+                data: {
+                    status: PlacementStatus.COMPLETED,
+                    correctCount,
+                    recommendedLevel,
+                    completedAt: new Date()
+                }
+            }),
+            prisma.userLanguage.upsert({
+                where: { userId_languageId: { userId, languageId: test.languageId } },
+                create: { userId, languageId: test.languageId, level: recommendedLevel },
+                update: { level: recommendedLevel }
+            })
+        ]);
+
+        res.json({
+            success: true,
+            message: `Placement complete: your level has been set to ${recommendedLevel}`,
+            data: {
+                testId: test.id,
+                correct: isCorrect,
+                completed: true,
+                questionCount: test.questionCount,
+                answered,
+                correctCount,
+                recommendedLevel,
+                band: levelBand(recommendedLevel),
+                levels: summarizeLevels(answers)
+            }
+        });
+    } catch (error) {
+        console.error('Answer placement question error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error grading placement answer'
+        });
+    }
+};
+
+/**
+ * Review a placement test. Answer keys and explanations are only shown once it is completed.
+ */
+export const getPlacementTest = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const test = await prisma.placementTest.findFirst({
+            where: { id: req.params.testId, userId: req.user.id },
+            include: {
+                language: { select: { id: true, name: true, code: true } },
+                questions: {
+                    where: { askedOrder: { not: null } },
+                    orderBy: { askedOrder: 'asc' }
+                }
+            }
+        });
+
+        if (!test) {
+            res.status(404).json({
+                success: false,
+                message: 'Placement test not found'
+            });
+            return;
+        }
+
+        const { questions, ...summary } = test;
+        const completed = test.status === PlacementStatus.COMPLETED;
+        const answers = questions
+            .filter(q => q.isCorrect !== null)
+            .map(q => ({ level: q.level, isCorrect: q.isCorrect! }));
+
+        res.json({
+            success: true,
+            data: {
+                ...summary,
+                band: test.recommendedLevel ? levelBand(test.recommendedLevel) : null,
+                levels: completed ? summarizeLevels(answers) : undefined,
+                questions: completed
+                    ? questions.map(q => ({
+                        ...toPublicQuestion(q),
+                        level: q.level,
+                        selectedOption: q.selectedOption,
+                        correctAnswer: q.correctAnswer,
+                        isCorrect: q.isCorrect,
+                        explanation: q.explanation
+                    }))
+                    : questions.map(q => ({ ...toPublicQuestion(q), answered: q.selectedOption !== null }))
+            }
+        });
+    } catch (error) {
+        console.error('Get placement test error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching placement test'
+        });
+    }
+};
+
+/**
+ * The user's placement tests, newest first
+ */
+export const listPlacementTests = async (
+    req: TypedRequestBody<{}> & { query: { languageId?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const { languageId } = req.query;
+        const where: Prisma.PlacementTestWhereInput = {
+            userId: req.user.id,
+            ...(languageId && { languageId })
+        };
+
+        const tests = await prisma.placementTest.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            include: { language: { select: { id: true, name: true, code: true } } }
+        });
+
+        res.json({
+            success: true,
+            data: tests.map(test => ({
+                ...test,
+                band: test.recommendedLevel ? levelBand(test.recommendedLevel) : null
+            }))
+        });
+    } catch (error) {
+        console.error('List placement tests error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching placement tests'
+        });
+    }
+};
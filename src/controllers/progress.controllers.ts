@@ -1,13 +1,24 @@
-import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Response } from 'express';
+import { PrismaClient, Level, ActivityType } from '@prisma/client';
+import { getLessonAccess, loadCoursePaths } from '../services/curriculum.service';
+import { isPassingScore } from '../services/quiz-grading.service';
+import {
+    recordActivity,
+    applyStreakFreezes,
+    loadStreak,
+    DAILY_GOAL_OPTIONS,
+    FREEZE_EVERY_DAYS,
+    MAX_STREAK_FREEZES
+} from '../services/activity.service';
+import { evaluateAchievements, listAchievements } from '../services/achievements/achievement.service';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { LEVEL_ORDER } from '../utils/levels';
+import { addDaysToKey, dayKeyInTimeZone, isValidTimeZone, parseDaysParam } from '../utils/dates';
 
 const prisma = new PrismaClient();
 
-interface TypedRequestBody<T> extends Request {
+interface TypedRequestBody<T> extends AuthenticatedRequest {
     body: T;
-    user: {
-        id: string;
-    };
 }
 
 interface UpdateProgressBody {
@@ -16,6 +27,35 @@ interface UpdateProgressBody {
     completed: boolean;
 }
 
+interface ProgressSettingsBody {
+    dailyXpGoal?: number;
+    timezone?: string;
+}
+
+/**
+ * Lesson completion for each level of a language that has lessons, easiest first
+ */
+const summarizeLevelProgress = async (languageId: string, completedLevels: Level[]) => {
+    const totals = await prisma.lesson.groupBy({
+        by: ['level'],
+        where: { languageId },
+        _count: { _all: true }
+    });
+
+    return LEVEL_ORDER.flatMap(level => {
+        const total = totals.find(entry => entry.level === level)?._count._all ?? 0;
+        if (!total) return [];
+
+        const completed = completedLevels.filter(completedLevel => completedLevel === level).length;
+        return [{
+            level,
+            totalLessons: total,
+            completedLessons: completed,
+            completionRate: Math.round((completed / total) * 100)
+        }];
+    });
+};
+
 // Get user's learning progress dashboard
 export const getProgressDashboard = async (req: TypedRequestBody<{}>, res: Response): Promise<void | Response> => {
     try {
@@ -65,7 +105,8 @@ export const getProgressDashboard = async (req: TypedRequestBody<{}>, res: Respo
                     completedLessons: 0,
                     completionRate: 0,
                     averageScore: 0
-                }
+                },
+                byLevel: []
             }));
 
             console.log(`Sending ${emptyProgressResults.length} empty language progress records`);
@@ -116,7 +157,7 @@ export const getProgressDashboard = async (req: TypedRequestBody<{}>, res: Respo
                     }
                 });
                 
-                languageData.level = userLanguage?.level || 'BEGINNER';
+                languageData.level = userLanguage?.level || Level.A1;
                 
                 // Get total lessons count for this language
                 const totalLessonsCount = await prisma.lesson.count({
@@ -139,6 +180,11 @@ export const getProgressDashboard = async (req: TypedRequestBody<{}>, res: Respo
                 const completionRate = totalLessonsCount > 0 
                     ? Math.round((completedLessons / totalLessonsCount) * 100) 
                     : 0;
+
+                const byLevel = await summarizeLevelProgress(
+                    languageId,
+                    completedRecords.map((r: any) => r.lesson.level)
+                );
                 
                 console.log(`Language: ${languageData.language.name}, ` +
                     `Completed: ${completedLessons}/${totalLessonsCount}, ` +
@@ -153,7 +199,8 @@ export const getProgressDashboard = async (req: TypedRequestBody<{}>, res: Respo
                         completedLessons,
                         completionRate,
                         averageScore
-                    }
+                    },
+                    byLevel
                 });
             } catch (langError) {
                 console.error(`Error processing language ${languageData.language.name}:`, langError);
@@ -182,7 +229,8 @@ export const getProgressDashboard = async (req: TypedRequestBody<{}>, res: Respo
                         completedLessons: 0,
                         completionRate: 0,
                         averageScore: 0
-                    }
+                    },
+                    byLevel: []
                 });
             }
         }
@@ -234,6 +282,16 @@ export const updateLessonProgress = async (
 
         console.log(`Lesson found: ${lesson.title}, Language: ${lesson.language.name}`);
 
+        // Curriculum lessons unlock in order; ad-hoc lessons are always open
+        const access = await getLessonAccess(userId, lessonId);
+        if (!access.unlocked) {
+            res.status(403).json({
+                success: false,
+                message: `Lesson is locked: ${access.reason}`
+            });
+            return;
+        }
+
         // Validate score is a number between 0 and 100
         const validatedScore = typeof score === 'number' && score >= 0 && score <= 100 
             ? Math.round(score) 
@@ -270,10 +328,18 @@ export const updateLessonProgress = async (
         console.log(`Progress updated successfully for lesson "${progress.lesson.title}"`);
         console.log(`New progress: Score ${progress.score}, Completed: ${progress.completed}`);
 
+        // Only the first completion of a lesson earns XP
+        const xpAwarded = progress.completed
+            ? await recordActivity(userId, ActivityType.LESSON_COMPLETED, { sourceId: lessonId, languageId: lesson.languageId })
+            : 0;
+        const achievementsUnlocked = await evaluateAchievements(userId);
+
         // Include language info in response
         const responseData = {
             ...progress,
-            language: progress.lesson.language
+            language: progress.lesson.language,
+            xpAwarded,
+            achievementsUnlocked
         };
 
         res.json({
@@ -316,10 +382,16 @@ export const getLanguageProgress = async (
 
         console.log(`Fetching progress for language: ${language.name}`);
 
-        // Get all lessons for the language with ordering
+        // Curriculum lessons in course/unit order first, then ad-hoc lessons oldest first
         const lessons = await prisma.lesson.findMany({
             where: { languageId },
-            orderBy: { createdAt: 'asc' } // Get oldest lessons first
+            orderBy: [
+                { unit: { course: { position: 'asc' } } },
+                { unit: { courseId: 'asc' } },
+                { unit: { position: 'asc' } },
+                { position: 'asc' },
+                { createdAt: 'asc' }
+            ]
         });
         
         if (!lessons.length) {
@@ -353,15 +425,23 @@ export const getLanguageProgress = async (
             progressByLessonId[record.lessonId] = {
                 completed: record.completed,
                 score: record.score,
+                exerciseScore: record.exerciseScore,
                 updatedAt: record.updatedAt
             };
         }
 
+        const curriculumLessons = new Map(
+            (await loadCoursePaths(userId, { languageId }))
+                .flatMap(course => course.units.flatMap(unit => unit.lessons))
+                .map(lesson => [lesson.id, lesson])
+        );
+
         // Combine lesson data with progress data
         const progressDetails = lessons.map(lesson => {
             const progress = progressByLessonId[lesson.id] || {
                 completed: false,
                 score: 0,
+                exerciseScore: null,
                 updatedAt: null
             };
             
@@ -371,30 +451,15 @@ export const getLanguageProgress = async (
                     title: lesson.title,
                     level: lesson.level,
                     description: lesson.description,
+                    unitId: lesson.unitId,
+                    position: lesson.position,
                     createdAt: lesson.createdAt
                 },
-                progress
+                progress,
+                status: curriculumLessons.get(lesson.id)?.status ?? (progress.completed ? 'completed' : 'unlocked')
             };
         });
 
-        // Sort by completion status and date
-        progressDetails.sort((a, b) => {
-            // First sort by completion status (incomplete first)
-            if (a.progress.completed !== b.progress.completed) {
-                return a.progress.completed ? 1 : -1;
-            }
-            
-            // For completed lessons, sort by most recently completed
-            if (a.progress.completed && b.progress.completed) {
-                return new Date(b.progress.updatedAt || 0).getTime() - 
-                       new Date(a.progress.updatedAt || 0).getTime();
-            }
-            
-            // For incomplete lessons, sort by creation date (oldest first)
-            return new Date(a.lesson.createdAt || 0).getTime() - 
-                   new Date(b.lesson.createdAt || 0).getTime();
-        });
-
         res.json({
             success: true,
             data: progressDetails
@@ -408,21 +473,19 @@ export const getLanguageProgress = async (
     }
 };
 
-// Quiz progress update
+// Quiz progress update, scored from the user's graded quiz attempt
 export const updateQuizProgress = async (
     req: TypedRequestBody<{
         quizId: string;
-        score: number;
-        timeTaken?: number;
+        attemptId?: string;
     }>,
     res: Response
 ): Promise<void> => {
     try {
-        const { quizId, score, timeTaken } = req.body;
+        const { quizId, attemptId } = req.body;
         const userId = req.user.id;
 
         console.log(`Updating quiz progress for user ${userId}, quiz ${quizId}`);
-        console.log(`Score: ${score}, Time taken: ${timeTaken || 'N/A'}`);
 
         // Check if quiz exists
         const quiz = await prisma.quiz.findUnique({
@@ -448,12 +511,40 @@ export const updateQuizProgress = async (
         const lessonId = quiz.lessonId;
         console.log(`Quiz found. Associated lesson: ${quiz.lesson.title}, Language: ${quiz.lesson.language.name}`);
 
-        // Validate score is a number between 0 and 100
-        const validatedScore = typeof score === 'number' && score >= 0 && score <= 100 
-            ? Math.round(score) 
-            : 0;
+        // Curriculum lessons unlock in order; ad-hoc lessons are always open
+        const access = await getLessonAccess(userId, quiz.lessonId);
+        if (!access.unlocked) {
+            res.status(403).json({
+                success: false,
+                message: `Lesson is locked: ${access.reason}`
+            });
+            return;
+        }
+
+        // Scores come from server-graded attempts only; use the given attempt or the latest one
+        const attempt = await prisma.quizAttempt.findFirst({
+            where: {
+                userId,
+                quizId,
+                ...(attemptId && { id: attemptId })
+            },
+            orderBy: { createdAt: 'desc' }
+        });
 
-        // Update learning progress first
+        if (!attempt) {
+            res.status(400).json({
+                success: false,
+                message: 'No graded attempt found for this quiz. Submit answers to /api/ai-lessons/quiz/:quizId/attempts first'
+            });
+            return;
+        }
+
+        const validatedScore = attempt.score;
+        const timeTaken = attempt.timeTaken;
+        console.log(`Using attempt ${attempt.id}: Score ${validatedScore}, Time taken: ${timeTaken ?? 'N/A'}`);
+
+        // Update learning progress first; only a passing attempt completes the lesson
+        const passed = isPassingScore(validatedScore);
         const progress = await prisma.learningProgress.upsert({
             where: {
                 userId_lessonId: {
@@ -463,46 +554,67 @@ export const updateQuizProgress = async (
             },
             update: {
                 score: validatedScore,
-                completed: true,
+                ...(passed && { completed: true }),
                 updatedAt: new Date()
             },
             create: {
                 userId,
                 lessonId,
                 score: validatedScore,
-                completed: true
+                completed: passed
             }
         });
 
         console.log(`Progress updated successfully: Score ${progress.score}, Completed: ${progress.completed}`);
+
+        // Only the first completion of a lesson earns XP
+        const xpAwarded = passed
+            ? await recordActivity(userId, ActivityType.LESSON_COMPLETED, {
+                sourceId: lessonId,
+                languageId: quiz.lesson.languageId
+            })
+            : 0;
         
-        // Then try to update leaderboard
+        // Then try to update leaderboard (verified accounts only)
         let leaderboardEntry = null;
-        try {
-            leaderboardEntry = await prisma.leaderboardEntry.upsert({
-                where: {
-                    userId_quizId: {
-                        userId,
-                        quizId
+        if (req.user.emailVerified) {
+            try {
+                const existingEntry = await prisma.leaderboardEntry.findUnique({
+                    where: {
+                        userId_quizId: {
+                            userId,
+                            quizId
+                        }
                     }
-                },
-                update: {
+                });
+
+                leaderboardEntry = await prisma.leaderboardEntry.upsert({
+                    where: {
+                        userId_quizId: {
+                            userId,
+                            quizId
+                        }
+                    },
                     // Only update if the new score is higher
-                    score: validatedScore,
-                    timeTaken: timeTaken ?? undefined
-                },
-                create: {
-                    userId,
-                    quizId,
-                    score: validatedScore,
-                    timeTaken: timeTaken ?? undefined
-                }
-            });
-            console.log(`Leaderboard entry created/updated: Score ${leaderboardEntry.score}`);
-        } catch (e: unknown) {
-            console.error('Leaderboard entry failed, schema might not be migrated yet:', e);
+                    update: existingEntry && existingEntry.score >= validatedScore ? {} : {
+                        score: validatedScore,
+                        timeTaken: timeTaken ?? undefined
+                    },
+                    create: {
+                        userId,
+                        quizId,
+                        score: validatedScore,
+                        timeTaken: timeTaken ?? undefined
+                    }
+                });
+                console.log(`Leaderboard entry created/updated: Score ${leaderboardEntry.score}`);
+            } catch (e: unknown) {
+                console.error('Leaderboard entry failed, schema might not be migrated yet:', e);
+            }
         }
 
+        const achievementsUnlocked = await evaluateAchievements(userId);
+
         res.json({
             success: true,
             message: 'Quiz progress updated successfully',
@@ -510,13 +622,16 @@ export const updateQuizProgress = async (
                 progress: {
                     lessonId: progress.lessonId,
                     score: progress.score,
-                    completed: progress.completed
+                    completed: progress.completed,
+                    passed
                 },
                 leaderboard: leaderboardEntry ? {
                     quizId: leaderboardEntry.quizId,
                     score: leaderboardEntry.score,
                     timeTaken: leaderboardEntry.timeTaken
-                } : null
+                } : null,
+                xpAwarded,
+                achievementsUnlocked
             }
         });
     } catch (error) {
@@ -526,4 +641,198 @@ export const updateQuizProgress = async (
             message: 'Error updating quiz progress'
         });
     }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Activity calendar: XP per day over the last ?days= days (default 30, max 365) in the
+ * learner's timezone, with the daily goal and the current streak
+ */
+export const getActivityCalendar = async (
+    req: TypedRequestBody<{}> & { query: { days?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const days = parseDaysParam(req.query.days, 30, 365);
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { timezone: true, dailyXpGoal: true }
+        });
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        const now = new Date();
+        const freezesUsed = await applyStreakFreezes(userId, user.timezone, now);
+        const today = dayKeyInTimeZone(now, user.timezone);
+        const from = addDaysToKey(today, -(days - 1));
+
+        const [events, frozen, totals, streak, { streakFreezes }] = await Promise.all([
+            prisma.activityEvent.groupBy({
+                by: ['day', 'type'],
+                where: { userId, day: { gte: from, lte: today } },
+                _sum: { xp: true },
+                _count: { _all: true }
+            }),
+            prisma.streakFreezeUse.findMany({
+                where: { userId, day: { gte: from, lte: today } },
+                select: { day: true }
+            }),
+            prisma.activityEvent.aggregate({ where: { userId }, _sum: { xp: true } }),
+            loadStreak(userId, user.timezone, now),
+            prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { streakFreezes: true } })
+        ]);
+
+        const frozenDays = new Set(frozen.map(entry => entry.day));
+        const calendar = [];
+        for (let day = from; day <= today; day = addDaysToKey(day, 1)) {
+            const dayEvents = events.filter(entry => entry.day === day);
+            const xp = dayEvents.reduce((sum, entry) => sum + (entry._sum.xp ?? 0), 0);
+            calendar.push({
+                date: day,
+                xp,
+                goalMet: xp >= user.dailyXpGoal,
+                frozen: frozenDays.has(day),
+                activities: Object.fromEntries(dayEvents.map(entry => [entry.type, entry._count._all]))
+            });
+        }
+
+        const todayXp = calendar[calendar.length - 1].xp;
+
+        res.json({
+            success: true,
+            data: {
+                timezone: user.timezone,
+                dailyXpGoal: user.dailyXpGoal,
+                totalXp: totals._sum.xp ?? 0,
+                today: {
+                    date: today,
+                    xp: todayXp,
+                    goalMet: todayXp >= user.dailyXpGoal
+                },
+                streak: {
+                    ...streak,
+                    freezesAvailable: streakFreezes,
+                    freezesUsed
+                },
+                days: calendar
+            }
+        });
+    } catch (error) {
+        console.error('Error fetching activity calendar:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching activity calendar'
+        });
+    }
+};
+
+const toProgressSettings = (settings: { dailyXpGoal: number; timezone: string; streakFreezes: number }) => ({
+    ...settings,
+    dailyXpGoalOptions: DAILY_GOAL_OPTIONS,
+    freezeEveryDays: FREEZE_EVERY_DAYS,
+    maxStreakFreezes: MAX_STREAK_FREEZES
+});
+
+// Get the learner's daily goal and timezone
+export const getProgressSettings = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const settings = await prisma.user.findUnique({
+            where: { id: req.user.id },
+            select: { dailyXpGoal: true, timezone: true, streakFreezes: true }
+        });
+        if (!settings) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: toProgressSettings(settings)
+        });
+    } catch (error) {
+        console.error('Error fetching progress settings:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching progress settings'
+        });
+    }
+};
+
+/**
+ * Update the daily XP goal and/or the timezone. Days already logged keep the date they
+ * were recorded under; the new timezone applies from now on.
+ */
+export const updateProgressSettings = async (req: TypedRequestBody<ProgressSettingsBody>, res: Response): Promise<void> => {
+    try {
+        const { dailyXpGoal, timezone } = req.body;
+
+        if (dailyXpGoal !== undefined && !DAILY_GOAL_OPTIONS.includes(dailyXpGoal)) {
+            res.status(400).json({
+                success: false,
+                message: `dailyXpGoal must be one of ${DAILY_GOAL_OPTIONS.join(', ')}`
+            });
+            return;
+        }
+
+        if (timezone !== undefined && !isValidTimeZone(timezone)) {
+            res.status(400).json({
+                success: false,
+                message: 'timezone must be an IANA timezone such as Europe/Paris'
+            });
+            return;
+        }
+
+        const settings = await prisma.user.update({
+            where: { id: req.user.id },
+            data: {
+                ...(dailyXpGoal !== undefined && { dailyXpGoal }),
+                ...(timezone !== undefined && { timezone })
+            },
+            select: { dailyXpGoal: true, timezone: true, streakFreezes: true }
+        });
+
+        res.json({
+            success: true,
+            message: 'Progress settings updated',
+            data: toProgressSettings(settings)
+        });
+    } catch (error) {
+        console.error('Error updating progress settings:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating progress settings'
+        });
+    }
+};
+
+// All achievements with the user's progress towards each, unlocking any newly earned ones
+export const getAchievements = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { achievements, newlyUnlocked } = await listAchievements(req.user.id);
+
+        res.json({
+            success: true,
+            data: {
+                unlockedCount: achievements.filter(achievement => achievement.unlocked).length,
+                total: achievements.length,
+                achievements,
+                newlyUnlocked
+            }
+        });
+    } catch (error) {
+        console.error('Error fetching achievements:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching achievements'
+        });
+    }
+};
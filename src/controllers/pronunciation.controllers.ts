@@ -0,0 +1,282 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { generateValidatedJSON, LLMValidationError } from '../services/llm/llm.service';
+import { validatePracticeSentences } from '../services/llm/llm.schemas';
+import { DAY_MS, weekStartKey, parseDaysParam } from '../utils/dates';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { hasSpellingRules } from '../services/grapheme-to-phoneme.service';
+
+const prisma = new PrismaClient();
+
+interface TypedRequestBody<T> extends AuthenticatedRequest {
+    body: T;
+}
+
+interface PracticeSentencesBody {
+    languageId: string;
+    count?: number;
+}
+
+const DEFAULT_HISTORY_DAYS = 90;
+const MAX_HISTORY_DAYS = 365;
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+
+// A sound needs this many attempts before it can be called weak
+const MIN_SOUND_OCCURRENCES = 3;
+const WEAK_SOUND_LIMIT = 10;
+const MAX_PRACTICE_SENTENCES = 10;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Sounds the learner gets wrong most often in a language, weakest first.
+ * A sound is reported per spelling, so Spanish /b/ written "v" and written "b" are separate entries.
+ */
+const findWeakSounds = async (userId: string, languageId: string, since: Date, limit = WEAK_SOUND_LIMIT) => {
+    const totals = await prisma.pronunciationSoundScore.groupBy({
+        by: ['sound', 'spelling'],
+        where: { userId, languageId, createdAt: { gte: since } },
+        _sum: { occurrences: true, correct: true },
+        _count: { _all: true }
+    });
+
+    return totals
+        .map(total => {
+            const occurrences = total._sum.occurrences || 0;
+            const correct = total._sum.correct || 0;
+            return {
+                sound: total.sound,
+                spelling: total.spelling,
+                occurrences,
+                correct,
+                attempts: total._count._all,
+                accuracy: occurrences ? round2(correct / occurrences) : 1
+            };
+        })
+        .filter(sound => sound.occurrences >= MIN_SOUND_OCCURRENCES && sound.accuracy < 1)
+        .sort((a, b) => a.accuracy - b.accuracy || b.occurrences - a.occurrences)
+        .slice(0, limit);
+};
+
+/**
+ * Get the learner's pronunciation attempts in a language with a weekly accuracy trend
+ */
+export const getPronunciationHistory = async (
+    req: TypedRequestBody<{}> & { query: { languageId?: string; days?: string; limit?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { languageId } = req.query;
+
+        if (!languageId) {
+            res.status(400).json({
+                success: false,
+                message: 'languageId is required'
+            });
+            return;
+        }
+
+        const days = parseDaysParam(req.query.days, DEFAULT_HISTORY_DAYS, MAX_HISTORY_DAYS);
+        const since = new Date(Date.now() - days * DAY_MS);
+        const requestedLimit = parseInt(req.query.limit || '', 10);
+        const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+            ? Math.min(requestedLimit, MAX_HISTORY_LIMIT)
+            : DEFAULT_HISTORY_LIMIT;
+
+        const attempts = await prisma.pronunciationFeedback.findMany({
+            where: { userId, languageId, createdAt: { gte: since } },
+            orderBy: { createdAt: 'desc' },
+            select: {
+                id: true,
+                sentence: true,
+                transcript: true,
+                accuracy: true,
+                wordAccuracy: true,
+                characterAccuracy: true,
+                createdAt: true
+            }
+        });
+
+        const weeks = new Map<string, { attempts: number; total: number }>();
+        for (const attempt of attempts) {
+            const key = weekStartKey(attempt.createdAt);
+            const week = weeks.get(key) || { attempts: 0, total: 0 };
+            week.attempts++;
+            week.total += attempt.accuracy;
+            weeks.set(key, week);
+        }
+
+        const trend = Array.from(weeks.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([weekStart, week]) => ({
+                weekStart,
+                attempts: week.attempts,
+                averageAccuracy: round2(week.total / week.attempts)
+            }));
+
+        const totalAccuracy = attempts.reduce((sum, attempt) => sum + attempt.accuracy, 0);
+
+        res.json({
+            success: true,
+            data: {
+                languageId,
+                days,
+                totalAttempts: attempts.length,
+                averageAccuracy: attempts.length ? round2(totalAccuracy / attempts.length) : null,
+                trend,
+                attempts: attempts.slice(0, limit)
+            }
+        });
+    } catch (error) {
+        console.error('Get pronunciation history error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching pronunciation history'
+        });
+    }
+};
+
+/**
+ * Report the sounds the learner mispronounces most often in a language.
+ * Languages without spelling rules have no sound scores; soundsSupported says so.
+ */
+export const getWeakSounds = async (
+    req: TypedRequestBody<{}> & { query: { languageId?: string; days?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { languageId } = req.query;
+
+        if (!languageId) {
+            res.status(400).json({
+                success: false,
+                message: 'languageId is required'
+            });
+            return;
+        }
+
+        const language = await prisma.language.findUnique({ where: { id: languageId } });
+        if (!language) {
+            res.status(404).json({
+                success: false,
+                message: 'Language not found'
+            });
+            return;
+        }
+
+        const days = parseDaysParam(req.query.days, DEFAULT_HISTORY_DAYS, MAX_HISTORY_DAYS);
+        const sounds = await findWeakSounds(userId, languageId, new Date(Date.now() - days * DAY_MS));
+
+        res.json({
+            success: true,
+            data: {
+                languageId,
+                days,
+                soundsSupported: hasSpellingRules(language.code),
+                minOccurrences: MIN_SOUND_OCCURRENCES,
+                sounds
+            }
+        });
+    } catch (error) {
+        console.error('Get weak sounds error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching weak sounds'
+        });
+    }
+};
+
+/**
+ * Generate sentences that drill the learner's weakest sounds
+ */
+export const generatePracticeSentences = async (req: TypedRequestBody<PracticeSentencesBody>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { languageId } = req.body;
+        const count = Number.isInteger(req.body.count) && req.body.count! > 0
+            ? Math.min(req.body.count!, MAX_PRACTICE_SENTENCES)
+            : 5;
+
+        if (!languageId) {
+            res.status(400).json({
+                success: false,
+                message: 'languageId is required'
+            });
+            return;
+        }
+
+        const language = await prisma.language.findUnique({ where: { id: languageId } });
+        if (!language) {
+            res.status(404).json({
+                success: false,
+                message: 'Language not found'
+            });
+            return;
+        }
+
+        if (!hasSpellingRules(language.code)) {
+            res.status(422).json({
+                success: false,
+                message: `Sound-level pronunciation tracking is not available for ${language.name} yet`
+            });
+            return;
+        }
+
+        const sounds = await findWeakSounds(userId, languageId, new Date(Date.now() - MAX_HISTORY_DAYS * DAY_MS), 5);
+        if (!sounds.length) {
+            res.json({
+                success: true,
+                message: 'No weak sounds yet. Complete a few more pronunciation exercises first.',
+                data: { sounds: [], sentences: [] }
+            });
+            return;
+        }
+
+        try {
+            const sentences = await generateValidatedJSON(
+                'pronunciationPractice',
+                `
+Write ${count} short ${language.name} sentences for pronunciation practice.
+The learner struggles to pronounce these sounds, weakest first: ${sounds.map(s => `/${s.sound}/ spelled "${s.spelling}"`).join(', ')}.
+Each sentence should contain the weak sounds, in those spellings, several times and stay simple enough to read aloud.
+
+Return ONLY JSON:
+{
+  "sentences": [{"text":"","translation":"","targetSounds":[""]}]
+}
+
+Rules:
+- translation is in English
+- targetSounds lists which of the sounds above the sentence practises, as IPA symbols without slashes
+                `.trim(),
+                validatePracticeSentences,
+                1500
+            );
+
+            res.json({
+                success: true,
+                data: { sounds, sentences: sentences.slice(0, count) }
+            });
+        } catch (e) {
+            if (e instanceof LLMValidationError) {
+                res.status(502).json({
+                    success: false,
+                    status: 'generation_failed',
+                    message: 'Practice sentence generation failed: the AI returned invalid output. Please retry.',
+                    errors: e.errors
+                });
+                return;
+            }
+            throw e;
+        }
+    } catch (error) {
+        console.error('Generate practice sentences error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error generating practice sentences'
+        });
+    }
+};
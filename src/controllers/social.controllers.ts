@@ -0,0 +1,342 @@
+import { Response } from 'express';
+import { PrismaClient, Prisma, FollowStatus } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { loadFriendIds, isBlockedBetween, loadFeed } from '../services/social.service';
+import { parsePagination, PaginationQuery } from '../utils/pagination';
+
+const prisma = new PrismaClient();
+
+interface TypedRequestBody<T> extends AuthenticatedRequest {
+    body: T;
+}
+
+// What other learners may see of a user
+const PUBLIC_USER_SELECT = { id: true, fullName: true } as const;
+
+const isUniqueViolation = (error: unknown): boolean =>
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/**
+ * Send a follow request. The other user becomes a friend once they accept it.
+ */
+export const followUser = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const followerId = req.user.id;
+        const { userId: followingId } = req.params;
+
+        if (followingId === followerId) {
+            res.status(400).json({
+                success: false,
+                message: 'You cannot follow yourself'
+            });
+            return;
+        }
+
+        const target = await prisma.user.findUnique({
+            where: { id: followingId },
+            select: { id: true, deactivatedAt: true }
+        });
+        // Blocked users are told the user does not exist, so a block cannot be detected
+        if (!target || target.deactivatedAt || await isBlockedBetween(followerId, followingId)) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        const follow = await prisma.follow.create({
+            data: { followerId, followingId },
+            include: { following: { select: PUBLIC_USER_SELECT } }
+        });
+
+        res.status(201).json({
+            success: true,
+            message: 'Follow request sent',
+            data: follow
+        });
+    } catch (error) {
+        if (isUniqueViolation(error)) {
+            res.status(409).json({
+                success: false,
+                message: 'You already follow or have requested to follow this user'
+            });
+            return;
+        }
+        console.error('Follow user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error following user'
+        });
+    }
+};
+
+// Unfollow a user, or cancel a pending request to them
+export const unfollowUser = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { count } = await prisma.follow.deleteMany({
+            where: { followerId: req.user.id, followingId: req.params.userId }
+        });
+
+        if (!count) {
+            res.status(404).json({
+                success: false,
+                message: 'You do not follow this user'
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'Unfollowed user'
+        });
+    } catch (error) {
+        console.error('Unfollow user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error unfollowing user'
+        });
+    }
+};
+
+// Pending requests sent to and by the user
+export const listFollowRequests = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+
+        const [incoming, outgoing] = await Promise.all([
+            prisma.follow.findMany({
+                where: { followingId: userId, status: FollowStatus.PENDING },
+                orderBy: { createdAt: 'desc' },
+                include: { follower: { select: PUBLIC_USER_SELECT } }
+            }),
+            prisma.follow.findMany({
+                where: { followerId: userId, status: FollowStatus.PENDING },
+                orderBy: { createdAt: 'desc' },
+                include: { following: { select: PUBLIC_USER_SELECT } }
+            })
+        ]);
+
+        res.json({
+            success: true,
+            data: { incoming, outgoing }
+        });
+    } catch (error) {
+        console.error('List follow requests error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching follow requests'
+        });
+    }
+};
+
+export const acceptFollowRequest = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        // Guarded on the status so a request is only accepted once
+        const { count } = await prisma.follow.updateMany({
+            where: { id: req.params.requestId, followingId: req.user.id, status: FollowStatus.PENDING },
+            data: { status: FollowStatus.ACCEPTED, acceptedAt: new Date() }
+        });
+
+        if (!count) {
+            res.status(404).json({
+                success: false,
+                message: 'Follow request not found'
+            });
+            return;
+        }
+
+        const follow = await prisma.follow.findUnique({
+            where: { id: req.params.requestId },
+            include: { follower: { select: PUBLIC_USER_SELECT } }
+        });
+
+        res.json({
+            success: true,
+            message: 'Follow request accepted',
+            data: follow
+        });
+    } catch (error) {
+        console.error('Accept follow request error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error accepting follow request'
+        });
+    }
+};
+
+export const declineFollowRequest = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { count } = await prisma.follow.deleteMany({
+            where: { id: req.params.requestId, followingId: req.user.id, status: FollowStatus.PENDING }
+        });
+
+        if (!count) {
+            res.status(404).json({
+                success: false,
+                message: 'Follow request not found'
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'Follow request declined'
+        });
+    } catch (error) {
+        console.error('Decline follow request error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error declining follow request'
+        });
+    }
+};
+
+export const listFriends = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const friendIds = await loadFriendIds(req.user.id);
+        const friends = await prisma.user.findMany({
+            where: { id: { in: friendIds }, deactivatedAt: null },
+            orderBy: { fullName: 'asc' },
+            select: PUBLIC_USER_SELECT
+        });
+
+        res.json({
+            success: true,
+            data: friends
+        });
+    } catch (error) {
+        console.error('List friends error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching friends'
+        });
+    }
+};
+
+/**
+ * Block a user: removes follows and requests in both directions
+ */
+export const blockUser = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const blockerId = req.user.id;
+        const { userId: blockedId } = req.params;
+
+        if (blockedId === blockerId) {
+            res.status(400).json({
+                success: false,
+                message: 'You cannot block yourself'
+            });
+            return;
+        }
+
+        const target = await prisma.user.findUnique({ where: { id: blockedId }, select: { id: true } });
+        if (!target) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        await prisma.$transaction([
+            prisma.follow.deleteMany({
+                where: {
+                    OR: [
+                        { followerId: blockerId, followingId: blockedId },
+                        { followerId: blockedId, followingId: blockerId }
+                    ]
+                }
+            }),
+            prisma.block.upsert({
+                where: { blockerId_blockedId: { blockerId, blockedId } },
+                update: {},
+                create: { blockerId, blockedId }
+            })
+        ]);
+
+        res.json({
+            success: true,
+            message: 'User blocked'
+        });
+    } catch (error) {
+        console.error('Block user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error blocking user'
+        });
+    }
+};
+
+export const unblockUser = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const { count } = await prisma.block.deleteMany({
+            where: { blockerId: req.user.id, blockedId: req.params.userId }
+        });
+
+        if (!count) {
+            res.status(404).json({
+                success: false,
+                message: 'You have not blocked this user'
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'User unblocked'
+        });
+    } catch (error) {
+        console.error('Unblock user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error unblocking user'
+        });
+    }
+};
+
+export const listBlockedUsers = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const blocks = await prisma.block.findMany({
+            where: { blockerId: req.user.id },
+            orderBy: { createdAt: 'desc' },
+            include: { blocked: { select: PUBLIC_USER_SELECT } }
+        });
+
+        res.json({
+            success: true,
+            data: blocks
+        });
+    } catch (error) {
+        console.error('List blocked users error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching blocked users'
+        });
+    }
+};
+
+/**
+ * Friends' recent lesson completions and achievements, newest first (?page=, ?limit=)
+ */
+export const getFriendsFeed = async (
+    req: TypedRequestBody<{}> & { query: PaginationQuery },
+    res: Response
+): Promise<void> => {
+    try {
+        const { page, limit, skip } = parsePagination(req.query);
+        const friendIds = await loadFriendIds(req.user.id);
+        const items = await loadFeed(friendIds, { limit, skip });
+
+        res.json({
+            success: true,
+            data: { items, page, limit }
+        });
+    } catch (error) {
+        console.error('Friends feed error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching friends feed'
+        });
+    }
+};
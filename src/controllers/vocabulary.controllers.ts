@@ -0,0 +1,302 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import {
+    scheduleReview,
+    addLessonVocabularyToDeck,
+    MATURE_INTERVAL_DAYS
+} from '../services/spaced-repetition.service';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const prisma = new PrismaClient();
+
+interface TypedRequestBody<T> extends AuthenticatedRequest {
+    body: T;
+}
+
+interface ReviewCardBody {
+    grade: number;
+}
+
+const DEFAULT_DUE_LIMIT = 20;
+const MAX_DUE_LIMIT = 100;
+
+const endOfToday = (): Date => {
+    const date = new Date();
+    date.setUTCHours(23, 59, 59, 999);
+    return date;
+};
+
+const startOfToday = (): Date => {
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+    return date;
+};
+
+/**
+ * Get the cards due for review today, most overdue first
+ */
+export const getDueCards = async (
+    req: TypedRequestBody<{}> & { query: { languageId?: string; limit?: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const { languageId } = req.query;
+        const requestedLimit = parseInt(req.query.limit || '', 10);
+        const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+            ? Math.min(requestedLimit, MAX_DUE_LIMIT)
+            : DEFAULT_DUE_LIMIT;
+
+        const where = {
+            userId,
+            dueAt: { lte: endOfToday() },
+            ...(languageId && { languageId })
+        };
+
+        const [cards, totalDue] = await Promise.all([
+            prisma.vocabularyCard.findMany({
+                where,
+                orderBy: { dueAt: 'asc' },
+                take: limit,
+                select: {
+                    id: true,
+                    languageId: true,
+                    lessonId: true,
+                    word: true,
+                    translation: true,
+                    example: true,
+                    repetitions: true,
+                    interval: true,
+                    dueAt: true
+                }
+            }),
+            prisma.vocabularyCard.count({ where })
+        ]);
+
+        res.json({
+            success: true,
+            data: {
+                totalDue,
+                cards
+            }
+        });
+    } catch (error) {
+        console.error('Error fetching due cards:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching due cards'
+        });
+    }
+};
+
+/**
+ * Submit a recall grade (0-5) for a card and reschedule it
+ */
+export const reviewCard = async (
+    req: TypedRequestBody<ReviewCardBody> & { params: { cardId: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const { cardId } = req.params;
+        const { grade } = req.body;
+        const userId = req.user.id;
+
+        if (!Number.isInteger(grade) || grade < 0 || grade > 5) {
+            res.status(400).json({
+                success: false,
+                message: 'grade must be an integer between 0 and 5'
+            });
+            return;
+        }
+
+        const card = await prisma.vocabularyCard.findFirst({
+            where: { id: cardId, userId }
+        });
+
+        if (!card) {
+            res.status(404).json({
+                success: false,
+                message: 'Card not found'
+            });
+            return;
+        }
+
+        const now = new Date();
+        const schedule = scheduleReview(card, grade, now);
+
+        const updatedCard = await prisma.vocabularyCard.update({
+            where: { id: card.id },
+            data: {
+                easeFactor: schedule.easeFactor,
+                interval: schedule.interval,
+                repetitions: schedule.repetitions,
+                dueAt: schedule.dueAt,
+                lastReviewedAt: now,
+                reviews: {
+                    create: {
+                        grade,
+                        interval: schedule.interval,
+                        reviewedAt: now
+                    }
+                }
+            }
+        });
+
+        res.json({
+            success: true,
+            message: 'Review recorded',
+            data: {
+                id: updatedCard.id,
+                word: updatedCard.word,
+                easeFactor: updatedCard.easeFactor,
+                interval: updatedCard.interval,
+                repetitions: updatedCard.repetitions,
+                dueAt: updatedCard.dueAt
+            }
+        });
+    } catch (error) {
+        console.error('Error reviewing card:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error reviewing card'
+        });
+    }
+};
+
+/**
+ * Get deck statistics broken down by language
+ */
+export const getDeckStats = async (req: TypedRequestBody<{}>, res: Response): Promise<void> => {
+    try {
+        const userId = req.user.id;
+        const dueCutoff = endOfToday();
+
+        const [cards, reviewsToday] = await Promise.all([
+            prisma.vocabularyCard.findMany({
+                where: { userId },
+                select: {
+                    languageId: true,
+                    interval: true,
+                    repetitions: true,
+                    easeFactor: true,
+                    dueAt: true,
+                    lastReviewedAt: true,
+                    language: {
+                        select: { name: true }
+                    }
+                }
+            }),
+            prisma.vocabularyReview.findMany({
+                where: {
+                    reviewedAt: { gte: startOfToday() },
+                    card: { userId }
+                },
+                select: {
+                    grade: true,
+                    card: {
+                        select: { languageId: true }
+                    }
+                }
+            })
+        ]);
+
+        const languageMap = new Map();
+
+        for (const card of cards) {
+            if (!languageMap.has(card.languageId)) {
+                languageMap.set(card.languageId, {
+                    languageId: card.languageId,
+                    languageName: card.language.name,
+                    totalCards: 0,
+                    newCards: 0,
+                    learningCards: 0,
+                    matureCards: 0,
+                    dueToday: 0,
+                    reviewedToday: 0,
+                    easeTotal: 0
+                });
+            }
+
+            const stats = languageMap.get(card.languageId);
+            stats.totalCards++;
+            stats.easeTotal += card.easeFactor;
+
+            if (!card.lastReviewedAt) {
+                stats.newCards++;
+            } else if (card.interval >= MATURE_INTERVAL_DAYS) {
+                stats.matureCards++;
+            } else {
+                stats.learningCards++;
+            }
+
+            if (card.dueAt <= dueCutoff) {
+                stats.dueToday++;
+            }
+        }
+
+        for (const review of reviewsToday) {
+            const stats = languageMap.get(review.card.languageId);
+            if (stats) stats.reviewedToday++;
+        }
+
+        const languageBreakdown = Array.from(languageMap.values()).map(({ easeTotal, ...stats }) => ({
+            ...stats,
+            averageEase: Math.round((easeTotal / stats.totalCards) * 100) / 100
+        }));
+
+        res.json({
+            success: true,
+            data: {
+                totalCards: cards.length,
+                dueToday: languageBreakdown.reduce((sum, stats) => sum + stats.dueToday, 0),
+                reviewedToday: reviewsToday.length,
+                languageBreakdown
+            }
+        });
+    } catch (error) {
+        console.error('Error fetching deck stats:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching deck stats'
+        });
+    }
+};
+
+/**
+ * Add an existing lesson's vocabulary to the user's deck
+ */
+export const addLessonToDeck = async (
+    req: TypedRequestBody<{}> & { params: { lessonId: string } },
+    res: Response
+): Promise<void> => {
+    try {
+        const { lessonId } = req.params;
+        const userId = req.user.id;
+
+        const lesson = await prisma.lesson.findUnique({
+            where: { id: lessonId }
+        });
+
+        if (!lesson) {
+            res.status(404).json({
+                success: false,
+                message: 'Lesson not found'
+            });
+            return;
+        }
+
+        const added = await addLessonVocabularyToDeck(userId, lesson);
+
+        res.status(201).json({
+            success: true,
+            message: `${added} new card(s) added to your deck`,
+            data: { added }
+        });
+    } catch (error) {
+        console.error('Error adding lesson vocabulary to deck:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error adding lesson vocabulary to deck'
+        });
+    }
+};
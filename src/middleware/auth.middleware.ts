@@ -1,18 +1,35 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Role } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+// The user attached to the request by authenticateToken
+export interface AuthenticatedUser {
+    id: string;
+    email: string;
+    fullName: string;
+    role: Role;
+    emailVerified: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
 // Extend Express Request type to include user
 declare global {
     namespace Express {
         interface Request {
-            user?: any;
+            user?: AuthenticatedUser;
+            sessionId?: string;
         }
     }
 }
 
+// For handlers mounted behind authenticateToken, where the user is always set
+export interface AuthenticatedRequest extends Request {
+    user: AuthenticatedUser;
+}
+
 export const authenticateToken = async (
     req: Request,
     res: Response,
@@ -34,7 +51,7 @@ export const authenticateToken = async (
         const decoded = jwt.verify(
             token,
             process.env.JWT_SECRET || 'your-secret-key'
-        ) as { userId: string };
+        ) as { userId: string; tokenVersion?: number; sessionId?: string };
 
         // Get user from database
         const user = await prisma.user.findUnique({
@@ -43,8 +60,12 @@ export const authenticateToken = async (
                 id: true,
                 email: true,
                 fullName: true,
+                role: true,
+                emailVerified: true,
                 createdAt: true,
-                updatedAt: true
+                updatedAt: true,
+                tokenVersion: true,
+                deactivatedAt: true
             }
         });
 
@@ -55,8 +76,42 @@ export const authenticateToken = async (
             });
         }
 
+        if (user.deactivatedAt) {
+            return res.status(403).json({
+                success: false,
+                message: 'This account has been deactivated'
+            });
+        }
+
+        // Tokens issued before the last password change are no longer valid
+        if ((decoded.tokenVersion ?? 0) !== user.tokenVersion) {
+            return res.status(401).json({
+                success: false,
+                message: 'Token has been revoked, please log in again'
+            });
+        }
+
+        // Session-bound tokens stop working as soon as the session is revoked.
+        // Tokens without a session (issued before sessions existed) only rely on expiry and tokenVersion.
+        if (decoded.sessionId) {
+            const session = await prisma.session.findUnique({
+                where: { id: decoded.sessionId },
+                select: { userId: true, revokedAt: true, expiresAt: true }
+            });
+
+            if (!session || session.userId !== user.id || session.revokedAt || session.expiresAt < new Date()) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Session has been revoked, please log in again'
+                });
+            }
+
+            req.sessionId = decoded.sessionId;
+        }
+
         // Attach user to request object
-        req.user = user;
+        const { tokenVersion: _, deactivatedAt: __, ...authenticatedUser } = user;
+        req.user = authenticatedUser;
         next();
     } catch (error) {
         if (error instanceof jwt.JsonWebTokenError) {
@@ -73,3 +128,68 @@ export const authenticateToken = async (
         });
     }
 };
+
+/**
+ * For public routes that show more to signed-in users: anonymous requests pass through
+ * without req.user, requests with a token are authenticated as usual
+ */
+export const optionalAuth = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): any => {
+    if (!req.headers['authorization']) {
+        return next();
+    }
+
+    return authenticateToken(req, res, next);
+};
+
+/**
+ * Use after authenticateToken on routes that unverified accounts may not use
+ * (leaderboard submission, endpoints that spend Gemini quota)
+ */
+export const requireVerifiedEmail = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): any => {
+    if (!req.user?.emailVerified) {
+        return res.status(403).json({
+            success: false,
+            message: 'Please verify your email address to use this feature'
+        });
+    }
+
+    next();
+};
+
+/**
+ * Use after authenticateToken to limit a route to the given roles.
+ * Admins may use every role-restricted route.
+ */
+export const requireRole = (...roles: Role[]) => (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): any => {
+    const role = req.user?.role;
+
+    if (!role || (role !== Role.ADMIN && !roles.includes(role))) {
+        return res.status(403).json({
+            success: false,
+            message: 'You do not have permission to perform this action'
+        });
+    }
+
+    next();
+};
+
+/**
+ * Mount a handler that takes an AuthenticatedRequest after authenticateToken,
+ * which has already rejected requests without a user. The handler may narrow
+ * the request further with its own body, params and query types.
+ */
+export const withUser = <R extends AuthenticatedRequest>(
+    handler: (req: R, res: Response) => Promise<any>
+) => (req: Request, res: Response): Promise<any> => handler(req as R, res);
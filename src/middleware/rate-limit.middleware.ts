@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface RateLimitOptions {
+    windowMs: number;
+    max: number;
+    // Derive the bucket key from the request; return null to skip limiting
+    keyGenerator: (req: Request) => string | null;
+    message?: string;
+}
+
+/**
+ * In-memory fixed-window rate limiter.
+ * Counters live in this process only, which is enough for a single API instance.
+ */
+export const createRateLimiter = ({ windowMs, max, keyGenerator, message }: RateLimitOptions) => {
+    const hits = new Map<string, { count: number; resetAt: number }>();
+
+    return (req: Request, res: Response, next: NextFunction): any => {
+        const key = keyGenerator(req);
+        if (!key) return next();
+
+        const now = Date.now();
+
+        // Drop expired buckets so the map does not grow forever
+        if (hits.size > 10000) {
+            for (const [k, bucket] of hits) {
+                if (bucket.resetAt <= now) hits.delete(k);
+            }
+        }
+
+        let bucket = hits.get(key);
+        if (!bucket || bucket.resetAt <= now) {
+            bucket = { count: 0, resetAt: now + windowMs };
+            hits.set(key, bucket);
+        }
+
+        bucket.count++;
+
+        if (bucket.count > max) {
+            res.setHeader('Retry-After', Math.ceil((bucket.resetAt - now) / 1000).toString());
+            return res.status(429).json({
+                success: false,
+                message: message || 'Too many requests, please try again later'
+            });
+        }
+
+        next();
+    };
+};
+
+/**
+ * Rate limit key based on the normalized `email` field of the request body
+ */
+export const emailKey = (req: Request): string | null => {
+    const email = req.body?.email;
+    return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+};
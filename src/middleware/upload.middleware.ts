@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { MAX_AUDIO_BYTES } from '../services/audio.service';
+
+const audioUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_AUDIO_BYTES, files: 1 }
+}).single('audio');
+
+/**
+ * Accept an optional multipart "audio" file; JSON requests pass through untouched.
+ * Upload errors are answered here so handlers only see valid requests.
+ */
+export const acceptAudioUpload = (req: Request, res: Response, next: NextFunction): void => {
+    audioUpload(req, res, (error: unknown) => {
+        if (!error) return next();
+
+        if (error instanceof multer.MulterError) {
+            const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+            res.status(tooLarge ? 413 : 400).json({
+                success: false,
+                error: tooLarge
+                    ? `Audio must be at most ${Math.round(MAX_AUDIO_BYTES / 1024 / 1024)} MB`
+                    : `Invalid upload: ${error.message}`
+            });
+            return;
+        }
+
+        next(error);
+    });
+};
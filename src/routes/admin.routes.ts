@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { Role } from '@prisma/client';
+import {
+    listUsers,
+    updateUserRole,
+    deactivateUser,
+    reactivateUser,
+    listCatalogLanguages,
+    createLanguage,
+    updateLanguage,
+    deleteLanguage,
+    listLessons,
+    updateLesson,
+    deleteLesson,
+    listFlaggedQuizzes,
+    dismissQuizFlag,
+    updateQuiz,
+    deleteQuiz,
+    deleteLeaderboardEntry,
+    resetLeaderboard
+} from '../controllers/admin.controllers';
+import { authenticateToken, requireRole, withUser } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Admin Routes
+ * Base path: /api/admin
+ */
+
+router.use(authenticateToken);
+
+// Content moderation (content editors and admins)
+router.get('/lessons', requireRole(Role.CONTENT_EDITOR), withUser(listLessons));
+router.put('/lessons/:lessonId', requireRole(Role.CONTENT_EDITOR), withUser(updateLesson));
+router.delete('/lessons/:lessonId', requireRole(Role.CONTENT_EDITOR), withUser(deleteLesson));
+router.get('/quizzes/flagged', requireRole(Role.CONTENT_EDITOR), withUser(listFlaggedQuizzes));
+router.delete('/quizzes/:quizId/flag', requireRole(Role.CONTENT_EDITOR), withUser(dismissQuizFlag));
+router.put('/quizzes/:quizId', requireRole(Role.CONTENT_EDITOR), withUser(updateQuiz));
+router.delete('/quizzes/:quizId', requireRole(Role.CONTENT_EDITOR), withUser(deleteQuiz));
+
+// Language catalog
+router.get('/languages', requireRole(Role.ADMIN), withUser(listCatalogLanguages));
+router.post('/languages', requireRole(Role.ADMIN), withUser(createLanguage));
+router.put('/languages/:languageId', requireRole(Role.ADMIN), withUser(updateLanguage));
+router.delete('/languages/:languageId', requireRole(Role.ADMIN), withUser(deleteLanguage));
+
+// Leaderboard
+router.delete('/leaderboard/entries', requireRole(Role.ADMIN), withUser(resetLeaderboard));
+router.delete('/leaderboard/entries/:entryId', requireRole(Role.ADMIN), withUser(deleteLeaderboardEntry));
+
+// Users
+router.get('/users', requireRole(Role.ADMIN), withUser(listUsers));
+router.put('/users/:userId/role', requireRole(Role.ADMIN), withUser(updateUserRole));
+router.post('/users/:userId/deactivate', requireRole(Role.ADMIN), withUser(deactivateUser));
+router.post('/users/:userId/reactivate', requireRole(Role.ADMIN), withUser(reactivateUser));
+
+export default router;
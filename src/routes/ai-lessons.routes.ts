@@ -5,9 +5,17 @@ import {
     generateConversationPrompt,
     getPronunciationFeedback,
     getLessonContent,
-    getConversationResponse
+    getConversationResponse,
+    submitQuizAttempt,
+    regenerateQuiz,
+    flagQuiz,
+    submitExerciseAnswer,
+    getExerciseAudio,
+    getLessonCacheMetrics
 } from '../controllers/ai-lessons.controllers';
-import { authenticateToken } from '../middleware/auth.middleware';
+import { Role } from '@prisma/client';
+import { authenticateToken, requireVerifiedEmail, requireRole, withUser } from '../middleware/auth.middleware';
+import { acceptAudioUpload } from '../middleware/upload.middleware';
 
 const router = Router();
 
@@ -16,12 +24,19 @@ const router = Router();
  * Base path: /api/ai-lessons
  */
 
-// All routes are protected
-router.post('/generate-lesson', authenticateToken, generateLesson as any);
-router.post('/generate-quiz', authenticateToken, generateQuiz as any);
-router.get('/lesson/:lessonId', authenticateToken, getLessonContent as any);
-router.post('/conversation-prompt', authenticateToken, generateConversationPrompt as any);
-router.post('/conversation-response', authenticateToken, getConversationResponse as any);
-router.post('/pronunciation-feedback', authenticateToken, getPronunciationFeedback as any);
+// All routes are protected; generation endpoints spend Gemini quota and need a verified email
+router.post('/generate-lesson', authenticateToken, requireVerifiedEmail, withUser(generateLesson));
+router.post('/generate-quiz', authenticateToken, requireVerifiedEmail, withUser(generateQuiz));
+router.get('/lesson/:lessonId', authenticateToken, withUser(getLessonContent));
+router.get('/cache-stats', authenticateToken, requireRole(Role.ADMIN), withUser(getLessonCacheMetrics));
+router.post('/quiz/:quizId/attempts', authenticateToken, withUser(submitQuizAttempt));
+router.post('/quiz/:quizId/flag', authenticateToken, withUser(flagQuiz));
+// Learners may only regenerate empty quizzes; the controller checks
+router.post('/lesson/:lessonId/quiz/regenerate', authenticateToken, requireVerifiedEmail, withUser(regenerateQuiz));
+router.post('/exercises/:exerciseId/answers', authenticateToken, withUser(submitExerciseAnswer));
+router.get('/exercises/:exerciseId/audio', authenticateToken, withUser(getExerciseAudio));
+router.post('/conversation-prompt', authenticateToken, requireVerifiedEmail, withUser(generateConversationPrompt));
+router.post('/conversation-response', authenticateToken, requireVerifiedEmail, withUser(getConversationResponse));
+router.post('/pronunciation-feedback', authenticateToken, requireVerifiedEmail, acceptAudioUpload, withUser(getPronunciationFeedback));
 
 export default router; 
\ No newline at end of file
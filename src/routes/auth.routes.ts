@@ -4,12 +4,30 @@ import {
     login, 
     getProfile, 
     updateProfile, 
-    changePassword 
+    changePassword,
+    forgotPassword,
+    resetPassword,
+    verifyEmail,
+    resendVerification,
+    refresh,
+    logout,
+    getSessions,
+    deleteSession,
+    deleteAllSessions
 } from '../controllers/auth.controllers';
-import { authenticateToken } from '../middleware/auth.middleware';
+import { authenticateToken, withUser } from '../middleware/auth.middleware';
+import { createRateLimiter, emailKey } from '../middleware/rate-limit.middleware';
 
 const router = Router();
 
+// At most 3 reset emails per address every 15 minutes
+const forgotPasswordLimiter = createRateLimiter({
+    windowMs: 15 * 60 * 1000,
+    max: 3,
+    keyGenerator: emailKey,
+    message: 'Too many password reset requests for this email, please try again later'
+});
+
 /**
  * Authentication Routes
  * Base path: /api/auth
@@ -18,52 +36,25 @@ const router = Router();
 // Public Authentication Routes
 router.post('/register', signup);           // Register new user
 router.post('/login', login);               // Login user
-router.post('/logout', authenticateToken, (_req, res) => {
-    // Since we're using JWT, we don't need server-side logout
-    // Client should remove the token
-    res.json({
-        success: true,
-        message: 'Logged out successfully'
-    });
-});
-
-// User Profile Routes (Protected)
-router.get('/me', authenticateToken, getProfile);                    // Get current user profile
-router.put('/me', authenticateToken, updateProfile);                // Update user profile
-router.put('/me/password', authenticateToken, changePassword);      // Change password
+router.post('/refresh', refresh);           // Rotate refresh token, get new access token
+router.post('/logout', authenticateToken, logout);  // Revoke the current session
 
-// Password Management Routes (Protected)
-router.post('/forgot-password', (_req, res) => {
-    // TODO: Implement forgot password functionality
-    res.status(501).json({
-        success: false,
-        message: 'Forgot password functionality not implemented yet'
-    });
-});
+// Session Management Routes (Protected)
+router.get('/sessions', authenticateToken, withUser(getSessions));                    // List active sessions
+router.delete('/sessions', authenticateToken, withUser(deleteAllSessions));           // Revoke all sessions
+router.delete('/sessions/:sessionId', authenticateToken, withUser(deleteSession));    // Revoke one session
 
-router.post('/reset-password', (_req, res) => {
-    // TODO: Implement reset password functionality
-    res.status(501).json({
-        success: false,
-        message: 'Reset password functionality not implemented yet'
-    });
-});
+// User Profile Routes (Protected)
+router.get('/me', authenticateToken, withUser(getProfile));                    // Get current user profile
+router.put('/me', authenticateToken, withUser(updateProfile));                // Update user profile
+router.put('/me/password', authenticateToken, withUser(changePassword));      // Change password
 
-// Email Verification Routes (Protected)
-router.post('/verify-email', (_req, res) => {
-    // TODO: Implement email verification functionality
-    res.status(501).json({
-        success: false,
-        message: 'Email verification functionality not implemented yet'
-    });
-});
+// Password Management Routes (Public)
+router.post('/forgot-password', forgotPasswordLimiter, forgotPassword);   // Email a single-use reset link
+router.post('/reset-password', resetPassword);                           // Set a new password with the emailed token
 
-router.post('/resend-verification', authenticateToken, (_req, res) => {
-    // TODO: Implement resend verification email functionality
-    res.status(501).json({
-        success: false,
-        message: 'Resend verification email functionality not implemented yet'
-    });
-});
+// Email Verification Routes
+router.post('/verify-email', verifyEmail);                                      // Confirm email with the emailed token
+router.post('/resend-verification', authenticateToken, withUser(resendVerification));    // Re-send the link (with cooldown)
 
 export default router;
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import {
+    startConversation,
+    listConversations,
+    getConversation,
+    sendConversationMessage,
+    resumeConversation,
+    endConversation,
+    getErrorCategoryStats
+} from '../controllers/conversation.controllers';
+import { authenticateToken, requireVerifiedEmail, withUser } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Conversation Session Routes
+ * Base path: /api/conversations
+ */
+
+// All routes are protected; the ones that call the AI require a verified email
+router.post('/', authenticateToken, withUser(startConversation));
+router.get('/', authenticateToken, withUser(listConversations));
+router.get('/error-categories', authenticateToken, withUser(getErrorCategoryStats));
+router.get('/:sessionId', authenticateToken, withUser(getConversation));
+router.post('/:sessionId/messages', authenticateToken, requireVerifiedEmail, withUser(sendConversationMessage));
+router.post('/:sessionId/resume', authenticateToken, withUser(resumeConversation));
+router.post('/:sessionId/end', authenticateToken, requireVerifiedEmail, withUser(endConversation));
+
+export default router;
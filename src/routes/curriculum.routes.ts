@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import {
+    listCourses,
+    getCourse,
+    createCourse,
+    updateCourse,
+    deleteCourse,
+    createUnit,
+    updateUnit,
+    deleteUnit,
+    setUnitLessons,
+    setLessonPrerequisites,
+    getNextLesson
+} from '../controllers/curriculum.controllers';
+import { Role } from '@prisma/client';
+import { authenticateToken, requireRole, withUser } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Curriculum Routes
+ * Base path: /api/curriculum
+ */
+
+// Learning path
+router.get('/next', authenticateToken, withUser(getNextLesson));
+router.get('/courses', authenticateToken, withUser(listCourses));
+router.get('/courses/:courseId', authenticateToken, withUser(getCourse));
+
+// Curriculum management (content editors and admins)
+router.post('/courses', authenticateToken, requireRole(Role.CONTENT_EDITOR), withUser(createCourse));
+router.put('/courses/:courseId', authenticateToken, requireRole(Role.CONTENT_EDITOR), withUser(updateCourse));
+router.delete('/courses/:courseId', authenticateToken, requireRole(Role.CONTENT_EDITOR), withUser(deleteCourse));
+router.post('/courses/:courseId/units', authenticateToken, requireRole(Role.CONTENT_EDITOR), withUser(createUnit));
+router.put('/units/:unitId', authenticateToken, requireRole(Role.CONTENT_EDITOR), withUser(updateUnit));
+router.delete('/units/:unitId', authenticateToken, requireRole(Role.CONTENT_EDITOR), withUser(deleteUnit));
+router.put('/units/:unitId/lessons', authenticateToken, requireRole(Role.CONTENT_EDITOR), withUser(setUnitLessons));
+router.put('/lessons/:lessonId/prerequisites', authenticateToken, requireRole(Role.CONTENT_EDITOR), withUser(setLessonPrerequisites));
+
+export default router;
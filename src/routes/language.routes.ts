@@ -7,20 +7,20 @@ import {
     removeUserLanguage,
     getLanguageById
 } from '../controllers/language.controllers';
-import { authenticateToken } from '../middleware/auth.middleware';
+import { authenticateToken, withUser } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // Public routes
-router.get('/list', getAllLanguages as any);
+router.get('/list', getAllLanguages);
 
 // Protected routes
-router.get('/my-languages', authenticateToken, getUserLanguages as any);
-router.post('/add', authenticateToken, addUserLanguage as any);
-router.put('/level', authenticateToken, updateLanguageLevel as any);
-router.delete('/:languageId', authenticateToken, removeUserLanguage as any);
+router.get('/my-languages', authenticateToken, withUser(getUserLanguages));
+router.post('/add', authenticateToken, withUser(addUserLanguage));
+router.put('/level', authenticateToken, withUser(updateLanguageLevel));
+router.delete('/:languageId', authenticateToken, withUser(removeUserLanguage));
 
 // Put dynamic routes last to avoid conflicts
-router.get('/:id', getLanguageById as any);
+router.get('/:id', getLanguageById);
 
 export default router; 
\ No newline at end of file
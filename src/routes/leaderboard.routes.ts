@@ -6,17 +6,17 @@ import {
     getLanguageLeaderboard,
     getUserLeaderboardStats
 } from '../controllers/leaderboard.controllers';
-import { authenticateToken } from '../middleware/auth.middleware';
+import { authenticateToken, optionalAuth, requireVerifiedEmail, withUser } from '../middleware/auth.middleware';
 
 const router = Router();
 
-// Public endpoints
-router.get('/global', getGlobalLeaderboard);
-router.get('/quiz/:quizId', getQuizLeaderboard);
-router.get('/language/:languageId', getLanguageLeaderboard);
+// Public endpoints; signed-in callers also get their own rank
+router.get('/global', optionalAuth, getGlobalLeaderboard);
+router.get('/quiz/:quizId', optionalAuth, getQuizLeaderboard);
+router.get('/language/:languageId', optionalAuth, getLanguageLeaderboard);
 
 // Protected endpoints
-router.post('/entry', authenticateToken, addLeaderboardEntry as any);
-router.get('/user-stats', authenticateToken, getUserLeaderboardStats as any);
+router.post('/entry', authenticateToken, requireVerifiedEmail, withUser(addLeaderboardEntry));
+router.get('/user-stats', authenticateToken, withUser(getUserLeaderboardStats));
 
 export default router; 
\ No newline at end of file
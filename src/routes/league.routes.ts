@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { getCurrentLeague, getLeagueHistory } from '../controllers/league.controllers';
+import { authenticateToken, withUser } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * League Routes
+ * Base path: /api/leagues
+ *
+ * Weeks are closed by `npm run leagues:close`, not through the API
+ */
+
+router.use(authenticateToken);
+
+router.get('/current', withUser(getCurrentLeague));
+router.get('/history', withUser(getLeagueHistory));
+
+export default router;
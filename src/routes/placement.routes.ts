@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+    startPlacementTest,
+    answerPlacementQuestion,
+    getPlacementTest,
+    listPlacementTests
+} from '../controllers/placement.controllers';
+import { authenticateToken, requireVerifiedEmail, withUser } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Placement Test Routes
+ * Base path: /api/placement
+ */
+
+// All routes are protected; starting a test generates questions and needs a verified email
+router.get('/', authenticateToken, withUser(listPlacementTests));
+router.post('/start', authenticateToken, requireVerifiedEmail, withUser(startPlacementTest));
+router.get('/:testId', authenticateToken, withUser(getPlacementTest));
+router.post('/:testId/answers', authenticateToken, withUser(answerPlacementQuestion));
+
+export default router;
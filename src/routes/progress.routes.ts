@@ -3,16 +3,24 @@ import {
     getProgressDashboard,
     updateLessonProgress,
     getLanguageProgress,
-    updateQuizProgress
+    updateQuizProgress,
+    getActivityCalendar,
+    getProgressSettings,
+    updateProgressSettings,
+    getAchievements
 } from '../controllers/progress.controllers';
-import { authenticateToken } from '../middleware/auth.middleware';
+import { authenticateToken, withUser } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // All routes are protected
-router.get('/dashboard', authenticateToken, getProgressDashboard as any);
-router.get('/language/:languageId', authenticateToken, getLanguageProgress as any);
-router.post('/lesson', authenticateToken, updateLessonProgress as any);
-router.post('/quiz', authenticateToken, updateQuizProgress as any);
+router.get('/dashboard', authenticateToken, withUser(getProgressDashboard));
+router.get('/language/:languageId', authenticateToken, withUser(getLanguageProgress));
+router.post('/lesson', authenticateToken, withUser(updateLessonProgress));
+router.post('/quiz', authenticateToken, withUser(updateQuizProgress));
+router.get('/activity', authenticateToken, withUser(getActivityCalendar));
+router.get('/settings', authenticateToken, withUser(getProgressSettings));
+router.put('/settings', authenticateToken, withUser(updateProgressSettings));
+router.get('/achievements', authenticateToken, withUser(getAchievements));
 
 export default router; 
\ No newline at end of file
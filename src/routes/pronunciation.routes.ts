@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import {
+    getPronunciationHistory,
+    getWeakSounds,
+    generatePracticeSentences
+} from '../controllers/pronunciation.controllers';
+import { authenticateToken, requireVerifiedEmail, withUser } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Pronunciation Progress Routes
+ * Base path: /api/pronunciation
+ */
+
+// All routes are protected; generating sentences calls the AI and needs a verified email
+router.get('/history', authenticateToken, withUser(getPronunciationHistory));
+router.get('/weak-sounds', authenticateToken, withUser(getWeakSounds));
+router.post('/practice-sentences', authenticateToken, requireVerifiedEmail, withUser(generatePracticeSentences));
+
+export default router;
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import {
+    followUser,
+    unfollowUser,
+    listFollowRequests,
+    acceptFollowRequest,
+    declineFollowRequest,
+    listFriends,
+    blockUser,
+    unblockUser,
+    listBlockedUsers,
+    getFriendsFeed
+} from '../controllers/social.controllers';
+import { authenticateToken, requireVerifiedEmail, withUser } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Social Routes
+ * Base path: /api/social
+ */
+
+router.use(authenticateToken);
+
+// Sending follow requests needs a verified email to keep spam accounts out
+router.post('/follow/:userId', requireVerifiedEmail, withUser(followUser));
+router.delete('/follow/:userId', withUser(unfollowUser));
+
+router.get('/requests', withUser(listFollowRequests));
+router.post('/requests/:requestId/accept', withUser(acceptFollowRequest));
+router.post('/requests/:requestId/decline', withUser(declineFollowRequest));
+
+router.get('/friends', withUser(listFriends));
+router.get('/feed', withUser(getFriendsFeed));
+
+router.get('/blocks', withUser(listBlockedUsers));
+router.post('/block/:userId', withUser(blockUser));
+router.delete('/block/:userId', withUser(unblockUser));
+
+export default router;
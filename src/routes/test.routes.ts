@@ -1,10 +0,0 @@
-import { Router } from "express";
-
-//import { deleteLesson } from "../controllers/ai-lessons.controllers";
-
-const router = Router();
-
-// Route to delete a lesson by ID
-//router.delete("/lesson/:lessonId", deleteLesson as any);
-
-export default router;
\ No newline at end of file
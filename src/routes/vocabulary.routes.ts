@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+    getDueCards,
+    reviewCard,
+    getDeckStats,
+    addLessonToDeck
+} from '../controllers/vocabulary.controllers';
+import { authenticateToken, withUser } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Vocabulary Review Routes
+ * Base path: /api/vocabulary
+ */
+
+// All routes are protected
+router.get('/due', authenticateToken, withUser(getDueCards));
+router.get('/stats', authenticateToken, withUser(getDeckStats));
+router.post('/cards/:cardId/review', authenticateToken, withUser(reviewCard));
+router.post('/lessons/:lessonId', authenticateToken, withUser(addLessonToDeck));
+
+export default router;
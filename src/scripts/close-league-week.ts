@@ -0,0 +1,30 @@
+/**
+ * Close a finished league week: rank every cohort, then promote and relegate.
+ *
+ * Usage: npm run leagues:close [-- YYYY-MM-DD]
+ * Defaults to last week. The date must be the Monday a league week starts on.
+ * Safe to run again for the same week; cohorts that are already closed are skipped.
+ */
+import dotenv from 'dotenv';
+import { closeLeagueWeek } from '../services/league.service';
+import { addDaysToKey, weekStartKey } from '../utils/dates';
+
+dotenv.config();
+
+const main = async (): Promise<void> => {
+    const weekStart = process.argv[2] || addDaysToKey(weekStartKey(new Date()), -7);
+    const summary = await closeLeagueWeek(weekStart);
+
+    console.log(
+        `Closed ${summary.cohorts} cohort(s) for the week of ${summary.weekStart}: `
+        + `${summary.promoted} promoted, ${summary.relegated} relegated, ${summary.stayed} stayed`
+    );
+};
+
+main()
+    .catch(error => {
+        console.error('Closing league week failed:', error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    })
+    // The services' Prisma clients would otherwise keep the process alive
+    .finally(() => process.exit());
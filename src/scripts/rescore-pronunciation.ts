@@ -0,0 +1,51 @@
+/**
+ * Rebuild the per-sound scores of past pronunciation attempts from their stored transcripts.
+ *
+ * Usage: npm run pronunciation:rescore
+ * Attempts that already have sound scores, have no transcript or are in a language without
+ * spelling rules are skipped, so the script is safe to run again.
+ */
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { scorePronunciation } from '../services/pronunciation-scoring.service';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const main = async (): Promise<void> => {
+    const attempts = await prisma.pronunciationFeedback.findMany({
+        where: { transcript: { not: null }, languageId: { not: null }, sounds: { none: {} } },
+        select: { id: true, userId: true, languageId: true, sentence: true, transcript: true, createdAt: true, language: { select: { code: true } } }
+    });
+
+    let rescored = 0;
+    for (const attempt of attempts) {
+        const { sounds } = scorePronunciation(attempt.sentence, attempt.transcript!, attempt.language!.code);
+        if (!sounds?.length) continue;
+
+        await prisma.pronunciationSoundScore.createMany({
+            data: sounds.map(s => ({
+                feedbackId: attempt.id,
+                userId: attempt.userId,
+                languageId: attempt.languageId!,
+                sound: s.sound,
+                spelling: s.spelling,
+                occurrences: s.occurrences,
+                correct: s.correct,
+                // Reports filter by date, so the scores keep the date of the attempt
+                createdAt: attempt.createdAt
+            }))
+        });
+        rescored++;
+    }
+
+    console.log(`Rescored ${rescored} of ${attempts.length} pronunciation attempt(s) without sound scores`);
+};
+
+main()
+    .catch(error => {
+        console.error('Rescoring pronunciation failed:', error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,84 @@
+/**
+ * Learner statistics achievements are measured against. Each one has a loader in
+ * achievement.service.ts.
+ */
+export type AchievementMetric =
+    | 'lessonsCompleted'
+    | 'perfectQuizzes'
+    | 'longestStreak'
+    | 'wordsMastered'
+    | 'quizPodiums'
+    | 'totalXp';
+
+export interface AchievementRule {
+    // Stable identifier stored with each unlock; never rename a released key
+    key: string;
+    title: string;
+    description: string;
+    metric: AchievementMetric;
+    // Unlocked once the metric reaches this value
+    threshold: number;
+}
+
+/**
+ * Every achievement a learner can unlock. Adding one only takes a new entry here
+ * (and a metric loader if it measures something new).
+ */
+export const ACHIEVEMENTS: AchievementRule[] = [
+    {
+        key: 'first-lesson',
+        title: 'First Steps',
+        description: 'Complete your first lesson',
+        metric: 'lessonsCompleted',
+        threshold: 1
+    },
+    {
+        key: 'ten-lessons',
+        title: 'Steady Learner',
+        description: 'Complete 10 lessons',
+        metric: 'lessonsCompleted',
+        threshold: 10
+    },
+    {
+        key: 'first-perfect-quiz',
+        title: 'Flawless',
+        description: 'Score 100% on a quiz',
+        metric: 'perfectQuizzes',
+        threshold: 1
+    },
+    {
+        key: 'streak-7',
+        title: 'On Fire',
+        description: 'Keep a 7-day streak',
+        metric: 'longestStreak',
+        threshold: 7
+    },
+    {
+        key: 'streak-30',
+        title: 'Unstoppable',
+        description: 'Keep a 30-day streak',
+        metric: 'longestStreak',
+        threshold: 30
+    },
+    {
+        key: 'words-100',
+        title: 'Wordsmith',
+        description: 'Master 100 vocabulary words',
+        metric: 'wordsMastered',
+        threshold: 100
+    },
+    {
+        key: 'quiz-podium',
+        title: 'On the Podium',
+        description: 'Reach the top 3 of a quiz leaderboard',
+        metric: 'quizPodiums',
+        threshold: 1
+    },
+    {
+        key: 'xp-1000',
+        title: 'XP Collector',
+        description: 'Earn 1,000 XP',
+        metric: 'totalXp',
+        threshold: 1000
+    }
+];
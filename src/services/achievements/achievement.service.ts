@@ -0,0 +1,136 @@
+import { PrismaClient } from '@prisma/client';
+import { ACHIEVEMENTS, AchievementMetric, AchievementRule } from './achievement.rules';
+import { loadStreak } from '../activity.service';
+import { MATURE_INTERVAL_DAYS } from '../spaced-repetition.service';
+
+const prisma = new PrismaClient();
+
+// Quiz leaderboard positions that count as a podium finish
+const PODIUM_SIZE = 3;
+
+export interface UnlockedAchievement {
+    key: string;
+    title: string;
+    description: string;
+    unlockedAt: Date;
+}
+
+const METRIC_LOADERS: Record<AchievementMetric, (userId: string) => Promise<number>> = {
+    lessonsCompleted: userId => prisma.learningProgress.count({ where: { userId, completed: true } }),
+
+    perfectQuizzes: userId => prisma.quizAttempt.count({ where: { userId, score: 100 } }),
+
+    longestStreak: async userId => {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+        return user ? (await loadStreak(userId, user.timezone)).longest : 0;
+    },
+
+    wordsMastered: userId =>
+        prisma.vocabularyCard.count({ where: { userId, interval: { gte: MATURE_INTERVAL_DAYS } } }),
+
+    // Quizzes where fewer than PODIUM_SIZE entries rank ahead of the user's (same order as the quiz leaderboard)
+    quizPodiums: async userId => {
+        const [{ podiums }] = await prisma.$queryRaw<{ podiums: bigint }[]>`
+            SELECT COUNT(*) AS "podiums"
+            FROM "LeaderboardEntry" le
+            WHERE le."userId" = ${userId}
+              AND (
+                SELECT COUNT(*)
+                FROM "LeaderboardEntry" other
+                WHERE other."quizId" = le."quizId"
+                  AND (
+                    other."score" > le."score"
+                    OR (other."score" = le."score"
+                        AND COALESCE(other."timeTaken", 2147483647) < COALESCE(le."timeTaken", 2147483647))
+                  )
+              ) < ${PODIUM_SIZE}
+        `;
+        return Number(podiums);
+    },
+
+    totalXp: async userId => {
+        const { _sum } = await prisma.activityEvent.aggregate({ where: { userId }, _sum: { xp: true } });
+        return _sum.xp ?? 0;
+    }
+};
+
+const loadMetrics = async (userId: string, rules: AchievementRule[]): Promise<Map<AchievementMetric, number>> => {
+    const metrics = [...new Set(rules.map(rule => rule.metric))];
+    const values = await Promise.all(metrics.map(metric => METRIC_LOADERS[metric](userId)));
+    return new Map(metrics.map((metric, index) => [metric, values[index]]));
+};
+
+const toUnlocked = (rule: AchievementRule, unlockedAt: Date): UnlockedAchievement => ({
+    key: rule.key,
+    title: rule.title,
+    description: rule.description,
+    unlockedAt
+});
+
+const unlockEarned = async (
+    userId: string,
+    pending: AchievementRule[],
+    metrics: Map<AchievementMetric, number>
+): Promise<UnlockedAchievement[]> => {
+    const earned = pending.filter(rule => (metrics.get(rule.metric) ?? 0) >= rule.threshold);
+    if (!earned.length) return [];
+
+    const unlockedAt = new Date();
+    await prisma.userAchievement.createMany({
+        data: earned.map(rule => ({ userId, achievementKey: rule.key, unlockedAt })),
+        skipDuplicates: true
+    });
+    return earned.map(rule => toUnlocked(rule, unlockedAt));
+};
+
+/**
+ * Unlock every achievement the user has newly earned and return those.
+ * Like activity tracking, this never fails the request it runs in: errors are logged
+ * and nothing is returned.
+ */
+export const evaluateAchievements = async (userId: string): Promise<UnlockedAchievement[]> => {
+    try {
+        const unlocked = await prisma.userAchievement.findMany({
+            where: { userId },
+            select: { achievementKey: true }
+        });
+        const unlockedKeys = new Set(unlocked.map(entry => entry.achievementKey));
+        const pending = ACHIEVEMENTS.filter(rule => !unlockedKeys.has(rule.key));
+        if (!pending.length) return [];
+
+        return await unlockEarned(userId, pending, await loadMetrics(userId, pending));
+    } catch (error) {
+        console.error('Evaluating achievements failed:', error);
+        return [];
+    }
+};
+
+/**
+ * Every achievement with the user's progress towards it, after unlocking any newly earned ones
+ */
+export const listAchievements = async (userId: string) => {
+    const unlocked = await prisma.userAchievement.findMany({ where: { userId } });
+    const unlockedAt = new Map(unlocked.map(entry => [entry.achievementKey, entry.unlockedAt]));
+
+    const metrics = await loadMetrics(userId, ACHIEVEMENTS);
+    const newlyUnlocked = await unlockEarned(
+        userId,
+        ACHIEVEMENTS.filter(rule => !unlockedAt.has(rule.key)),
+        metrics
+    );
+    newlyUnlocked.forEach(achievement => unlockedAt.set(achievement.key, achievement.unlockedAt));
+
+    const achievements = ACHIEVEMENTS.map(rule => ({
+        key: rule.key,
+        title: rule.title,
+        description: rule.description,
+        unlocked: unlockedAt.has(rule.key),
+        unlockedAt: unlockedAt.get(rule.key) ?? null,
+        progress: {
+            current: Math.min(metrics.get(rule.metric) ?? 0, rule.threshold),
+            target: rule.threshold
+        }
+    }));
+
+    return { achievements, newlyUnlocked };
+};
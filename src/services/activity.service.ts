@@ -0,0 +1,177 @@
+import { PrismaClient, ActivityType } from '@prisma/client';
+import { addDaysToKey, dayKeyInTimeZone } from '../utils/dates';
+import { LEAGUE_XP_TYPES, joinWeeklyLeague } from './league.service';
+
+const prisma = new PrismaClient();
+
+// XP for each kind of activity; quiz attempts earn up to 10 more depending on the score
+export const XP_REWARDS: Record<ActivityType, number> = {
+    [ActivityType.LESSON_COMPLETED]: 10,
+    [ActivityType.QUIZ_ATTEMPT]: 5,
+    [ActivityType.CONVERSATION_TURN]: 2,
+    [ActivityType.PRONUNCIATION_PRACTICE]: 3
+};
+
+// Daily XP goals a learner can pick from: casual, regular, serious and intense
+export const DAILY_GOAL_OPTIONS = [10, 20, 30, 50];
+
+// A freeze is earned every FREEZE_EVERY_DAYS days of streak, up to MAX_STREAK_FREEZES unused ones
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+export interface StreakSummary {
+    current: number;
+    longest: number;
+    activeToday: boolean;
+}
+
+interface ActivityDetails {
+    sourceId?: string | null;
+    languageId?: string | null;
+    score?: number;
+}
+
+export const xpForActivity = (type: ActivityType, score?: number): number =>
+    XP_REWARDS[type] + (type === ActivityType.QUIZ_ATTEMPT && typeof score === 'number' ? Math.round(score / 10) : 0);
+
+/**
+ * Streak lengths from the days the learner was active and the missed days covered by
+ * freezes. Frozen days keep a streak alive without adding to it. A streak still counts
+ * until the end of the day after the last activity.
+ */
+export const computeStreak = (activeDays: Set<string>, frozenDays: Set<string>, today: string): StreakSummary => {
+    const counts = (day: string) => activeDays.has(day) || frozenDays.has(day);
+    const activeToday = activeDays.has(today);
+
+    let current = 0;
+    for (let day = activeToday ? today : addDaysToKey(today, -1); counts(day); day = addDaysToKey(day, -1)) {
+        if (activeDays.has(day)) current++;
+    }
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    for (const day of [...new Set([...activeDays, ...frozenDays])].sort()) {
+        run = previous && addDaysToKey(previous, 1) === day ? run : 0;
+        if (activeDays.has(day)) run++;
+        longest = Math.max(longest, run);
+        previous = day;
+    }
+
+    return { current, longest, activeToday };
+};
+
+/**
+ * Spend freezes on the days missed since the learner was last active, if they have enough
+ * to cover all of them. Returns the number of freezes used.
+ */
+export const applyStreakFreezes = async (userId: string, timeZone: string, now = new Date()): Promise<number> => {
+    const today = dayKeyInTimeZone(now, timeZone);
+
+    const [lastActive, lastFrozen, user] = await Promise.all([
+        prisma.activityEvent.findFirst({
+            where: { userId, day: { lt: today } },
+            orderBy: { day: 'desc' },
+            select: { day: true }
+        }),
+        prisma.streakFreezeUse.findFirst({
+            where: { userId, day: { lt: today } },
+            orderBy: { day: 'desc' },
+            select: { day: true }
+        }),
+        prisma.user.findUnique({ where: { id: userId }, select: { streakFreezes: true } })
+    ]);
+
+    const last = [lastActive?.day, lastFrozen?.day].filter((day): day is string => !!day).sort().pop();
+    if (!last || !user) return 0;
+
+    const missed: string[] = [];
+    for (let day = addDaysToKey(last, 1); day < today; day = addDaysToKey(day, 1)) {
+        missed.push(day);
+    }
+    if (!missed.length || missed.length > user.streakFreezes) return 0;
+
+    // Guarded on the balance so concurrent requests cannot spend the same freezes twice
+    const { count } = await prisma.user.updateMany({
+        where: { id: userId, streakFreezes: { gte: missed.length } },
+        data: { streakFreezes: { decrement: missed.length } }
+    });
+    if (!count) return 0;
+
+    await prisma.streakFreezeUse.createMany({
+        data: missed.map(day => ({ userId, day })),
+        skipDuplicates: true
+    });
+    return missed.length;
+};
+
+export const loadStreak = async (userId: string, timeZone: string, now = new Date()): Promise<StreakSummary> => {
+    const [activeDays, frozenDays] = await Promise.all([
+        prisma.activityEvent.groupBy({ by: ['day'], where: { userId } }),
+        prisma.streakFreezeUse.findMany({ where: { userId }, select: { day: true } })
+    ]);
+
+    return computeStreak(
+        new Set(activeDays.map(entry => entry.day)),
+        new Set(frozenDays.map(entry => entry.day)),
+        dayKeyInTimeZone(now, timeZone)
+    );
+};
+
+/**
+ * Log an activity and award its XP. Each source (lesson, attempt, exchange...) earns XP once.
+ * Activity tracking never fails the request it is part of: errors are logged and 0 is returned.
+ * Returns the XP awarded.
+ */
+export const recordActivity = async (
+    userId: string,
+    type: ActivityType,
+    details: ActivityDetails = {}
+): Promise<number> => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+        if (!user) return 0;
+
+        const now = new Date();
+        const day = dayKeyInTimeZone(now, user.timezone);
+
+        // Freezes cover the gap before today's activity, so they must be applied first
+        await applyStreakFreezes(userId, user.timezone, now);
+        const activeBefore = await prisma.activityEvent.count({ where: { userId, day } });
+
+        const xp = xpForActivity(type, details.score);
+        const { count } = await prisma.activityEvent.createMany({
+            data: [{
+                userId,
+                type,
+                xp,
+                day,
+                sourceId: details.sourceId ?? null,
+                languageId: details.languageId ?? null
+            }],
+            skipDuplicates: true
+        });
+        if (!count) return 0;
+
+        // Earning league XP places the learner in this week's league
+        if (LEAGUE_XP_TYPES.includes(type)) {
+            await joinWeeklyLeague(userId, now);
+        }
+
+        // The first activity of a day extends the streak, which may earn a freeze
+        if (!activeBefore) {
+            const streak = await loadStreak(userId, user.timezone, now);
+            if (streak.current > 0 && streak.current % FREEZE_EVERY_DAYS === 0) {
+                await prisma.user.updateMany({
+                    where: { id: userId, streakFreezes: { lt: MAX_STREAK_FREEZES } },
+                    data: { streakFreezes: { increment: 1 } }
+                });
+            }
+        }
+
+        return xp;
+    } catch (error) {
+        console.error(`Recording ${type} activity failed:`, error);
+        return 0;
+    }
+};
@@ -0,0 +1,436 @@
+/**
+ * Audio ingestion for pronunciation assessment: base64 parsing, format sniffing,
+ * size/duration/silence validation and decoding to PCM samples.
+ * Supports WAV and Opus in WebM or OGG, which is what browsers' MediaRecorder produces.
+ * The original file is kept in `data` and is what speech-to-text receives.
+ */
+import OpusScript from 'opusscript';
+
+export type AudioFormat = 'wav' | 'webm' | 'ogg';
+
+export interface DecodedAudio {
+    format: AudioFormat;
+    mimeType: string;
+    codec: string;
+    sampleRate: number;
+    channels: number;
+    durationMs: number;
+    // Mono samples in [-1, 1]
+    samples: Float32Array;
+    data: Buffer;
+}
+
+export const MAX_AUDIO_BYTES = parseInt(process.env.AUDIO_MAX_BYTES || String(10 * 1024 * 1024), 10);
+const MIN_DURATION_MS = 300;
+const MAX_DURATION_MS = parseInt(process.env.AUDIO_MAX_DURATION_MS || '60000', 10);
+// RMS below this is treated as silence
+const SILENCE_RMS = 0.003;
+
+export const SUPPORTED_MIME_TYPES = [
+    'audio/wav', 'audio/wave', 'audio/x-wav', 'audio/vnd.wave',
+    'audio/webm', 'video/webm',
+    'audio/ogg', 'audio/opus', 'application/ogg'
+];
+
+// Opus always decodes at 48 kHz
+const OPUS_SAMPLE_RATE = 48000;
+
+/**
+ * The upload was rejected; statusCode is the HTTP status to answer with
+ */
+export class AudioValidationError extends Error {
+    constructor(message: string, public readonly statusCode = 400) {
+        super(message);
+        this.name = 'AudioValidationError';
+    }
+}
+
+/**
+ * Accepts plain base64 or a data URL such as "data:audio/wav;base64,...."
+ */
+export const parseBase64Audio = (input: string): { buffer: Buffer; mimeType?: string } => {
+    const match = input.trim().match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s);
+    const mimeType = match?.[1]?.toLowerCase();
+    const payload = (match ? match[2] : input).replace(/\s+/g, '');
+
+    if (!payload || !/^[A-Za-z0-9+/_-]+={0,2}$/.test(payload)) {
+        throw new AudioValidationError('audioData must be base64-encoded audio');
+    }
+
+    // Reject before allocating anything larger than the upload limit
+    if (Math.floor(payload.length * 3 / 4) > MAX_AUDIO_BYTES + 2) {
+        throw new AudioValidationError(`Audio must be at most ${Math.round(MAX_AUDIO_BYTES / 1024 / 1024)} MB`, 413);
+    }
+
+    return { buffer: Buffer.from(payload, 'base64'), mimeType };
+};
+
+export const detectAudioFormat = (data: Buffer): AudioFormat | null => {
+    if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WAVE') {
+        return 'wav';
+    }
+    if (data.length >= 4 && data.readUInt32BE(0) === 0x1a45dfa3) {
+        return 'webm';
+    }
+    if (data.length >= 4 && data.toString('ascii', 0, 4) === 'OggS') {
+        return 'ogg';
+    }
+    return null;
+};
+
+const decodeWav = (data: Buffer): DecodedAudio => {
+    let offset = 12;
+    let fmt: { audioFormat: number; channels: number; sampleRate: number; byteRate: number; blockAlign: number; bitsPerSample: number } | null = null;
+    let pcm: Buffer | null = null;
+
+    while (offset + 8 <= data.length) {
+        const id = data.toString('ascii', offset, offset + 4);
+        const size = data.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (id === 'fmt ' && body + 16 <= data.length) {
+            let audioFormat = data.readUInt16LE(body);
+            // WAVE_FORMAT_EXTENSIBLE stores the real format in the sub-format GUID
+            if (audioFormat === 0xfffe && size >= 26 && body + 26 <= data.length) {
+                audioFormat = data.readUInt16LE(body + 24);
+            }
+            fmt = {
+                audioFormat,
+                channels: data.readUInt16LE(body + 2),
+                sampleRate: data.readUInt32LE(body + 4),
+                byteRate: data.readUInt32LE(body + 8),
+                blockAlign: data.readUInt16LE(body + 12),
+                bitsPerSample: data.readUInt16LE(body + 14)
+            };
+        } else if (id === 'data') {
+            // Streaming encoders may write a placeholder size; clamp to what was received
+            pcm = data.subarray(body, Math.min(body + size, data.length));
+            break;
+        }
+
+        offset = body + size + (size % 2);
+    }
+
+    if (!fmt || !pcm || !fmt.channels || !fmt.sampleRate || !fmt.blockAlign) {
+        throw new AudioValidationError('WAV file is corrupt or truncated');
+    }
+
+    const isFloat = fmt.audioFormat === 3;
+    if (!(fmt.audioFormat === 1 || (isFloat && fmt.bitsPerSample === 32)) || ![8, 16, 24, 32].includes(fmt.bitsPerSample)) {
+        throw new AudioValidationError('Only PCM or 32-bit float WAV audio is supported', 415);
+    }
+
+    const bytesPerSample = fmt.bitsPerSample / 8;
+    const frames = Math.floor(pcm.length / fmt.blockAlign);
+    const samples = new Float32Array(frames);
+
+    for (let frame = 0; frame < frames; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < fmt.channels; channel++) {
+            const at = frame * fmt.blockAlign + channel * bytesPerSample;
+            switch (fmt.bitsPerSample) {
+                case 8: sum += (pcm.readUInt8(at) - 128) / 128; break;
+                case 16: sum += pcm.readInt16LE(at) / 32768; break;
+                case 24: sum += pcm.readIntLE(at, 3) / 8388608; break;
+                default: sum += isFloat ? pcm.readFloatLE(at) : pcm.readInt32LE(at) / 2147483648;
+            }
+        }
+        samples[frame] = sum / fmt.channels;
+    }
+
+    return {
+        format: 'wav',
+        mimeType: 'audio/wav',
+        codec: isFloat ? 'pcm_float' : 'pcm',
+        sampleRate: fmt.sampleRate,
+        channels: fmt.channels,
+        durationMs: Math.round((frames / fmt.sampleRate) * 1000),
+        samples,
+        data
+    };
+};
+
+interface OpusStream {
+    channels: number;
+    // Samples at 48 kHz the encoder added in front of the audio, to be dropped
+    preSkip: number;
+    packets: Buffer[];
+}
+
+const corrupt = (format: AudioFormat) =>
+    new AudioValidationError(`${format.toUpperCase()} file is corrupt or truncated`);
+
+// The "OpusHead" identification header, stored the same way in OGG and WebM
+const parseOpusHead = (head: Buffer | undefined, format: AudioFormat): Pick<OpusStream, 'channels' | 'preSkip'> => {
+    if (!head || head.length < 19 || head.toString('ascii', 0, 8) !== 'OpusHead') {
+        throw corrupt(format);
+    }
+    return { channels: head.readUInt8(9), preSkip: head.readUInt16LE(10) };
+};
+
+/**
+ * Reassemble the packets of the first logical stream of an OGG file. The first packet is
+ * the codec header, the second the comments; the rest is audio.
+ */
+const demuxOgg = (data: Buffer): OpusStream => {
+    const packets: Buffer[] = [];
+    let pending: Buffer[] = [];
+    let serial: number | null = null;
+    let offset = 0;
+
+    while (offset + 27 <= data.length) {
+        if (data.toString('ascii', offset, offset + 4) !== 'OggS') throw corrupt('ogg');
+
+        const pageSerial = data.readUInt32LE(offset + 14);
+        const segmentCount = data.readUInt8(offset + 26);
+        const lacing = data.subarray(offset + 27, offset + 27 + segmentCount);
+        serial ??= pageSerial;
+
+        // Recordings cut off mid-page keep the pages that were complete
+        let body = offset + 27 + segmentCount;
+        if (body + lacing.reduce((sum, size) => sum + size, 0) > data.length) break;
+
+        // A packet spans segments of 255 bytes and ends with a shorter one, possibly on a later page
+        for (const size of lacing) {
+            if (pageSerial === serial) {
+                pending.push(data.subarray(body, body + size));
+                if (size < 255) {
+                    packets.push(Buffer.concat(pending));
+                    pending = [];
+                }
+            }
+            body += size;
+        }
+        offset = body;
+    }
+
+    const [head, , ...audio] = packets;
+    if (head?.subarray(1, 7).toString('ascii') === 'vorbis') {
+        throw new AudioValidationError('Only Opus audio is supported in OGG', 415);
+    }
+    return { ...parseOpusHead(head, 'ogg'), packets: audio };
+};
+
+/**
+ * Read an EBML variable-length integer. IDs keep their length marker; sizes drop it, and a
+ * size with every value bit set means "unknown", as written by live recorders.
+ */
+const readVint = (data: Buffer, offset: number, isId: boolean): { value: number; length: number; unknown: boolean } | null => {
+    const first = data[offset];
+    if (first === undefined || first === 0) return null;
+
+    const length = Math.clz32(first) - 23;
+    if (offset + length > data.length) return null;
+
+    const mask = 0xff >> length;
+    let value = isId ? first : first & mask;
+    let unknown = !isId && value === mask;
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + data[offset + i];
+        unknown &&= data[offset + i] === 0xff;
+    }
+    return { value, length, unknown };
+};
+
+// EBML IDs of the WebM elements read below
+const WEBM = {
+    segment: 0x18538067,
+    tracks: 0x1654ae6b,
+    trackEntry: 0xae,
+    trackNumber: 0xd7,
+    codecId: 0x86,
+    codecPrivate: 0x63a2,
+    cluster: 0x1f43b675,
+    blockGroup: 0xa0,
+    block: 0xa1,
+    simpleBlock: 0xa3
+};
+
+// Elements whose children are read in place, which also copes with unknown sizes;
+// every other element is skipped by its size
+const WEBM_CONTAINERS = new Set([WEBM.segment, WEBM.tracks, WEBM.trackEntry, WEBM.cluster, WEBM.blockGroup]);
+
+/**
+ * The frames of a (Simple)Block of the given track, unpacking Xiph, EBML or fixed-size lacing
+ */
+const readBlockFrames = (block: Buffer, trackNumber: number): Buffer[] => {
+    const track = readVint(block, 0, false);
+    if (!track || track.value !== trackNumber) return [];
+
+    let offset = track.length + 3;
+    const lacing = (block[track.length + 2] >> 1) & 3;
+    if (lacing === 0) return [block.subarray(offset)];
+
+    const count = block[offset++] + 1;
+    const sizes: number[] = [];
+    if (lacing === 1) {
+        for (let i = 0; i < count - 1; i++) {
+            let size = 0;
+            let byte;
+            do {
+                byte = block[offset++];
+                size += byte;
+            } while (byte === 255);
+            sizes.push(size);
+        }
+    } else if (lacing === 3) {
+        for (let i = 0; i < count - 1; i++) {
+            const size = readVint(block, offset, false);
+            if (!size) throw corrupt('webm');
+            offset += size.length;
+            // Every size after the first is a signed difference from the previous one
+            sizes.push(i === 0 ? size.value : sizes[i - 1] + size.value - (2 ** (7 * size.length - 1) - 1));
+        }
+    } else {
+        sizes.push(...Array(count - 1).fill(Math.floor((block.length - offset) / count)));
+    }
+
+    const frames: Buffer[] = [];
+    for (const size of [...sizes, block.length - offset - sizes.reduce((sum, s) => sum + s, 0)]) {
+        if (!(size >= 0) || offset + size > block.length) throw corrupt('webm');
+        frames.push(block.subarray(offset, offset + size));
+        offset += size;
+    }
+    return frames;
+};
+
+/**
+ * Collect the Opus packets of the first audio track of a WebM file
+ */
+const demuxWebm = (data: Buffer): OpusStream => {
+    const tracks: Array<{ number: number; codecId: string; codecPrivate?: Buffer }> = [];
+    const blocks: Buffer[] = [];
+    let offset = 0;
+
+    while (offset < data.length) {
+        const id = readVint(data, offset, true);
+        const size = id && readVint(data, offset + id.length, false);
+        if (!id || !size) break;
+
+        const body = offset + id.length + size.length;
+        if (WEBM_CONTAINERS.has(id.value)) {
+            if (id.value === WEBM.trackEntry) tracks.push({ number: 0, codecId: '' });
+            offset = body;
+            continue;
+        }
+        if (size.unknown) throw corrupt('webm');
+
+        // Recordings cut off mid-element keep what was complete
+        const end = body + size.value;
+        if (end > data.length) break;
+
+        const track = tracks[tracks.length - 1];
+        if (id.value === WEBM.trackNumber && track) track.number = data.readUIntBE(body, Math.min(size.value, 6));
+        else if (id.value === WEBM.codecId && track) track.codecId = data.toString('ascii', body, end);
+        else if (id.value === WEBM.codecPrivate && track) track.codecPrivate = data.subarray(body, end);
+        else if (id.value === WEBM.simpleBlock || id.value === WEBM.block) blocks.push(data.subarray(body, end));
+
+        offset = end;
+    }
+
+    const audio = tracks.find(track => track.codecId.startsWith('A_'));
+    if (!audio) throw corrupt('webm');
+    if (audio.codecId !== 'A_OPUS') {
+        throw new AudioValidationError('Only Opus audio is supported in WebM', 415);
+    }
+
+    return {
+        ...parseOpusHead(audio.codecPrivate, 'webm'),
+        packets: blocks.flatMap(block => readBlockFrames(block, audio.number))
+    };
+};
+
+const decodeOpus = (data: Buffer, format: 'webm' | 'ogg'): DecodedAudio => {
+    const stream = format === 'webm' ? demuxWebm(data) : demuxOgg(data);
+    if (!stream.packets.length) throw corrupt(format);
+    if (stream.channels < 1 || stream.channels > 2) {
+        throw new AudioValidationError('Only mono or stereo Opus audio is supported', 415);
+    }
+
+    // Stop decoding once the recording is known to be too long, rather than decoding it all
+    const maxSamples = Math.ceil((MAX_DURATION_MS / 1000) * OPUS_SAMPLE_RATE) + stream.preSkip + 1;
+    // libopus downmixes to mono itself when asked for one channel
+    const decoder = new OpusScript(OPUS_SAMPLE_RATE, 1);
+    const chunks: Buffer[] = [];
+    let total = 0;
+    try {
+        for (const packet of stream.packets) {
+            // Empty packets only mark gaps; decoding them would invent audio
+            if (!packet.length) continue;
+            if (packet.length > OpusScript.MAX_PACKET_SIZE) throw corrupt(format);
+            const pcm = decoder.decode(packet);
+            chunks.push(pcm);
+            total += pcm.length / 2;
+            if (total > maxSamples) break;
+        }
+    } finally {
+        decoder.delete();
+    }
+
+    const frames = Math.max(0, total - stream.preSkip);
+    const samples = new Float32Array(frames);
+    let index = -stream.preSkip;
+    for (const pcm of chunks) {
+        for (let at = 0; at < pcm.length; at += 2, index++) {
+            if (index >= 0) samples[index] = pcm.readInt16LE(at) / 32768;
+        }
+    }
+
+    return {
+        format,
+        mimeType: format === 'webm' ? 'audio/webm' : 'audio/ogg',
+        codec: 'opus',
+        sampleRate: OPUS_SAMPLE_RATE,
+        channels: stream.channels,
+        durationMs: Math.round((frames / OPUS_SAMPLE_RATE) * 1000),
+        samples,
+        data
+    };
+};
+
+const rms = (samples: Float32Array): number => {
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    return samples.length ? Math.sqrt(sum / samples.length) : 0;
+};
+
+/**
+ * Validate and decode an uploaded recording. The format is taken from the file's
+ * magic bytes; a declared MIME type is only checked against the supported list.
+ * Throws AudioValidationError when the recording cannot be assessed.
+ */
+export const decodeAudio = (data: Buffer, declaredMimeType?: string): DecodedAudio => {
+    if (!data.length) {
+        throw new AudioValidationError('Audio is empty');
+    }
+    if (data.length > MAX_AUDIO_BYTES) {
+        throw new AudioValidationError(`Audio must be at most ${Math.round(MAX_AUDIO_BYTES / 1024 / 1024)} MB`, 413);
+    }
+
+    const format = detectAudioFormat(data);
+    const mimeType = declaredMimeType?.split(';')[0].trim().toLowerCase();
+    if (!format || (mimeType && mimeType !== 'application/octet-stream' && !SUPPORTED_MIME_TYPES.includes(mimeType))) {
+        throw new AudioValidationError('Unsupported audio format. Use WAV, or Opus in WebM or OGG.', 415);
+    }
+
+    let audio: DecodedAudio;
+    try {
+        audio = format === 'wav' ? decodeWav(data) : decodeOpus(data, format);
+    } catch (error) {
+        if (error instanceof AudioValidationError) throw error;
+        throw corrupt(format);
+    }
+
+    if (audio.durationMs < MIN_DURATION_MS) {
+        throw new AudioValidationError('Recording is too short');
+    }
+    if (audio.durationMs > MAX_DURATION_MS) {
+        throw new AudioValidationError(`Recording must be at most ${Math.round(MAX_DURATION_MS / 1000)} seconds`, 413);
+    }
+
+    if (rms(audio.samples) < SILENCE_RMS) {
+        throw new AudioValidationError('No speech detected in the recording', 422);
+    }
+
+    return audio;
+};
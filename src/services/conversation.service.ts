@@ -0,0 +1,178 @@
+import { PrismaClient, Prisma, GrammarErrorCategory, Level, ActivityType } from '@prisma/client';
+import { generateValidatedJSON } from './llm/llm.service';
+import { validateConversationReply, GrammarCorrection } from './llm/llm.schemas';
+import { describeLevelForPrompt } from '../utils/levels';
+import { recordActivity } from './activity.service';
+
+const prisma = new PrismaClient();
+
+// Number of previous exchanges sent to the model with each new turn
+export const HISTORY_WINDOW = parseInt(process.env.CONVERSATION_HISTORY_WINDOW || '10', 10);
+
+interface ConversationTurn {
+    userMessage: string;
+    aiResponse: string;
+}
+
+interface TutorContext {
+    languageName: string;
+    level?: Level | null;
+    scenario?: string | null;
+    // Generated ConversationPractice content the session was seeded from
+    scenarioContent?: Prisma.JsonValue | null;
+}
+
+interface PracticeScenario {
+    languageId?: string;
+    level?: string;
+    scenario?: string;
+    content?: Prisma.JsonValue;
+}
+
+/**
+ * Read the scenario stored on a ConversationPractice by generateConversationPrompt
+ */
+export const parsePracticeTranscript = (transcript: Prisma.JsonValue): PracticeScenario => {
+    if (!transcript || typeof transcript !== 'object' || Array.isArray(transcript)) return {};
+
+    const { languageId, level, scenario, content } = transcript as Prisma.JsonObject;
+    return {
+        languageId: typeof languageId === 'string' ? languageId : undefined,
+        level: typeof level === 'string' ? level : undefined,
+        scenario: typeof scenario === 'string' ? scenario : undefined,
+        content: content ?? undefined
+    };
+};
+
+/**
+ * Latest exchanges of a session in chronological order, bounded by HISTORY_WINDOW
+ */
+export const loadRecentHistory = async (sessionId: string, limit = HISTORY_WINDOW): Promise<ConversationTurn[]> => {
+    const recent = await prisma.conversationExchange.findMany({
+        where: { sessionId },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: { userMessage: true, aiResponse: true }
+    });
+
+    return recent.reverse();
+};
+
+const describeScenario = (content: Prisma.JsonValue | null | undefined): string => {
+    if (!content || typeof content !== 'object' || Array.isArray(content)) return '';
+
+    const { context, script } = content as Prisma.JsonObject;
+    const lines: string[] = [];
+
+    if (typeof context === 'string' && context) {
+        lines.push(`Scenario context: ${context}`);
+    }
+    if (Array.isArray(script) && script.length) {
+        lines.push('Example script for this scenario:');
+        for (const line of script.slice(0, 12)) {
+            if (line && typeof line === 'object' && !Array.isArray(line)) {
+                lines.push(`- ${Object.values(line).join(' / ')}`);
+            }
+        }
+    }
+
+    return lines.join('\n');
+};
+
+export const buildTutorPrompt = (context: TutorContext, history: ConversationTurn[], message: string): string => {
+    const transcript = history
+        .map(turn => `Learner: ${turn.userMessage}\nTutor: ${turn.aiResponse}`)
+        .join('\n');
+
+    return `
+You are a language learning assistant for ${context.languageName}.
+${context.level ? `The learner's level is ${describeLevelForPrompt(context.level)}. Keep your replies at that level.` : ''}
+${context.scenario ? `You are role-playing this scenario with the learner: ${context.scenario}.` : ''}
+${describeScenario(context.scenarioContent)}
+
+${transcript ? `Conversation so far:\n${transcript}\n` : ''}
+Respond to this learner message: "${message}"
+
+Your reply must:
+1) Be helpful and encouraging
+2) Use simple language
+3) Include the correct ${context.languageName} phrases when appropriate
+4) Stay consistent with the conversation so far
+5) Be under 150 words
+
+List every grammar mistake in the learner message separately in "corrections" instead of in the reply.
+"original" is the exact wrong span from the message, "corrected" is the fixed text and
+"category" is one of: ${Object.values(GrammarErrorCategory).map(c => c.toLowerCase()).join(', ')}.
+
+Return ONLY JSON:
+{
+  "reply": "",
+  "corrections": [{"original":"","corrected":"","category":"","explanation":""}]
+}
+`.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+/**
+ * Generate the tutor's reply to one learner message, store the exchange with its corrections and award XP for the turn.
+ * With a sessionId, the latest exchanges of that session are included as context.
+ * Throws LLMValidationError if the model never returns a valid reply.
+ */
+export const replyToLearner = async (params: {
+    userId: string;
+    languageId: string;
+    message: string;
+    context: TutorContext;
+    sessionId?: string | null;
+}): Promise<{ response: string; corrections: GrammarCorrection[]; exchangeId: string | null }> => {
+    const history = params.sessionId ? await loadRecentHistory(params.sessionId) : [];
+    const prompt = buildTutorPrompt(params.context, history, params.message);
+
+    const { reply, corrections } = await generateValidatedJSON(
+        'conversationReply',
+        prompt,
+        validateConversationReply,
+        900
+    );
+
+    let exchangeId: string | null = null;
+    try {
+        const exchange = await prisma.conversationExchange.create({
+            data: {
+                userId: params.userId,
+                languageId: params.languageId,
+                sessionId: params.sessionId || null,
+                userMessage: params.message,
+                aiResponse: reply,
+                corrections: {
+                    create: corrections.map(correction => ({
+                        userId: params.userId,
+                        languageId: params.languageId,
+                        ...correction
+                    }))
+                }
+            }
+        });
+        exchangeId = exchange.id;
+
+        if (params.sessionId) {
+            // Touch the session so it sorts as recently active
+            await prisma.conversationSession.update({
+                where: { id: params.sessionId },
+                data: { updatedAt: new Date() }
+            });
+        }
+    } catch (dbError) {
+        // Without a session, a lost exchange only affects history; with one it would break context
+        if (params.sessionId) throw dbError;
+        console.error('Error saving conversation:', dbError);
+    }
+
+    if (exchangeId) {
+        await recordActivity(params.userId, ActivityType.CONVERSATION_TURN, {
+            sourceId: exchangeId,
+            languageId: params.languageId
+        });
+    }
+
+    return { response: reply, corrections, exchangeId };
+};
@@ -0,0 +1,212 @@
+import { PrismaClient, Prisma, Level } from '@prisma/client';
+import { isLevelInRange } from '../utils/levels';
+
+const prisma = new PrismaClient();
+
+export type PathStatus = 'completed' | 'unlocked' | 'locked';
+
+export interface PathLesson {
+    id: string;
+    title: string;
+    description: string | null;
+    level: Level;
+    position: number | null;
+    status: PathStatus;
+    lockedReason?: string;
+    prerequisiteIds: string[];
+}
+
+export interface PathUnit {
+    id: string;
+    title: string;
+    description: string | null;
+    position: number;
+    status: PathStatus;
+    lessons: PathLesson[];
+}
+
+export interface CoursePath {
+    id: string;
+    languageId: string;
+    title: string;
+    description: string | null;
+    minLevel: Level;
+    maxLevel: Level;
+    position: number;
+    totalLessons: number;
+    completedLessons: number;
+    units: PathUnit[];
+}
+
+export const LESSON_ORDER: Prisma.LessonOrderByWithRelationInput[] = [{ position: 'asc' }, { createdAt: 'asc' }];
+
+/**
+ * Load courses with their units and lessons in curriculum order and work out
+ * what the user can open. Unlock rules, all driven by completed LearningProgress:
+ * - the first unit of a course is open; later units open when the previous unit is completed
+ * - within a unit, a lesson opens when the lesson before it is completed
+ * - explicit prerequisites must all be completed, wherever they live
+ */
+export const loadCoursePaths = async (userId: string, where: Prisma.CourseWhereInput): Promise<CoursePath[]> => {
+    const courses = await prisma.course.findMany({
+        where,
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        include: {
+            units: {
+                orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+                include: {
+                    lessons: {
+                        orderBy: LESSON_ORDER,
+                        select: {
+                            id: true,
+                            title: true,
+                            description: true,
+                            level: true,
+                            position: true,
+                            prerequisites: { select: { id: true, title: true } }
+                        }
+                    }
+                }
+            }
+        }
+    });
+
+    const lessonIds = new Set<string>();
+    for (const course of courses) {
+        for (const unit of course.units) {
+            for (const lesson of unit.lessons) {
+                lessonIds.add(lesson.id);
+                lesson.prerequisites.forEach(p => lessonIds.add(p.id));
+            }
+        }
+    }
+
+    const completedRecords = lessonIds.size
+        ? await prisma.learningProgress.findMany({
+            where: { userId, completed: true, lessonId: { in: Array.from(lessonIds) } },
+            select: { lessonId: true }
+        })
+        : [];
+    const completed = new Set(completedRecords.map(record => record.lessonId));
+
+    return courses.map(course => {
+        let previousUnitDone = true;
+        let completedLessons = 0;
+        let totalLessons = 0;
+
+        const units = course.units.map(unit => {
+            const unitOpen = previousUnitDone;
+            let previousLesson: { title: string; done: boolean } | null = null;
+
+            const lessons = unit.lessons.map(lesson => {
+                const done = completed.has(lesson.id);
+                const missingPrerequisite = lesson.prerequisites.find(p => !completed.has(p.id));
+
+                let status: PathStatus = 'unlocked';
+                let lockedReason: string | undefined;
+
+                if (done) {
+                    status = 'completed';
+                } else if (!unitOpen) {
+                    status = 'locked';
+                    lockedReason = 'Complete the previous unit first';
+                } else if (previousLesson && !previousLesson.done) {
+                    status = 'locked';
+                    lockedReason = `Complete "${previousLesson.title}" first`;
+                } else if (missingPrerequisite) {
+                    status = 'locked';
+                    lockedReason = `Requires "${missingPrerequisite.title}"`;
+                }
+
+                previousLesson = { title: lesson.title, done };
+                return {
+                    id: lesson.id,
+                    title: lesson.title,
+                    description: lesson.description,
+                    level: lesson.level,
+                    position: lesson.position,
+                    status,
+                    ...(lockedReason && { lockedReason }),
+                    prerequisiteIds: lesson.prerequisites.map(p => p.id)
+                };
+            });
+
+            const unitDone = lessons.every(lesson => lesson.status === 'completed');
+            previousUnitDone = unitDone;
+            totalLessons += lessons.length;
+            completedLessons += lessons.filter(lesson => lesson.status === 'completed').length;
+
+            return {
+                id: unit.id,
+                title: unit.title,
+                description: unit.description,
+                position: unit.position,
+                status: (unitDone ? 'completed' : unitOpen ? 'unlocked' : 'locked') as PathStatus,
+                lessons
+            };
+        });
+
+        return {
+            id: course.id,
+            languageId: course.languageId,
+            title: course.title,
+            description: course.description,
+            minLevel: course.minLevel,
+            maxLevel: course.maxLevel,
+            position: course.position,
+            totalLessons,
+            completedLessons,
+            units
+        };
+    });
+};
+
+/**
+ * Whether the user may work on a lesson. Lessons outside the curriculum are always open.
+ */
+export const getLessonAccess = async (
+    userId: string,
+    lessonId: string
+): Promise<{ unlocked: boolean; reason?: string }> => {
+    const lesson = await prisma.lesson.findUnique({
+        where: { id: lessonId },
+        select: { unitId: true }
+    });
+
+    if (!lesson?.unitId) return { unlocked: true };
+
+    const [course] = await loadCoursePaths(userId, { units: { some: { id: lesson.unitId } } });
+    const pathLesson = course?.units.flatMap(unit => unit.lessons).find(l => l.id === lessonId);
+
+    return pathLesson?.status === 'locked'
+        ? { unlocked: false, reason: pathLesson.lockedReason }
+        : { unlocked: true };
+};
+
+/**
+ * The first open, unfinished lesson in a language's curriculum. Courses whose
+ * level range contains the learner's level are tried first.
+ */
+export const findNextLesson = async (
+    userId: string,
+    languageId: string,
+    level?: Level
+): Promise<{ course: CoursePath; unit: PathUnit; lesson: PathLesson } | null> => {
+    const courses = await loadCoursePaths(userId, { languageId });
+
+    const ordered = level
+        ? [
+            ...courses.filter(course => isLevelInRange(level, course.minLevel, course.maxLevel)),
+            ...courses.filter(course => !isLevelInRange(level, course.minLevel, course.maxLevel))
+        ]
+        : courses;
+
+    for (const course of ordered) {
+        for (const unit of course.units) {
+            const lesson = unit.lessons.find(l => l.status === 'unlocked');
+            if (lesson) return { course, unit, lesson };
+        }
+    }
+
+    return null;
+};
@@ -0,0 +1,298 @@
+/**
+ * Rule-based grapheme-to-phoneme conversion: turns a written word into the sounds it
+ * spells, so pronunciation can be scored per sound instead of per letter.
+ *
+ * The transcription is broad: one IPA symbol per sound, no stress, no allophones.
+ * Each language has an ordered list of spelling rules and regular spellings are covered;
+ * exceptions (loanwords, French verb endings, German "ch" at the start of a word) are
+ * transcribed by the regular rules. Languages without rules return null, and callers
+ * report no sounds rather than treating letters as sounds.
+ */
+
+export interface Phoneme {
+    // IPA symbol
+    sound: string;
+    // The letters that spell the sound in this word
+    spelling: string;
+}
+
+interface SpellingRule {
+    spelling: string;
+    // Empty for silent letters
+    sounds: string[];
+    // Tested against the rest of the word after the spelling
+    before?: RegExp;
+    // Tested against the part of the word before the spelling
+    after?: RegExp;
+}
+
+const rule = (spelling: string, sounds: string, context: { before?: RegExp; after?: RegExp } = {}): SpellingRule => ({
+    spelling,
+    sounds: sounds ? sounds.split(' ') : [],
+    ...context
+});
+
+const WORD_END = /^$/;
+const WORD_START = /^$/;
+
+// Ñ, ll and rr are single sounds; h is silent; c, g, qu and gu depend on the next vowel
+const spanishRules = (sibilant: 's' | 'θ'): SpellingRule[] => {
+    const frontVowel = /^[eéií]/;
+    return [
+        rule('ch', 'tʃ'),
+        rule('ll', 'ʝ'),
+        rule('rr', 'r'),
+        rule('qu', 'k', { before: frontVowel }),
+        rule('gü', 'g w'),
+        rule('gu', 'g', { before: frontVowel }),
+        rule('c', sibilant, { before: frontVowel }),
+        rule('c', 'k'),
+        rule('z', sibilant),
+        rule('g', 'x', { before: frontVowel }),
+        rule('j', 'x'),
+        rule('h', ''),
+        rule('ñ', 'ɲ'),
+        rule('v', 'b'),
+        rule('x', 'k s'),
+        // Trilled at the start of a word and after l, n and s; tapped elsewhere
+        rule('r', 'r', { after: /(^|[lns])$/ }),
+        rule('r', 'ɾ'),
+        // A vowel in "y", "hoy" and "muy", a consonant before a vowel
+        rule('y', 'i', { before: /^($|[^aeiouáéíóú])/ }),
+        rule('y', 'ʝ'),
+        rule('á', 'a'),
+        rule('é', 'e'),
+        rule('í', 'i'),
+        rule('ó', 'o'),
+        rule('ú', 'u'),
+        rule('ü', 'u')
+    ];
+};
+
+const ITALIAN_VOWEL = /^[aeiouàèéìòóù]/;
+const ITALIAN_FRONT_VOWEL = /^[eèéiì]/;
+
+const ITALIAN_RULES: SpellingRule[] = [
+    // The i only marks the sound in "figlio", "ciao", "giorno" and "sciare"
+    rule('gli', 'ʎ', { before: ITALIAN_VOWEL }),
+    rule('gl', 'ʎ', { before: /^i/ }),
+    rule('gn', 'ɲ'),
+    rule('sci', 'ʃ', { before: ITALIAN_VOWEL }),
+    rule('sc', 'ʃ', { before: ITALIAN_FRONT_VOWEL }),
+    rule('cch', 'kː'),
+    rule('ggh', 'gː'),
+    rule('cci', 'tʃː', { before: ITALIAN_VOWEL }),
+    rule('cc', 'tʃː', { before: ITALIAN_FRONT_VOWEL }),
+    rule('ggi', 'dʒː', { before: ITALIAN_VOWEL }),
+    rule('gg', 'dʒː', { before: ITALIAN_FRONT_VOWEL }),
+    rule('ch', 'k'),
+    rule('gh', 'g'),
+    rule('ci', 'tʃ', { before: ITALIAN_VOWEL }),
+    rule('c', 'tʃ', { before: ITALIAN_FRONT_VOWEL }),
+    rule('gi', 'dʒ', { before: ITALIAN_VOWEL }),
+    rule('g', 'dʒ', { before: ITALIAN_FRONT_VOWEL }),
+    rule('qu', 'k w'),
+    rule('zz', 'tsː'),
+    rule('z', 'ts'),
+    // Double consonants are long, and the length tells words apart ("pala", "palla")
+    ...['bb', 'dd', 'ff', 'll', 'mm', 'nn', 'pp', 'rr', 'ss', 'tt', 'vv'].map(double => rule(double, `${double[0]}ː`)),
+    rule('cc', 'kː'),
+    rule('gg', 'gː'),
+    rule('c', 'k'),
+    rule('h', ''),
+    rule('à', 'a'),
+    rule('è', 'ɛ'),
+    rule('é', 'e'),
+    rule('ì', 'i'),
+    rule('ò', 'ɔ'),
+    rule('ó', 'o'),
+    rule('ù', 'u')
+];
+
+const GERMAN_VOWEL = /^[aeiouäöüy]/;
+const GERMAN_NOT_VOWEL = /^($|[^aeiouäöüy])/;
+
+const GERMAN_RULES: SpellingRule[] = [
+    rule('tsch', 'tʃ'),
+    rule('sch', 'ʃ'),
+    rule('chs', 'k s'),
+    // "Bach", "Buch", "auch" but "ich", "euch", "Löcher"
+    rule('ch', 'x', { after: /((^|[^e])[aou]|au)$/ }),
+    rule('ch', 'ç'),
+    rule('ck', 'k'),
+    rule('ng', 'ŋ'),
+    rule('nk', 'ŋ k'),
+    rule('pf', 'pf'),
+    rule('ph', 'f'),
+    rule('qu', 'k v'),
+    rule('sp', 'ʃ p', { after: WORD_START }),
+    rule('st', 'ʃ t', { after: WORD_START }),
+    rule('ss', 's'),
+    rule('ß', 's'),
+    rule('s', 'z', { before: GERMAN_VOWEL }),
+    rule('tz', 'ts'),
+    rule('z', 'ts'),
+    rule('th', 't'),
+    rule('ig', 'ɪ ç', { before: WORD_END }),
+    rule('ie', 'iː'),
+    rule('ei', 'aɪ'),
+    rule('ai', 'aɪ'),
+    rule('eu', 'ɔʏ'),
+    rule('äu', 'ɔʏ'),
+    rule('au', 'aʊ'),
+    rule('aa', 'aː'),
+    rule('ee', 'eː'),
+    rule('oo', 'oː'),
+    // A vowel followed by h is long and the h is silent
+    ...[['a', 'aː'], ['e', 'eː'], ['i', 'iː'], ['o', 'oː'], ['u', 'uː'], ['ä', 'ɛː'], ['ö', 'øː'], ['ü', 'yː']]
+        .map(([vowel, sound]) => rule(`${vowel}h`, sound, { before: GERMAN_NOT_VOWEL })),
+    rule('h', '', { after: /[aeiouäöüy]$/ }),
+    rule('er', 'ɐ', { before: WORD_END, after: /.$/ }),
+    rule('en', 'ə n', { before: WORD_END, after: /..$/ }),
+    rule('e', 'ə', { before: WORD_END, after: /.$/ }),
+    // Final devoicing
+    rule('b', 'p', { before: WORD_END }),
+    rule('d', 't', { before: WORD_END }),
+    rule('g', 'k', { before: WORD_END }),
+    ...['bb', 'dd', 'ff', 'gg', 'kk', 'll', 'mm', 'nn', 'pp', 'tt'].map(double => rule(double, double[0])),
+    rule('rr', 'ʁ'),
+    rule('r', 'ʁ'),
+    rule('ä', 'ɛ'),
+    rule('ö', 'ø'),
+    rule('ü', 'y'),
+    rule('v', 'f'),
+    rule('w', 'v'),
+    rule('x', 'k s'),
+    rule('c', 'ts', { before: /^[eiäy]/ }),
+    rule('c', 'k')
+];
+
+const FRENCH_VOWEL = /^[aeiouyàâäéèêëîïôöùûüœ]/;
+const FRENCH_VOWEL_BEFORE = /[aeiouyàâäéèêëîïôöùûüœ]$/;
+// A vowel followed by n or m is nasal unless another vowel, n or m follows ("bon" but "bonne")
+const FRENCH_NASAL = /^($|[^aeiouyàâäéèêëîïôöùûüœnm])/;
+const FRENCH_FRONT_VOWEL = /^[eéèêëiîïy]/;
+
+const FRENCH_RULES: SpellingRule[] = [
+    rule('eaux', 'o', { before: WORD_END }),
+    rule('eau', 'o'),
+    rule('tion', 's j ɔ̃', { after: /.$/ }),
+    // Final -er and -ez are "é"; a final e or es is silent except in short words ("le", "les")
+    rule('er', 'e', { before: WORD_END, after: /..$/ }),
+    rule('ez', 'e', { before: WORD_END }),
+    rule('es', '', { before: WORD_END, after: /..$/ }),
+    rule('e', '', { before: WORD_END, after: /..$/ }),
+    rule('oin', 'w ɛ̃', { before: FRENCH_NASAL }),
+    rule('ien', 'j ɛ̃', { before: FRENCH_NASAL }),
+    rule('ain', 'ɛ̃', { before: FRENCH_NASAL }),
+    rule('ein', 'ɛ̃', { before: FRENCH_NASAL }),
+    rule('aill', 'a j'),
+    rule('ail', 'a j', { before: WORD_END }),
+    rule('eill', 'ɛ j'),
+    rule('eil', 'ɛ j', { before: WORD_END }),
+    rule('oi', 'w a'),
+    rule('oy', 'w a'),
+    rule('ou', 'u'),
+    rule('où', 'u'),
+    rule('oû', 'u'),
+    rule('au', 'o'),
+    rule('ai', 'ɛ'),
+    rule('aî', 'ɛ'),
+    rule('ei', 'ɛ'),
+    rule('œu', 'ø'),
+    rule('eu', 'ø'),
+    ...['an', 'am', 'en', 'em'].map(nasal => rule(nasal, 'ɑ̃', { before: FRENCH_NASAL })),
+    ...['on', 'om'].map(nasal => rule(nasal, 'ɔ̃', { before: FRENCH_NASAL })),
+    ...['in', 'im', 'yn', 'ym'].map(nasal => rule(nasal, 'ɛ̃', { before: FRENCH_NASAL })),
+    ...['un', 'um'].map(nasal => rule(nasal, 'œ̃', { before: FRENCH_NASAL })),
+    // "grenouille", "fille"
+    rule('il', 'j', { before: WORD_END, after: FRENCH_VOWEL_BEFORE }),
+    rule('ill', 'j', { after: FRENCH_VOWEL_BEFORE }),
+    rule('ill', 'i j'),
+    rule('ch', 'ʃ'),
+    rule('gn', 'ɲ'),
+    rule('qu', 'k'),
+    rule('gu', 'g', { before: FRENCH_FRONT_VOWEL }),
+    rule('ge', 'ʒ', { before: /^[aoâôu]/ }),
+    rule('g', 'ʒ', { before: FRENCH_FRONT_VOWEL }),
+    rule('c', 's', { before: FRENCH_FRONT_VOWEL }),
+    rule('ph', 'f'),
+    rule('th', 't'),
+    rule('ss', 's'),
+    rule('s', 'z', { before: FRENCH_VOWEL, after: FRENCH_VOWEL_BEFORE }),
+    // Most final consonants are silent
+    ...['s', 't', 'd', 'x', 'p', 'z'].map(silent => rule(silent, '', { before: WORD_END })),
+    // An e before a double consonant is open ("elle", "cette")
+    rule('e', 'ɛ', { before: /^([bcdfgklmnprstv])\1/ }),
+    ...['bb', 'cc', 'dd', 'ff', 'gg', 'll', 'mm', 'nn', 'pp', 'tt'].map(double => rule(double, double[0] === 'c' ? 'k' : double[0])),
+    rule('rr', 'ʁ'),
+    rule('r', 'ʁ'),
+    rule('c', 'k'),
+    rule('ç', 's'),
+    rule('j', 'ʒ'),
+    rule('h', ''),
+    rule('x', 'k s'),
+    rule('e', 'ə'),
+    rule('é', 'e'),
+    rule('è', 'ɛ'),
+    rule('ê', 'ɛ'),
+    rule('ë', 'ɛ'),
+    rule('à', 'a'),
+    rule('â', 'a'),
+    rule('î', 'i'),
+    rule('ï', 'i'),
+    rule('ô', 'o'),
+    rule('u', 'y'),
+    rule('û', 'y'),
+    rule('ü', 'y'),
+    rule('y', 'i'),
+    rule('œ', 'œ')
+];
+
+// Keyed by lowercase language tag; a primary language covers all of its regions
+const RULES: Record<string, SpellingRule[]> = {
+    es: spanishRules('s'),
+    // Spain tells "casa" and "caza" apart
+    'es-es': spanishRules('θ'),
+    it: ITALIAN_RULES,
+    de: GERMAN_RULES,
+    fr: FRENCH_RULES
+};
+
+const rulesFor = (languageCode: string): SpellingRule[] | undefined => {
+    const tag = languageCode.toLowerCase();
+    return RULES[tag] || RULES[tag.split('-')[0]];
+};
+
+export const hasSpellingRules = (languageCode: string): boolean => !!rulesFor(languageCode);
+
+/**
+ * Transcribe one lowercase word into its sounds, or null when the language has no rules.
+ * Letters no rule matches are pronounced as written ("p" is /p/).
+ */
+export const toPhonemes = (word: string, languageCode: string): Phoneme[] | null => {
+    const rules = rulesFor(languageCode);
+    if (!rules) return null;
+
+    const phonemes: Phoneme[] = [];
+    let i = 0;
+    while (i < word.length) {
+        const rest = word.slice(i);
+        const match = rules.find(r =>
+            rest.startsWith(r.spelling)
+            && (!r.before || r.before.test(rest.slice(r.spelling.length)))
+            && (!r.after || r.after.test(word.slice(0, i)))
+        );
+
+        if (match) {
+            phonemes.push(...match.sounds.map(sound => ({ sound, spelling: match.spelling })));
+            i += match.spelling.length;
+        } else {
+            const letter = String.fromCodePoint(word.codePointAt(i)!);
+            phonemes.push({ sound: letter, spelling: letter });
+            i += letter.length;
+        }
+    }
+
+    return phonemes;
+};
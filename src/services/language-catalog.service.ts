@@ -0,0 +1,55 @@
+import { TextDirection } from '@prisma/client';
+
+// Scripts written right to left
+const RTL_SCRIPTS = new Set(['Arab', 'Hebr', 'Thaa', 'Syrc', 'Nkoo', 'Adlm', 'Rohg', 'Mand', 'Samr']);
+
+// Primary subtag (ISO 639-1, or ISO 639-2/3 where no two-letter code exists), then optional subtags
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{1,8})*$/i;
+
+const englishNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+
+export interface LanguageDetails {
+    name: string;
+    nativeName: string;
+    script: string | null;
+    direction: TextDirection;
+}
+
+/**
+ * Canonicalize a BCP-47 language tag ("PT_br" -> "pt-BR"). Returns null for malformed
+ * tags and for primary languages that ISO 639 does not know.
+ */
+export const normalizeLanguageCode = (code: unknown): string | null => {
+    if (typeof code !== 'string') return null;
+
+    const tag = code.trim().replace(/_/g, '-');
+    if (!LANGUAGE_TAG_PATTERN.test(tag)) return null;
+
+    try {
+        const [canonical] = Intl.getCanonicalLocales(tag);
+        const language = new Intl.Locale(canonical).language;
+        return englishNames.of(language) ? canonical : null;
+    } catch {
+        return null;
+    }
+};
+
+export const isValidScript = (script: unknown): script is string =>
+    typeof script === 'string' && /^[A-Z][a-z]{3}$/.test(script);
+
+/**
+ * Defaults for a catalog entry derived from its code: English and native names,
+ * the likely script and the text direction of that script
+ */
+export const describeLanguage = (code: string): LanguageDetails => {
+    const locale = new Intl.Locale(code);
+    const script = locale.script || locale.maximize().script || null;
+    const nativeName = new Intl.DisplayNames([code], { type: 'language' }).of(code) || code;
+
+    return {
+        name: englishNames.of(code) || code,
+        nativeName: nativeName.charAt(0).toLocaleUpperCase(code) + nativeName.slice(1),
+        script,
+        direction: script && RTL_SCRIPTS.has(script) ? TextDirection.RTL : TextDirection.LTR
+    };
+};
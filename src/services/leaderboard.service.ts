@@ -0,0 +1,188 @@
+import { PrismaClient, Prisma, Level } from '@prisma/client';
+import { weekStartKey } from '../utils/dates';
+
+const prisma = new PrismaClient();
+
+export type LeaderboardWindow = 'week' | 'month' | 'all';
+export type LeaderboardMetric = 'average' | 'total' | 'xp';
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['week', 'month', 'all'];
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ['average', 'total', 'xp'];
+
+/**
+ * Fewest quizzes (or, for XP, activities) needed to be ranked. Averages need several
+ * quizzes so that a single perfect score cannot top the board.
+ */
+export const DEFAULT_MIN_ACTIVITY: Record<LeaderboardMetric, number> = {
+    average: 3,
+    total: 1,
+    xp: 1
+};
+
+// Ranking order per metric; ties on every column share a rank
+const METRIC_ORDER: Record<LeaderboardMetric, Prisma.Sql> = {
+    average: Prisma.sql`"averageScore" DESC, "quizzesCompleted" DESC`,
+    total: Prisma.sql`"totalScore" DESC, "averageScore" DESC`,
+    xp: Prisma.sql`"xp" DESC, "activities" DESC`
+};
+
+const METRIC_COLUMNS: Record<LeaderboardMetric, Prisma.Sql> = {
+    average: Prisma.sql`stats."quizzesCompleted", stats."averageScore", stats."totalScore"`,
+    total: Prisma.sql`stats."quizzesCompleted", stats."averageScore", stats."totalScore"`,
+    xp: Prisma.sql`stats."xp", stats."activities"`
+};
+
+export interface LeaderboardQuery {
+    window: LeaderboardWindow;
+    metric: LeaderboardMetric;
+    minActivity: number;
+    languageId?: string;
+    // Only quizzes of lessons at these levels; quiz metrics only
+    levels?: Level[] | null;
+    // Only rank these users (friends-only boards)
+    userIds?: string[];
+}
+
+export interface LeaderboardRow {
+    rank: number;
+    userId: string;
+    userName: string;
+    quizzesCompleted?: number;
+    averageScore?: number;
+    totalScore?: number;
+    xp?: number;
+    activities?: number;
+}
+
+/**
+ * Start of a window in UTC: Monday of this week, the 1st of this month, or null for all time
+ */
+export const windowStart = (window: LeaderboardWindow, now = new Date()): Date | null => {
+    if (window === 'week') return new Date(`${weekStartKey(now)}T00:00:00Z`);
+    if (window === 'month') return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    return null;
+};
+
+/**
+ * Best score per user and quiz. All time this is the leaderboard entry itself; within a window
+ * it is the best attempt made in the window, for quizzes the user is ranked on.
+ */
+const quizScores = (since: Date | null): Prisma.Sql =>
+    since
+        ? Prisma.sql`
+            SELECT qa."userId", qa."quizId", MAX(qa."score") AS "score"
+            FROM "QuizAttempt" qa
+            JOIN "LeaderboardEntry" le ON le."userId" = qa."userId" AND le."quizId" = qa."quizId"
+            WHERE qa."createdAt" >= ${since}
+            GROUP BY qa."userId", qa."quizId"`
+        : Prisma.sql`
+            SELECT le."userId", le."quizId", le."score"
+            FROM "LeaderboardEntry" le`;
+
+const quizStats = (query: LeaderboardQuery, since: Date | null): Prisma.Sql => {
+    const conditions: Prisma.Sql[] = [];
+    if (query.languageId) conditions.push(Prisma.sql`l."languageId" = ${query.languageId}`);
+    if (query.levels) conditions.push(Prisma.sql`l."level"::text IN (${Prisma.join(query.levels)})`);
+
+    return Prisma.sql`
+        SELECT
+            s."userId",
+            COUNT(*) AS "quizzesCompleted",
+            ROUND(AVG(s."score")::numeric, 2) AS "averageScore",
+            SUM(s."score") AS "totalScore"
+        FROM (${quizScores(since)}) s
+        ${conditions.length ? Prisma.sql`
+        JOIN "Quiz" q ON s."quizId" = q."id"
+        JOIN "Lesson" l ON q."lessonId" = l."id"
+        WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty}
+        GROUP BY s."userId"
+        HAVING COUNT(*) >= ${query.minActivity}`;
+};
+
+const xpStats = (query: LeaderboardQuery, since: Date | null): Prisma.Sql => {
+    const conditions: Prisma.Sql[] = [];
+    if (since) conditions.push(Prisma.sql`ae."createdAt" >= ${since}`);
+    if (query.languageId) conditions.push(Prisma.sql`ae."languageId" = ${query.languageId}`);
+
+    return Prisma.sql`
+        SELECT ae."userId", SUM(ae."xp") AS "xp", COUNT(*) AS "activities"
+        FROM "ActivityEvent" ae
+        ${conditions.length ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty}
+        GROUP BY ae."userId"
+        HAVING COUNT(*) >= ${query.minActivity}`;
+};
+
+/**
+ * The ranked board as a "ranked" CTE, for the page, count and caller queries to select from.
+ * Quiz boards only hold verified users (entries require it); XP boards filter on it here.
+ */
+const rankedBoard = (query: LeaderboardQuery): Prisma.Sql => {
+    const since = windowStart(query.window);
+    const stats = query.metric === 'xp' ? xpStats(query, since) : quizStats(query, since);
+
+    return Prisma.sql`
+        WITH stats AS (${stats}),
+        ranked AS (
+            SELECT
+                u."id" AS "userId",
+                u."fullName" AS "userName",
+                ${METRIC_COLUMNS[query.metric]},
+                RANK() OVER (ORDER BY ${METRIC_ORDER[query.metric]}) AS "rank"
+            FROM stats
+            JOIN "User" u ON u."id" = stats."userId"
+            WHERE u."deactivatedAt" IS NULL
+            ${query.metric === 'xp' ? Prisma.sql`AND u."emailVerified" = TRUE` : Prisma.empty}
+            ${query.userIds ? Prisma.sql`AND u."id" IN (${Prisma.join(query.userIds)})` : Prisma.empty}
+        )`;
+};
+
+// Raw rows carry BigInt counts and Decimal averages
+const toRow = (row: Record<string, unknown>, metric: LeaderboardMetric): LeaderboardRow => ({
+    rank: Number(row.rank),
+    userId: row.userId as string,
+    userName: row.userName as string,
+    ...(metric === 'xp'
+        ? {
+            xp: Number(row.xp),
+            activities: Number(row.activities)
+        }
+        : {
+            quizzesCompleted: Number(row.quizzesCompleted),
+            averageScore: Number(row.averageScore),
+            totalScore: Number(row.totalScore)
+        })
+});
+
+/**
+ * One page of a leaderboard, the number of ranked users, and the caller's own row
+ * (null when anonymous or not ranked)
+ */
+export const loadLeaderboard = async (
+    query: LeaderboardQuery,
+    page: { limit: number; skip: number },
+    callerId?: string
+): Promise<{ leaderboard: LeaderboardRow[]; total: number; me: LeaderboardRow | null }> => {
+    const ranked = rankedBoard(query);
+
+    const [rows, [{ total }], callerRows] = await Promise.all([
+        prisma.$queryRaw<Record<string, unknown>[]>`
+            ${ranked}
+            SELECT * FROM ranked
+            ORDER BY "rank", "userName", "userId"
+            LIMIT ${page.limit} OFFSET ${page.skip}`,
+        prisma.$queryRaw<{ total: number }[]>`
+            ${ranked}
+            SELECT COUNT(*)::int AS "total" FROM ranked`,
+        callerId
+            ? prisma.$queryRaw<Record<string, unknown>[]>`
+                ${ranked}
+                SELECT * FROM ranked WHERE "userId" = ${callerId}`
+            : Promise.resolve([])
+    ]);
+
+    return {
+        leaderboard: rows.map(row => toRow(row, query.metric)),
+        total,
+        me: callerRows.length ? toRow(callerRows[0], query.metric) : null
+    };
+};
@@ -0,0 +1,257 @@
+import { PrismaClient, Prisma, ActivityType, LeagueTier, LeagueOutcome } from '@prisma/client';
+import { addDaysToKey, weekStartKey } from '../utils/dates';
+
+const prisma = new PrismaClient();
+
+// Tiers from lowest to highest; promotion moves a learner one step up
+export const TIER_ORDER: LeagueTier[] = [
+    LeagueTier.BRONZE,
+    LeagueTier.SILVER,
+    LeagueTier.GOLD,
+    LeagueTier.PLATINUM,
+    LeagueTier.DIAMOND
+];
+
+// A cohort is filled up to COHORT_SIZE learners before a new one is opened
+export const COHORT_SIZE = 30;
+// Places promoted and relegated in a full cohort; smaller cohorts get proportionally fewer
+export const PROMOTE_COUNT = 7;
+export const RELEGATE_COUNT = 5;
+
+// Only lessons and quizzes count towards league XP
+export const LEAGUE_XP_TYPES: ActivityType[] = [ActivityType.LESSON_COMPLETED, ActivityType.QUIZ_ATTEMPT];
+
+export type LeagueZone = 'promotion' | 'relegation' | 'safe';
+
+export interface LeagueStanding {
+    rank: number;
+    userId: string;
+    userName: string;
+    xp: number;
+    zone: LeagueZone;
+}
+
+export interface LeagueWeekSummary {
+    weekStart: string;
+    cohorts: number;
+    promoted: number;
+    relegated: number;
+    stayed: number;
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of a league week. League weeks run Monday to Monday in UTC,
+ * so every member of a cohort has the same deadline whatever their timezone.
+ */
+export const leagueWeekRange = (weekStart: string): { start: Date; end: Date } => ({
+    start: new Date(`${weekStart}T00:00:00Z`),
+    end: new Date(`${addDaysToKey(weekStart, 7)}T00:00:00Z`)
+});
+
+export const isWeekStartKey = (value: unknown): value is string =>
+    typeof value === 'string'
+    && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    && !Number.isNaN(Date.parse(`${value}T00:00:00Z`))
+    && weekStartKey(new Date(`${value}T00:00:00Z`)) === value;
+
+/**
+ * How many places are promoted and relegated in a cohort of this size. A lone learner can
+ * still be promoted, but relegation needs a few competitors.
+ */
+export const zoneSizes = (memberCount: number): { promote: number; relegate: number } => ({
+    promote: Math.min(PROMOTE_COUNT, Math.ceil((memberCount * PROMOTE_COUNT) / COHORT_SIZE)),
+    relegate: Math.min(RELEGATE_COUNT, Math.floor((memberCount * RELEGATE_COUNT) / COHORT_SIZE))
+});
+
+const nextTier = (tier: LeagueTier, step: 1 | -1): LeagueTier | null =>
+    TIER_ORDER[TIER_ORDER.indexOf(tier) + step] ?? null;
+
+/**
+ * Rank cohort members by XP. Ties are broken by who joined the cohort first, then by user id,
+ * so ranking the same week twice always gives the same order. Members need some XP to be
+ * promoted, and the top or bottom tier has nowhere to move to.
+ */
+export const rankCohort = <T extends { userId: string; joinedAt: Date; xp: number }>(
+    members: T[],
+    tier: LeagueTier
+): (T & { rank: number; zone: LeagueZone })[] => {
+    const { promote, relegate } = zoneSizes(members.length);
+    const canPromote = nextTier(tier, 1) !== null;
+    const canRelegate = nextTier(tier, -1) !== null;
+
+    return [...members]
+        .sort((a, b) =>
+            b.xp - a.xp
+            || a.joinedAt.getTime() - b.joinedAt.getTime()
+            || (a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0))
+        .map((member, index) => {
+            const rank = index + 1;
+            let zone: LeagueZone = 'safe';
+            if (canPromote && rank <= promote && member.xp > 0) zone = 'promotion';
+            else if (canRelegate && rank > members.length - relegate) zone = 'relegation';
+            return { ...member, rank, zone };
+        });
+};
+
+const COHORT_MEMBERS = { members: { select: { id: true, userId: true, joinedAt: true } } } as const;
+
+type ClosableCohort = Prisma.LeagueCohortGetPayload<{ include: typeof COHORT_MEMBERS }>;
+
+// League XP per user earned in the week
+const loadWeeklyXp = async (userIds: string[], weekStart: string): Promise<Map<string, number>> => {
+    const { start, end } = leagueWeekRange(weekStart);
+    const totals = await prisma.activityEvent.groupBy({
+        by: ['userId'],
+        where: {
+            userId: { in: userIds },
+            type: { in: LEAGUE_XP_TYPES },
+            createdAt: { gte: start, lt: end }
+        },
+        _sum: { xp: true }
+    });
+    return new Map(totals.map(total => [total.userId, total._sum.xp ?? 0]));
+};
+
+/**
+ * Close a cohort of a finished week: record each member's final XP, rank and outcome, and
+ * move promoted and relegated learners to their new tier. The cohort is claimed by setting
+ * closedAt, so closing it again (or twice at once) never moves anyone twice.
+ * Returns the members' outcomes, or null if the cohort was already closed.
+ */
+const closeCohort = async (cohort: ClosableCohort, now: Date): Promise<LeagueOutcome[] | null> => {
+    const xp = await loadWeeklyXp(cohort.members.map(member => member.userId), cohort.weekStart);
+    const standings = rankCohort(
+        cohort.members.map(member => ({ ...member, xp: xp.get(member.userId) ?? 0 })),
+        cohort.tier
+    );
+
+    return prisma.$transaction(async tx => {
+        const { count } = await tx.leagueCohort.updateMany({
+            where: { id: cohort.id, closedAt: null },
+            data: { closedAt: now }
+        });
+        if (!count) return null;
+
+        const outcomes: LeagueOutcome[] = [];
+        for (const member of standings) {
+            const outcome = member.zone === 'promotion'
+                ? LeagueOutcome.PROMOTED
+                : member.zone === 'relegation' ? LeagueOutcome.RELEGATED : LeagueOutcome.STAYED;
+
+            await tx.leagueMembership.update({
+                where: { id: member.id },
+                data: { finalXp: member.xp, finalRank: member.rank, outcome }
+            });
+            if (outcome !== LeagueOutcome.STAYED) {
+                await tx.user.update({
+                    where: { id: member.userId },
+                    data: { leagueTier: nextTier(cohort.tier, outcome === LeagueOutcome.PROMOTED ? 1 : -1)! }
+                });
+            }
+            outcomes.push(outcome);
+        }
+        return outcomes;
+    });
+};
+
+/**
+ * Put the learner in a cohort of their tier for the week, if they are not in one yet.
+ * The oldest cohort with room is filled first. Best-effort like the rest of activity
+ * tracking: errors are logged, never thrown.
+ */
+export const joinWeeklyLeague = async (userId: string, now = new Date()): Promise<void> => {
+    try {
+        const weekStart = weekStartKey(now);
+        const existing = await prisma.leagueMembership.findUnique({
+            where: { userId_weekStart: { userId, weekStart } },
+            select: { id: true }
+        });
+        if (existing) return;
+
+        // The close job may not have run yet for the weeks the learner last played. Close
+        // those cohorts first, oldest first, so the learner joins at the tier they earned.
+        const unclosed = await prisma.leagueMembership.findMany({
+            where: { userId, weekStart: { lt: weekStart }, cohort: { closedAt: null } },
+            orderBy: { weekStart: 'asc' },
+            include: { cohort: { include: COHORT_MEMBERS } }
+        });
+        for (const membership of unclosed) {
+            await closeCohort(membership.cohort, now);
+        }
+
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { leagueTier: true } });
+        if (!user) return;
+
+        const cohorts = await prisma.leagueCohort.findMany({
+            where: { weekStart, tier: user.leagueTier, closedAt: null },
+            orderBy: { createdAt: 'asc' },
+            select: { id: true, _count: { select: { members: true } } }
+        });
+        const open = cohorts.find(cohort => cohort._count.members < COHORT_SIZE);
+        const cohortId = open
+            ? open.id
+            : (await prisma.leagueCohort.create({ data: { weekStart, tier: user.leagueTier } })).id;
+
+        await prisma.leagueMembership.create({ data: { cohortId, userId, weekStart } });
+    } catch (error) {
+        // A concurrent activity already placed the learner
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return;
+        console.error('Joining weekly league failed:', error);
+    }
+};
+
+/**
+ * Live standings of a cohort
+ */
+export const loadCohortStandings = async (cohortId: string): Promise<LeagueStanding[]> => {
+    const cohort = await prisma.leagueCohort.findUnique({
+        where: { id: cohortId },
+        include: { members: { include: { user: { select: { fullName: true } } } } }
+    });
+    if (!cohort) return [];
+
+    const xp = await loadWeeklyXp(cohort.members.map(member => member.userId), cohort.weekStart);
+    return rankCohort(
+        cohort.members.map(member => ({
+            userId: member.userId,
+            userName: member.user.fullName,
+            joinedAt: member.joinedAt,
+            xp: xp.get(member.userId) ?? 0
+        })),
+        cohort.tier
+    ).map(({ rank, userId, userName, xp, zone }) => ({ rank, userId, userName, xp, zone }));
+};
+
+/**
+ * Close every open cohort of a finished week (see closeCohort). Cohorts already closed,
+ * by an earlier run or when one of their members joined a later week, are skipped.
+ */
+export const closeLeagueWeek = async (weekStart: string, now = new Date()): Promise<LeagueWeekSummary> => {
+    if (!isWeekStartKey(weekStart)) {
+        throw new Error(`${weekStart} is not the Monday of a league week`);
+    }
+    if (leagueWeekRange(weekStart).end > now) {
+        throw new Error(`The league week of ${weekStart} has not ended yet`);
+    }
+
+    const summary: LeagueWeekSummary = { weekStart, cohorts: 0, promoted: 0, relegated: 0, stayed: 0 };
+    const cohorts = await prisma.leagueCohort.findMany({
+        where: { weekStart, closedAt: null },
+        orderBy: [{ tier: 'asc' }, { createdAt: 'asc' }],
+        include: COHORT_MEMBERS
+    });
+
+    for (const cohort of cohorts) {
+        const outcomes = await closeCohort(cohort, now);
+        if (!outcomes) continue;
+
+        summary.cohorts++;
+        for (const outcome of outcomes) {
+            if (outcome === LeagueOutcome.PROMOTED) summary.promoted++;
+            else if (outcome === LeagueOutcome.RELEGATED) summary.relegated++;
+            else summary.stayed++;
+        }
+    }
+
+    return summary;
+};
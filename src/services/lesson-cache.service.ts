@@ -0,0 +1,85 @@
+import { PrismaClient, Lesson, Level } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// How long a generated lesson may be served to other learners; 0 disables reuse
+const CACHE_TTL_HOURS = parseFloat(process.env.LESSON_CACHE_TTL_HOURS || '168');
+// Number of variants kept per (language, level, topic) before lessons are only reused
+const CACHE_POOL_SIZE = Math.max(1, parseInt(process.env.LESSON_CACHE_POOL_SIZE || '3', 10));
+
+// Words that do not change what a lesson is about
+const STOP_WORDS = new Set(['a', 'an', 'the', 'about', 'and', 'of', 'for', 'to', 'in', 'on', 'with', 'lesson']);
+
+type CacheOutcome = 'hit' | 'miss' | 'forced';
+
+const metrics = {
+    since: new Date(),
+    hit: 0,
+    miss: 0,
+    forced: 0
+};
+
+/**
+ * "Food & Drinks!" and "drinks and food" both become "drinks food"
+ */
+export const normalizeTopic = (topic?: string | null): string => {
+    const words = (topic || '')
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .split(' ')
+        .filter(word => word && !STOP_WORDS.has(word));
+
+    return Array.from(new Set(words)).sort().join(' ') || '_general';
+};
+
+export const lessonCacheKey = (languageId: string, level: Level, topic?: string | null): string =>
+    `${languageId}:${level}:${normalizeTopic(topic)}`;
+
+export const recordCacheOutcome = (outcome: CacheOutcome): void => {
+    metrics[outcome]++;
+};
+
+/**
+ * Find a fresh lesson for the key that the user can reuse. Lessons the user has not
+ * started are preferred; once they have seen every variant, a new variant is generated
+ * until the pool is full. Returns null when a new lesson should be generated.
+ */
+export const findReusableLesson = async (cacheKey: string, userId: string): Promise<Lesson | null> => {
+    if (CACHE_TTL_HOURS <= 0) return null;
+
+    const variants = await prisma.lesson.findMany({
+        where: {
+            cacheKey,
+            createdAt: { gte: new Date(Date.now() - CACHE_TTL_HOURS * 60 * 60 * 1000) }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: CACHE_POOL_SIZE,
+        include: { progress: { where: { userId }, select: { id: true } } }
+    });
+
+    const usable = variants.filter(variant => variant.content !== null);
+    const unseen = usable.filter(variant => variant.progress.length === 0);
+    const candidates = unseen.length ? unseen : usable.length >= CACHE_POOL_SIZE ? usable : [];
+
+    if (!candidates.length) return null;
+
+    const { progress, ...lesson } = candidates[Math.floor(Math.random() * candidates.length)];
+    return lesson;
+};
+
+export const getLessonCacheStats = () => {
+    const lookups = metrics.hit + metrics.miss;
+
+    return {
+        since: metrics.since,
+        ttlHours: CACHE_TTL_HOURS,
+        poolSize: CACHE_POOL_SIZE,
+        hits: metrics.hit,
+        misses: metrics.miss,
+        forcedNew: metrics.forced,
+        // Forced generations skip the cache, so they do not count as lookups
+        hitRate: lookups ? Math.round((metrics.hit / lookups) * 1000) / 1000 : null
+    };
+};
@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto';
+import { PrismaClient, Prisma, ExerciseType, LessonExercise } from '@prisma/client';
+import { ExerciseDraft, ExerciseKind, LessonContent } from './llm/llm.schemas';
+
+const prisma = new PrismaClient();
+
+export const EXERCISE_TYPES: Record<ExerciseKind, ExerciseType> = {
+    fill_blank: ExerciseType.FILL_BLANK,
+    translate: ExerciseType.TRANSLATE,
+    reorder: ExerciseType.REORDER,
+    match_pairs: ExerciseType.MATCH_PAIRS,
+    dictation: ExerciseType.DICTATION
+};
+
+const EXERCISE_KIND_OF = Object.fromEntries(
+    Object.entries(EXERCISE_TYPES).map(([kind, type]) => [type, kind])
+) as Record<ExerciseType, ExerciseKind>;
+
+interface AnswerKey {
+    answers?: string[];
+    pairs?: Array<{ left: string; right: string }>;
+}
+
+// What the client sees: the exercise without its answer key
+export type PublicExercise = { id: string; type: ExerciseKind; position: number } & Record<string, unknown>;
+
+export interface AnswerMatch {
+    isCorrect: boolean;
+    // Right apart from accents, which the learner should be told about
+    accentsDiffer: boolean;
+}
+
+export interface GradedExercise extends AnswerMatch {
+    exerciseId: string;
+    type: ExerciseKind;
+    correctAnswer: string | Array<{ left: string; right: string }>;
+    // Per pair results of match_pairs, keyed by the left item
+    pairs?: Record<string, boolean>;
+}
+
+/**
+ * Normalize an answer for comparison: case, punctuation, apostrophes and spacing never count.
+ * Accents are kept unless `ignoreAccents` is set.
+ */
+export const normalizeAnswer = (text: string, ignoreAccents = false): string => {
+    const decomposed = text.normalize('NFD');
+    return (ignoreAccents ? decomposed.replace(/\p{M}+/gu, '') : decomposed)
+        .normalize('NFC')
+        .toLocaleLowerCase()
+        .replace(/['’`]/g, '')
+        .replace(/[\p{P}\p{S}]+/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+};
+
+/**
+ * Compare an answer with every accepted one. An answer that only gets accents wrong is
+ * accepted but flagged, as missing accents are the most common typing slip.
+ */
+export const matchAnswer = (submitted: string, accepted: string[]): AnswerMatch => {
+    const exact = normalizeAnswer(submitted);
+    if (exact && accepted.some(answer => normalizeAnswer(answer) === exact)) {
+        return { isCorrect: true, accentsDiffer: false };
+    }
+
+    const loose = normalizeAnswer(submitted, true);
+    const isCorrect = !!loose && accepted.some(answer => normalizeAnswer(answer, true) === loose);
+    return { isCorrect, accentsDiffer: isCorrect };
+};
+
+// Shuffle so that the result differs from the original order whenever it can
+export const shuffle = <T>(items: T[]): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    const unchanged = shuffled.every((item, index) => item === items[index]);
+    return unchanged && shuffled.length > 1 ? [...shuffled.slice(1), shuffled[0]] : shuffled;
+};
+
+// Where a dictation exercise's sentence is read out, so the text itself never reaches the client
+export const exerciseAudioPath = (exerciseId: string): string => `/api/ai-lessons/exercises/${exerciseId}/audio`;
+
+/**
+ * Split an exercise into what the learner is shown and the answer key kept on the server
+ */
+const splitExercise = (draft: ExerciseDraft, id: string): { prompt: Prisma.InputJsonObject; answerKey: AnswerKey } => {
+    switch (draft.type) {
+        case 'fill_blank':
+            return { prompt: { sentence: draft.sentence, hint: draft.hint }, answerKey: { answers: draft.answers } };
+        case 'translate':
+            return { prompt: { text: draft.text }, answerKey: { answers: draft.answers } };
+        case 'reorder':
+            return { prompt: { words: shuffle(draft.answers[0].split(/\s+/)) }, answerKey: { answers: draft.answers } };
+        case 'match_pairs':
+            return {
+                prompt: { left: draft.pairs.map(pair => pair.left), right: shuffle(draft.pairs.map(pair => pair.right)) },
+                answerKey: { pairs: draft.pairs }
+            };
+        case 'dictation':
+            return {
+                prompt: { audioUrl: exerciseAudioPath(id), translation: draft.translation },
+                answerKey: { answers: draft.answers }
+            };
+    }
+};
+
+export const toPublicExercise = (
+    exercise: Pick<LessonExercise, 'id' | 'type' | 'position'> & { prompt: unknown }
+): PublicExercise => ({
+    id: exercise.id,
+    type: EXERCISE_KIND_OF[exercise.type],
+    position: exercise.position,
+    ...(exercise.prompt as Record<string, unknown>)
+});
+
+/**
+ * Prepare generated or edited content for storage: the exercises become LessonExercise rows
+ * holding the answer keys, and the content keeps only their public side.
+ */
+export const prepareLessonExercises = (
+    content: LessonContent
+): { content: Prisma.InputJsonObject; exercises: Prisma.LessonExerciseCreateManyLessonInput[] } => {
+    const exercises = content.exercises.map((draft, position) => {
+        const id = randomUUID();
+        const { prompt, answerKey } = splitExercise(draft, id);
+        return {
+            id,
+            position,
+            type: EXERCISE_TYPES[draft.type],
+            prompt,
+            answerKey: answerKey as Prisma.InputJsonObject
+        };
+    });
+
+    return {
+        content: {
+            ...content,
+            exercises: exercises.map(exercise => toPublicExercise(exercise))
+        } as unknown as Prisma.InputJsonObject,
+        exercises
+    };
+};
+
+/**
+ * Check that an answer has the shape its exercise expects. Returns an error message or null.
+ * Text answers are strings; reorder also takes the words as an array; match_pairs takes an
+ * object mapping each left item to the chosen right item.
+ */
+export const validateExerciseAnswer = (type: ExerciseType, answer: unknown): string | null => {
+    if (type === ExerciseType.MATCH_PAIRS) {
+        const valid = !!answer && typeof answer === 'object' && !Array.isArray(answer)
+            && Object.values(answer).every(value => typeof value === 'string');
+        return valid ? null : 'answer must be an object mapping each left item to a right item';
+    }
+    if (type === ExerciseType.REORDER && Array.isArray(answer)) {
+        return answer.every(word => typeof word === 'string') ? null : 'answer must be an array of words';
+    }
+    return typeof answer === 'string' ? null : 'answer must be a string';
+};
+
+/**
+ * Grade a validated answer against the exercise's answer key
+ */
+export const gradeExercise = (exercise: LessonExercise, answer: unknown): GradedExercise => {
+    const key = exercise.answerKey as AnswerKey;
+    const type = EXERCISE_KIND_OF[exercise.type];
+
+    if (exercise.type === ExerciseType.MATCH_PAIRS) {
+        const chosen = Object.entries(answer as Record<string, string>);
+        const pairs = key.pairs ?? [];
+        const results = pairs.map(pair => {
+            // Accents tell left items such as "te" and "té" apart. Ignoring them is only a
+            // fallback, and only when no other pair's left item would match the same way.
+            const loose = normalizeAnswer(pair.left, true);
+            const unambiguous = pairs.filter(other => normalizeAnswer(other.left, true) === loose).length === 1;
+            const entry = chosen.find(([left]) => normalizeAnswer(left) === normalizeAnswer(pair.left))
+                ?? (unambiguous ? chosen.find(([left]) => normalizeAnswer(left, true) === loose) : undefined);
+            return { left: pair.left, match: entry ? matchAnswer(entry[1], [pair.right]) : null };
+        });
+
+        const isCorrect = results.every(result => result.match?.isCorrect);
+        return {
+            exerciseId: exercise.id,
+            type,
+            isCorrect,
+            accentsDiffer: isCorrect && results.some(result => result.match?.accentsDiffer),
+            correctAnswer: pairs,
+            pairs: Object.fromEntries(results.map(result => [result.left, !!result.match?.isCorrect]))
+        };
+    }
+
+    const accepted = key.answers ?? [];
+    const text = Array.isArray(answer) ? answer.join(' ') : String(answer);
+    return {
+        exerciseId: exercise.id,
+        type,
+        ...matchAnswer(text, accepted),
+        correctAnswer: accepted[0] ?? ''
+    };
+};
+
+/**
+ * Share of a lesson's exercises the learner has answered correctly at least once, 0-100
+ */
+export const lessonExerciseScore = async (userId: string, lessonId: string): Promise<number> => {
+    const [total, solved] = await Promise.all([
+        prisma.lessonExercise.count({ where: { lessonId } }),
+        prisma.lessonExercise.count({
+            where: { lessonId, attempts: { some: { userId, isCorrect: true } } }
+        })
+    ]);
+    return total ? Math.round((solved / total) * 100) : 0;
+};
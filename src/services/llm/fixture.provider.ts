@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import { LLMProvider, LLMRequest, LLMTask } from './llm.types';
+
+// Canned responses used when no fixture file overrides them
+const DEFAULT_FIXTURES: Record<LLMTask, unknown> = {
+    lesson: {
+        vocabulary: [
+            { word: 'hola', translation: 'hello', example: 'Hola, ¿cómo estás?' },
+            { word: 'adiós', translation: 'goodbye', example: 'Adiós, hasta mañana.' },
+            { word: 'gracias', translation: 'thank you', example: 'Muchas gracias por tu ayuda.' },
+            { word: 'por favor', translation: 'please', example: 'Un café, por favor.' },
+            { word: 'buenos días', translation: 'good morning', example: 'Buenos días, señora.' }
+        ],
+        grammar: 'Greetings change with the time of day: buenos días, buenas tardes, buenas noches.',
+        examples: ['Hola, me llamo Ana.', 'Buenas tardes, ¿qué tal?', 'Adiós, nos vemos.'],
+        exercises: [
+            { type: 'fill_blank', sentence: 'Buenos ___, señora.', answers: ['días'], hint: 'morning greeting' },
+            { type: 'translate', text: 'Thank you very much', answers: ['Muchas gracias'] },
+            { type: 'reorder', answers: ['Hola me llamo Ana'] },
+            {
+                type: 'match_pairs',
+                pairs: [
+                    { left: 'hola', right: 'hello' },
+                    { left: 'adiós', right: 'goodbye' },
+                    { left: 'gracias', right: 'thank you' }
+                ]
+            },
+            { type: 'dictation', answers: ['Adiós, hasta mañana.'], translation: 'Goodbye, see you tomorrow.' }
+        ],
+        culturalNotes: 'Friends and family often greet each other with a kiss on the cheek.'
+    },
+    quiz: [
+        {
+            question: 'What does "hola" mean?',
+            options: ['Goodbye', 'Hello', 'Please', 'Thanks'],
+            correctAnswer: 1,
+            explanation: '"Hola" is the most common way to say hello.'
+        },
+        {
+            question: 'How do you say "thank you"?',
+            options: ['Gracias', 'Por favor', 'Adiós', 'Hola'],
+            correctAnswer: 0,
+            explanation: '"Gracias" means thank you.'
+        },
+        {
+            question: 'Which greeting is used in the morning?',
+            options: ['Buenas noches', 'Buenas tardes', 'Buenos días', 'Hasta luego'],
+            correctAnswer: 2,
+            explanation: '"Buenos días" is used until around noon.'
+        },
+        {
+            question: 'What does "por favor" mean?',
+            options: ['Sorry', 'Excuse me', 'You are welcome', 'Please'],
+            correctAnswer: 3,
+            explanation: '"Por favor" means please.'
+        },
+        {
+            question: 'What does "adiós" mean?',
+            options: ['Goodbye', 'Good morning', 'Hello', 'See you'],
+            correctAnswer: 0,
+            explanation: '"Adiós" is a way to say goodbye.'
+        }
+    ],
+    conversation: {
+        context: 'Ordering a coffee at a café',
+        vocabulary: [
+            { word: 'café', translation: 'coffee' },
+            { word: 'la cuenta', translation: 'the bill' }
+        ],
+        script: [
+            { target: 'Hola, un café por favor.', english: 'Hello, a coffee please.' },
+            { target: 'Claro, ¿algo más?', english: 'Of course, anything else?' },
+            { target: 'No, gracias. La cuenta, por favor.', english: 'No, thanks. The bill, please.' }
+        ],
+        culturalNotes: 'Tipping is appreciated but not mandatory.'
+    },
+    conversationReply: {
+        reply: '¡Muy bien! Try adding "por favor" to sound more polite. ¿Quieres algo más?',
+        corrections: [
+            {
+                original: 'la café',
+                corrected: 'el café',
+                category: 'gender_agreement',
+                explanation: '"Café" is a masculine noun.'
+            }
+        ]
+    },
+    conversationSummary: {
+        summary: 'You held a simple café conversation and stayed in the target language throughout.',
+        mistakes: [
+            {
+                original: 'Yo quiero un café',
+                correction: 'Quiero un café, por favor',
+                explanation: 'The subject pronoun is usually dropped, and "por favor" sounds more polite.'
+            }
+        ],
+        strengths: ['Good use of greetings'],
+        suggestions: ['Practise polite requests with "quisiera"']
+    },
+    pronunciation: {
+        feedback: 'Good attempt! Your vowels are clear.',
+        suggestions: ['Keep vowels short and pure', 'Roll the "r" slightly'],
+        phonemes: [{ sound: 'r', feedback: 'Tap the tongue once behind the teeth.' }]
+    },
+    pronunciationPractice: {
+        sentences: [
+            { text: 'El perro corre rápido.', translation: 'The dog runs fast.', targetSounds: ['r'] },
+            { text: 'Rosa compra tres naranjas.', translation: 'Rosa buys three oranges.', targetSounds: ['r', 'ɲ'] },
+            { text: 'La niña tiene sueño.', translation: 'The girl is sleepy.', targetSounds: ['ɲ'] }
+        ]
+    },
+    placement: {
+        questions: [
+            { level: 'A1', question: 'What does "gato" mean?', options: ['Dog', 'Cat', 'House', 'Car'], correctAnswer: 1, explanation: '"Gato" means cat.' },
+            { level: 'A1', question: 'Complete: "Yo ___ Ana."', options: ['soy', 'eres', 'es', 'somos'], correctAnswer: 0, explanation: '"Soy" is the first person of "ser".' },
+            { level: 'A2', question: 'Which word means "water"?', options: ['Leche', 'Pan', 'Agua', 'Vino'], correctAnswer: 2, explanation: '"Agua" means water.' },
+            { level: 'A2', question: 'How do you say "good night"?', options: ['Buenos días', 'Buenas tardes', 'Hasta luego', 'Buenas noches'], correctAnswer: 3, explanation: '"Buenas noches" is used at night.' },
+            { level: 'B1', question: 'Complete: "Ayer ___ al cine."', options: ['voy', 'fui', 'iré', 'iba a'], correctAnswer: 1, explanation: 'A single completed past action takes the preterite.' },
+            { level: 'B1', question: 'Complete: "Cuando era niño, ___ en Madrid."', options: ['viví', 'vivo', 'vivía', 'viviré'], correctAnswer: 2, explanation: 'Background descriptions in the past take the imperfect.' },
+            { level: 'B2', question: 'Choose the correct pronoun: "¿El libro? ___ compré ayer."', options: ['Lo', 'La', 'Le', 'Les'], correctAnswer: 0, explanation: '"Libro" is masculine singular, so the direct object pronoun is "lo".' },
+            { level: 'B2', question: 'Complete: "Espero que ___ bien."', options: ['estás', 'estarás', 'estabas', 'estés'], correctAnswer: 3, explanation: '"Esperar que" triggers the subjunctive.' },
+            { level: 'C1', question: 'Complete: "Si lo hubiera sabido, te lo ___."', options: ['habría dicho', 'había dicho', 'diría', 'dije'], correctAnswer: 0, explanation: 'Past unreal conditions take the conditional perfect.' },
+            { level: 'C1', question: 'What does "estar en las nubes" mean?', options: ['To be very happy', 'To be daydreaming', 'To travel by plane', 'To be angry'], correctAnswer: 1, explanation: 'The idiom means to be absent-minded.' },
+            { level: 'C2', question: 'Complete: "No creo que ___ tiempo de terminarlo."', options: ['tuvimos', 'tenemos', 'tengamos', 'tendremos'], correctAnswer: 2, explanation: 'Doubt with "no creo que" takes the subjunctive.' },
+            { level: 'C2', question: 'Which sentence is correct?', options: ['Me se olvidó', 'Se olvidó me', 'Olvidóseme no', 'Se me olvidó'], correctAnswer: 3, explanation: 'Accidental "se" comes before the indirect object pronoun.' }
+        ]
+    }
+};
+
+/**
+ * Deterministic offline provider for tests and local development.
+ * Responses come from `<LLM_FIXTURES_DIR>/<task>.json` (or `.txt`) when present,
+ * otherwise from the built-in defaults above.
+ */
+export class FixtureProvider implements LLMProvider {
+    readonly name = 'fixture';
+
+    constructor(private readonly fixturesDir: string | undefined = process.env.LLM_FIXTURES_DIR) {}
+
+    async generate(request: LLMRequest): Promise<string> {
+        if (this.fixturesDir) {
+            for (const extension of ['json', 'txt']) {
+                const file = path.join(this.fixturesDir, `${request.task}.${extension}`);
+                if (fs.existsSync(file)) {
+                    return fs.promises.readFile(file, 'utf8');
+                }
+            }
+        }
+
+        const fixture = DEFAULT_FIXTURES[request.task];
+        return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+    }
+}
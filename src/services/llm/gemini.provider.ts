@@ -0,0 +1,35 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLMProvider, LLMRequest } from './llm.types';
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini';
+    private client: GoogleGenerativeAI | null = null;
+
+    constructor(
+        private readonly apiKey: string = process.env.GEMINI_API_KEY || '',
+        private readonly defaultModel: string = process.env.GEMINI_MODEL || 'gemini-2.5-flash'
+    ) {}
+
+    async generate(request: LLMRequest): Promise<string> {
+        if (!this.apiKey) {
+            throw new Error('Missing GEMINI_API_KEY in environment variables');
+        }
+
+        if (!this.client) {
+            this.client = new GoogleGenerativeAI(this.apiKey);
+        }
+
+        const model = this.client.getGenerativeModel({ model: request.model || this.defaultModel });
+
+        const result = await model.generateContent({
+            contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+            generationConfig: {
+                maxOutputTokens: request.maxOutputTokens,
+                temperature: request.temperature,
+                ...(request.json && { responseMimeType: 'application/json' })
+            }
+        });
+
+        return result.response.text();
+    }
+}
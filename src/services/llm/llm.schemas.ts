@@ -0,0 +1,551 @@
+import { GrammarErrorCategory, Level } from '@prisma/client';
+import { QuizQuestion, QuizQuestionType, QUIZ_QUESTION_TYPES } from '../quiz-grading.service';
+import { normalizeAnswer } from '../lesson-exercise.service';
+
+/**
+ * Validators for the JSON the LLM returns. Each returns either the cleaned value
+ * or a list of human-readable errors that are fed back to the model on retry.
+ */
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; errors: string[] };
+
+export type Validator<T> = (input: unknown) => ValidationResult<T>;
+
+export interface LessonVocabulary {
+    word: string;
+    translation: string;
+    example: string;
+}
+
+// Exercise kinds as the LLM writes them; each maps to an ExerciseType
+export const EXERCISE_KINDS = ['fill_blank', 'translate', 'reorder', 'match_pairs', 'dictation'] as const;
+export type ExerciseKind = typeof EXERCISE_KINDS[number];
+
+// Marks the gap in a fill_blank sentence
+export const BLANK = '___';
+
+/**
+ * A lesson exercise with its answer key, as generated or edited. `answers` lists every
+ * accepted answer, the preferred one first.
+ */
+export type ExerciseDraft =
+    | { type: 'fill_blank'; sentence: string; answers: string[]; hint: string }
+    | { type: 'translate'; text: string; answers: string[] }
+    | { type: 'reorder'; answers: string[] }
+    | { type: 'match_pairs'; pairs: Array<{ left: string; right: string }> }
+    | { type: 'dictation'; answers: string[]; translation: string };
+
+export interface LessonContent {
+    vocabulary: LessonVocabulary[];
+    grammar: string;
+    examples: string[];
+    exercises: ExerciseDraft[];
+    culturalNotes: string;
+}
+
+export interface GeneratedQuizQuestion {
+    question: string;
+    options: string[];
+    correctAnswer: number;
+    explanation: string;
+}
+
+export interface PlacementQuestionDraft extends GeneratedQuizQuestion {
+    level: Level;
+}
+
+export interface ConversationScript {
+    context: string;
+    vocabulary: Array<{ word: string; translation: string }>;
+    script: Array<Record<string, string>>;
+    culturalNotes: string;
+}
+
+export interface GrammarCorrection {
+    original: string;
+    corrected: string;
+    category: GrammarErrorCategory;
+    explanation: string;
+}
+
+export interface ConversationReply {
+    reply: string;
+    corrections: GrammarCorrection[];
+}
+
+export interface ConversationSummary {
+    summary: string;
+    mistakes: Array<{ original: string; correction: string; explanation: string }>;
+    strengths: string[];
+    suggestions: string[];
+}
+
+export interface PronunciationCoaching {
+    feedback: string;
+    suggestions: string[];
+    // Tips keyed by the IPA symbols of the sounds the scorer flagged
+    phonemes: Array<{ sound: string; feedback: string }>;
+}
+
+export interface PracticeSentence {
+    text: string;
+    translation: string;
+    targetSounds: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0;
+
+const result = <T>(errors: string[], value: T): ValidationResult<T> =>
+    errors.length ? { ok: false, errors } : { ok: true, value };
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.length > 0 && value.every(isNonEmptyString);
+
+export const validateExercise = (item: unknown, label: string): string[] => {
+    if (!isObject(item)) return [`${label} must be an object`];
+    if (!EXERCISE_KINDS.includes(item.type)) return [`${label}.type must be one of ${EXERCISE_KINDS.join(', ')}`];
+
+    const errors: string[] = [];
+    const needsAnswers = item.type !== 'match_pairs';
+    if (needsAnswers && !isStringList(item.answers)) {
+        errors.push(`${label}.answers must be a non-empty array of accepted answers`);
+    }
+
+    switch (item.type) {
+        case 'fill_blank':
+            if (!isNonEmptyString(item.sentence) || item.sentence.split(BLANK).length !== 2) {
+                errors.push(`${label}.sentence must contain exactly one ${BLANK} blank`);
+            }
+            break;
+        case 'translate':
+            if (!isNonEmptyString(item.text)) errors.push(`${label}.text must be a non-empty string`);
+            break;
+        case 'reorder':
+            if (isStringList(item.answers) && item.answers[0].trim().split(/\s+/).length < 2) {
+                errors.push(`${label}.answers[0] must be a sentence of at least 2 words`);
+            }
+            break;
+        case 'match_pairs':
+            if (!Array.isArray(item.pairs) || item.pairs.length < 2) {
+                errors.push(`${label}.pairs must contain at least 2 pairs`);
+            } else if (!item.pairs.every((p: any) => isObject(p) && isNonEmptyString(p.left) && isNonEmptyString(p.right))) {
+                errors.push(`${label}.pairs must all have non-empty "left" and "right" strings`);
+            } else if (new Set(item.pairs.map((p: any) => normalizeAnswer(p.left))).size !== item.pairs.length) {
+                // Compared as grading compares them: "te" and "té" are different items
+                errors.push(`${label}.pairs must not repeat a left item`);
+            }
+            break;
+        case 'dictation':
+            if (item.translation !== undefined && typeof item.translation !== 'string') {
+                errors.push(`${label}.translation must be a string`);
+            }
+            break;
+    }
+
+    return errors;
+};
+
+const toExerciseDraft = (item: any): ExerciseDraft => {
+    const answers = Array.isArray(item.answers) ? item.answers.map((a: string) => a.trim()) : [];
+    switch (item.type as ExerciseKind) {
+        case 'fill_blank':
+            return { type: 'fill_blank', sentence: item.sentence.trim(), answers, hint: typeof item.hint === 'string' ? item.hint : '' };
+        case 'translate':
+            return { type: 'translate', text: item.text.trim(), answers };
+        case 'reorder':
+            return { type: 'reorder', answers };
+        case 'match_pairs':
+            return {
+                type: 'match_pairs',
+                pairs: item.pairs.map((p: any) => ({ left: p.left.trim(), right: p.right.trim() }))
+            };
+        case 'dictation':
+            return { type: 'dictation', answers, translation: typeof item.translation === 'string' ? item.translation : '' };
+    }
+};
+
+export const validateLessonContent: Validator<LessonContent> = (input) => {
+    if (!isObject(input)) return { ok: false, errors: ['Lesson must be a JSON object'] };
+
+    const errors: string[] = [];
+    const { vocabulary, grammar, examples, exercises, culturalNotes } = input;
+
+    if (!Array.isArray(vocabulary) || vocabulary.length === 0) {
+        errors.push('vocabulary must be a non-empty array');
+    } else {
+        vocabulary.forEach((item: any, i: number) => {
+            if (!isObject(item) || !isNonEmptyString(item.word) || !isNonEmptyString(item.translation)) {
+                errors.push(`vocabulary[${i}] must have non-empty "word" and "translation" strings`);
+            } else if (item.example !== undefined && typeof item.example !== 'string') {
+                errors.push(`vocabulary[${i}].example must be a string`);
+            }
+        });
+    }
+
+    if (typeof grammar !== 'string') errors.push('grammar must be a string');
+    if (!Array.isArray(examples) || !examples.every(isNonEmptyString)) {
+        errors.push('examples must be an array of non-empty strings');
+    }
+    if (!Array.isArray(exercises) || exercises.length === 0) {
+        errors.push('exercises must be a non-empty array');
+    } else {
+        exercises.forEach((item: unknown, i: number) => errors.push(...validateExercise(item, `exercises[${i}]`)));
+    }
+    if (culturalNotes !== undefined && typeof culturalNotes !== 'string') {
+        errors.push('culturalNotes must be a string');
+    }
+
+    return result(errors, {
+        vocabulary: Array.isArray(vocabulary)
+            ? vocabulary.map((item: any) => ({
+                word: String(item?.word ?? '').trim(),
+                translation: String(item?.translation ?? '').trim(),
+                example: typeof item?.example === 'string' ? item.example : ''
+            }))
+            : [],
+        grammar: typeof grammar === 'string' ? grammar : '',
+        examples: Array.isArray(examples) ? examples : [],
+        // Only built once every exercise is valid
+        exercises: errors.length || !Array.isArray(exercises) ? [] : exercises.map(toExerciseDraft),
+        culturalNotes: typeof culturalNotes === 'string' ? culturalNotes : ''
+    });
+};
+
+export const validateQuizQuestion = (item: unknown, label: string): string[] => {
+    if (!isObject(item)) return [`${label} must be an object`];
+
+    const errors: string[] = [];
+
+    if (!isNonEmptyString(item.question)) errors.push(`${label}.question must be a non-empty string`);
+
+    if (!Array.isArray(item.options) || item.options.length !== 4) {
+        errors.push(`${label}.options must contain exactly 4 items`);
+    } else if (!item.options.every(isNonEmptyString)) {
+        errors.push(`${label}.options must all be non-empty strings`);
+    } else {
+        const normalized = item.options.map((o: string) => o.trim().toLowerCase());
+        if (new Set(normalized).size !== normalized.length) {
+            errors.push(`${label}.options must not contain duplicates`);
+        }
+    }
+
+    if (!Number.isInteger(item.correctAnswer) || item.correctAnswer < 0 || item.correctAnswer > 3) {
+        errors.push(`${label}.correctAnswer must be an integer from 0 to 3`);
+    }
+
+    if (item.explanation !== undefined && typeof item.explanation !== 'string') {
+        errors.push(`${label}.explanation must be a string`);
+    }
+
+    return errors;
+};
+
+const isIndexPermutation = (value: unknown, length: number): boolean =>
+    Array.isArray(value)
+    && value.length === length
+    && value.every(index => Number.isInteger(index) && index >= 0 && index < length)
+    && new Set(value).size === length;
+
+const validateOptions = (options: unknown, label: string, min: number, max: number): string[] => {
+    if (!Array.isArray(options) || options.length < min || options.length > max) {
+        return [`${label}.options must contain ${min} to ${max} items`];
+    }
+    if (!options.every(isNonEmptyString)) return [`${label}.options must all be non-empty strings`];
+    const normalized = options.map((o: string) => o.trim().toLowerCase());
+    return new Set(normalized).size === normalized.length ? [] : [`${label}.options must not contain duplicates`];
+};
+
+/**
+ * Validate a question of any type. Questions without a type are multiple choice.
+ */
+export const validateTypedQuizQuestion = (item: unknown, label: string): string[] => {
+    if (!isObject(item)) return [`${label} must be an object`];
+
+    const type = item.type ?? 'multiple_choice';
+    if (!QUIZ_QUESTION_TYPES.includes(type)) return [`${label}.type must be one of ${QUIZ_QUESTION_TYPES.join(', ')}`];
+    if (type === 'multiple_choice') return validateQuizQuestion(item, label);
+
+    const errors: string[] = [];
+    if (!isNonEmptyString(item.question)) errors.push(`${label}.question must be a non-empty string`);
+    if (item.explanation !== undefined && typeof item.explanation !== 'string') {
+        errors.push(`${label}.explanation must be a string`);
+    }
+
+    switch (type as QuizQuestionType) {
+        case 'true_false':
+            if (typeof item.correctAnswer !== 'boolean') errors.push(`${label}.correctAnswer must be true or false`);
+            break;
+        case 'multi_select': {
+            const optionErrors = validateOptions(item.options, label, 3, 6);
+            errors.push(...optionErrors);
+            const count = Array.isArray(item.options) ? item.options.length : 0;
+            const answers = item.correctAnswers;
+            if (!optionErrors.length && (
+                !Array.isArray(answers) || answers.length === 0 || new Set(answers).size !== answers.length
+                || !answers.every((index: unknown) => Number.isInteger(index) && (index as number) >= 0 && (index as number) < count)
+            )) {
+                errors.push(`${label}.correctAnswers must list the distinct indexes (0-${count - 1}) of every correct option`);
+            }
+            break;
+        }
+        case 'short_answer':
+            if (!Array.isArray(item.answers) || item.answers.length === 0 || !item.answers.every(isNonEmptyString)) {
+                errors.push(`${label}.answers must be a non-empty array of accepted answers`);
+            }
+            break;
+        case 'ordering': {
+            const optionErrors = validateOptions(item.options, label, 3, 8);
+            errors.push(...optionErrors);
+            const count = Array.isArray(item.options) ? item.options.length : 0;
+            if (!optionErrors.length && !isIndexPermutation(item.correctOrder, count)) {
+                errors.push(`${label}.correctOrder must list every option index (0-${count - 1}) once, in the correct order`);
+            }
+            break;
+        }
+    }
+
+    return errors;
+};
+
+const toQuizQuestion = (q: any): QuizQuestion => {
+    const base = { question: q.question, explanation: typeof q.explanation === 'string' ? q.explanation : '' };
+    switch ((q.type ?? 'multiple_choice') as QuizQuestionType) {
+        case 'multiple_choice':
+            return { type: 'multiple_choice', ...base, options: q.options, correctAnswer: q.correctAnswer };
+        case 'true_false':
+            return { type: 'true_false', ...base, correctAnswer: q.correctAnswer };
+        case 'multi_select':
+            return { type: 'multi_select', ...base, options: q.options, correctAnswers: [...q.correctAnswers].sort((a, b) => a - b) };
+        case 'short_answer':
+            return { type: 'short_answer', ...base, answers: q.answers.map((a: string) => a.trim()) };
+        case 'ordering':
+            return { type: 'ordering', ...base, options: q.options, correctOrder: q.correctOrder };
+    }
+};
+
+/**
+ * Validator for quizzes limited to some question types, e.g. the mix a learner asked for
+ */
+export const quizQuestionsValidator = (types: readonly QuizQuestionType[]): Validator<QuizQuestion[]> => (input) => {
+    // Providers that only emit JSON objects wrap the array, e.g. {"questions": [...]}
+    const questions = isObject(input) && Array.isArray(input.questions) ? input.questions : input;
+
+    if (!Array.isArray(questions) || questions.length === 0) {
+        return { ok: false, errors: ['Quiz must be a non-empty JSON array of questions'] };
+    }
+
+    const errors = questions.flatMap((item, i) => {
+        const label = `questions[${i}]`;
+        const type = isObject(item) ? item.type ?? 'multiple_choice' : null;
+        const typeErrors = QUIZ_QUESTION_TYPES.includes(type) && !types.includes(type)
+            ? [`${label}.type must be one of ${types.join(', ')}`]
+            : [];
+        return [...typeErrors, ...validateTypedQuizQuestion(item, label)];
+    });
+
+    return result(errors, errors.length ? [] : questions.map(toQuizQuestion));
+};
+
+export const validateQuizQuestions: Validator<QuizQuestion[]> = quizQuestionsValidator(QUIZ_QUESTION_TYPES);
+
+export const validateConversationScript: Validator<ConversationScript> = (input) => {
+    if (!isObject(input)) return { ok: false, errors: ['Conversation must be a JSON object'] };
+
+    const errors: string[] = [];
+    const { context, vocabulary, script, culturalNotes } = input;
+
+    if (!isNonEmptyString(context)) errors.push('context must be a non-empty string');
+
+    if (!Array.isArray(vocabulary)) {
+        errors.push('vocabulary must be an array');
+    } else {
+        vocabulary.forEach((item: any, i: number) => {
+            if (!isObject(item) || !isNonEmptyString(item.word) || !isNonEmptyString(item.translation)) {
+                errors.push(`vocabulary[${i}] must have non-empty "word" and "translation" strings`);
+            }
+        });
+    }
+
+    if (!Array.isArray(script) || script.length < 2) {
+        errors.push('script must be an array with at least 2 lines');
+    } else {
+        script.forEach((line: any, i: number) => {
+            const values = isObject(line) ? Object.values(line) : [];
+            if (!isObject(line) || !isNonEmptyString(line.english) || values.length < 2 || !values.every(isNonEmptyString)) {
+                errors.push(`script[${i}] must have a non-empty "english" string and the line in the target language`);
+            }
+        });
+    }
+
+    if (culturalNotes !== undefined && typeof culturalNotes !== 'string') {
+        errors.push('culturalNotes must be a string');
+    }
+
+    return result(errors, {
+        context,
+        vocabulary,
+        script,
+        culturalNotes: typeof culturalNotes === 'string' ? culturalNotes : ''
+    } as ConversationScript);
+};
+
+// Accepts "verb tense", "verb-tense" or "VERB_TENSE"; unknown categories become OTHER
+const toGrammarCategory = (value: string): GrammarErrorCategory => {
+    const key = value.trim().toUpperCase().replace(/[\s-]+/g, '_') as GrammarErrorCategory;
+    return Object.values(GrammarErrorCategory).includes(key) ? key : GrammarErrorCategory.OTHER;
+};
+
+export const validateConversationReply: Validator<ConversationReply> = (input) => {
+    if (!isObject(input)) return { ok: false, errors: ['Reply must be a JSON object'] };
+
+    const errors: string[] = [];
+    const { reply, corrections } = input;
+
+    if (!isNonEmptyString(reply)) errors.push('reply must be a non-empty string');
+
+    if (!Array.isArray(corrections)) {
+        errors.push('corrections must be an array (empty if the message had no mistakes)');
+    } else {
+        corrections.forEach((c: any, i: number) => {
+            if (!isObject(c) || !isNonEmptyString(c.original) || !isNonEmptyString(c.corrected) || !isNonEmptyString(c.category)) {
+                errors.push(`corrections[${i}] must have non-empty "original", "corrected" and "category" strings`);
+            } else if (c.explanation !== undefined && typeof c.explanation !== 'string') {
+                errors.push(`corrections[${i}].explanation must be a string`);
+            }
+        });
+    }
+
+    return result(errors, {
+        reply: typeof reply === 'string' ? reply.trim() : '',
+        corrections: Array.isArray(corrections)
+            ? corrections.map((c: any) => ({
+                original: String(c?.original ?? '').trim(),
+                corrected: String(c?.corrected ?? '').trim(),
+                category: toGrammarCategory(String(c?.category ?? '')),
+                explanation: typeof c?.explanation === 'string' ? c.explanation : ''
+            }))
+            : []
+    });
+};
+
+export const validateConversationSummary: Validator<ConversationSummary> = (input) => {
+    if (!isObject(input)) return { ok: false, errors: ['Summary must be a JSON object'] };
+
+    const errors: string[] = [];
+    const { summary, mistakes, strengths, suggestions } = input;
+
+    if (!isNonEmptyString(summary)) errors.push('summary must be a non-empty string');
+
+    if (!Array.isArray(mistakes)) {
+        errors.push('mistakes must be an array (empty if there were none)');
+    } else {
+        mistakes.forEach((m: any, i: number) => {
+            if (!isObject(m) || !isNonEmptyString(m.original) || !isNonEmptyString(m.correction) || typeof m.explanation !== 'string') {
+                errors.push(`mistakes[${i}] must have "original", "correction" and "explanation" strings`);
+            }
+        });
+    }
+
+    if (!Array.isArray(strengths) || !strengths.every(isNonEmptyString)) {
+        errors.push('strengths must be an array of non-empty strings');
+    }
+    if (!Array.isArray(suggestions) || !suggestions.every(isNonEmptyString)) {
+        errors.push('suggestions must be an array of non-empty strings');
+    }
+
+    return result(errors, { summary, mistakes, strengths, suggestions } as ConversationSummary);
+};
+
+export const validatePronunciationCoaching: Validator<PronunciationCoaching> = (input) => {
+    if (!isObject(input)) return { ok: false, errors: ['Feedback must be a JSON object'] };
+
+    const errors: string[] = [];
+    const { feedback, suggestions, phonemes } = input;
+
+    if (!isNonEmptyString(feedback)) errors.push('feedback must be a non-empty string');
+    if (!Array.isArray(suggestions) || !suggestions.every(isNonEmptyString)) {
+        errors.push('suggestions must be an array of non-empty strings');
+    }
+
+    if (phonemes !== undefined && !Array.isArray(phonemes)) {
+        errors.push('phonemes must be an array');
+    } else if (Array.isArray(phonemes)) {
+        phonemes.forEach((p: any, i: number) => {
+            if (!isObject(p) || !isNonEmptyString(p.sound) || typeof p.feedback !== 'string') {
+                errors.push(`phonemes[${i}] must have "sound" and "feedback" strings`);
+            }
+        });
+    }
+
+    return result(errors, {
+        feedback,
+        suggestions,
+        phonemes: Array.isArray(phonemes)
+            ? phonemes.map((p: any) => ({ sound: String(p.sound), feedback: String(p.feedback) }))
+            : []
+    } as PronunciationCoaching);
+};
+
+export const validatePracticeSentences: Validator<PracticeSentence[]> = (input) => {
+    const sentences = isObject(input) && Array.isArray(input.sentences) ? input.sentences : input;
+
+    if (!Array.isArray(sentences) || sentences.length === 0) {
+        return { ok: false, errors: ['sentences must be a non-empty array'] };
+    }
+
+    const errors: string[] = [];
+    sentences.forEach((item: any, i: number) => {
+        if (!isObject(item) || !isNonEmptyString(item.text) || !isNonEmptyString(item.translation)) {
+            errors.push(`sentences[${i}] must have non-empty "text" and "translation" strings`);
+        } else if (!Array.isArray(item.targetSounds) || !item.targetSounds.every(isNonEmptyString)) {
+            errors.push(`sentences[${i}].targetSounds must be an array of non-empty strings`);
+        }
+    });
+
+    return result(errors, sentences.map((item: any) => ({
+        text: item.text,
+        translation: item.translation,
+        targetSounds: item.targetSounds
+    })));
+};
+
+// Each difficulty band needs enough questions for the test to measure it
+const MIN_PLACEMENT_QUESTIONS_PER_LEVEL = 2;
+
+export const validatePlacementQuestions: Validator<PlacementQuestionDraft[]> = (input) => {
+    const questions = isObject(input) && Array.isArray(input.questions) ? input.questions : input;
+
+    if (!Array.isArray(questions) || questions.length === 0) {
+        return { ok: false, errors: ['questions must be a non-empty array'] };
+    }
+
+    const levels = Object.values(Level);
+    const errors = questions.flatMap((item, i) => {
+        const label = `questions[${i}]`;
+        const levelErrors = isObject(item) && levels.includes(item.level)
+            ? []
+            : [`${label}.level must be one of ${levels.join(', ')}`];
+        return [...levelErrors, ...validateQuizQuestion(item, label)];
+    });
+
+    for (const level of levels) {
+        const count = questions.filter((q: any) => q?.level === level).length;
+        if (count < MIN_PLACEMENT_QUESTIONS_PER_LEVEL) {
+            errors.push(`at least ${MIN_PLACEMENT_QUESTIONS_PER_LEVEL} questions are needed for level ${level}, got ${count}`);
+        }
+    }
+
+    return result(errors, questions.map((q: any) => ({
+        level: q.level,
+        question: q.question,
+        options: q.options,
+        correctAnswer: q.correctAnswer,
+        explanation: typeof q.explanation === 'string' ? q.explanation : ''
+    })));
+};
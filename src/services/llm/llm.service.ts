@@ -0,0 +1,158 @@
+import { getLLMTaskConfig } from '../../config/llm';
+import { LLMProvider, LLMTask } from './llm.types';
+import { Validator } from './llm.schemas';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { FixtureProvider } from './fixture.provider';
+
+const providerFactories: Record<string, () => LLMProvider> = {
+    gemini: () => new GeminiProvider(),
+    openai: () => new OpenAICompatibleProvider(),
+    fixture: () => new FixtureProvider()
+};
+
+const providers = new Map<string, LLMProvider>();
+
+// How many times an invalid response is sent back to the model for repair
+const MAX_REPAIR_ATTEMPTS = parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '2', 10);
+
+/**
+ * The model kept returning output that failed validation, even after repair attempts
+ */
+export class LLMValidationError extends Error {
+    constructor(public readonly task: LLMTask, public readonly errors: string[]) {
+        super(`LLM output for "${task}" failed validation: ${errors.join('; ')}`);
+        this.name = 'LLMValidationError';
+    }
+}
+
+const withJsonInstructions = (prompt: string): string => `
+You MUST respond with ONLY valid JSON.
+No markdown. No code fences. No explanation. No extra text.
+
+${prompt}
+`.trim();
+
+/**
+ * Register (or replace) a provider under its name, e.g. a stub in tests
+ */
+export const registerLLMProvider = (provider: LLMProvider): void => {
+    providers.set(provider.name, provider);
+};
+
+const getProvider = (name: string): LLMProvider => {
+    let provider = providers.get(name);
+    if (!provider) {
+        const factory = providerFactories[name];
+        if (!factory) {
+            throw new Error(`Unknown LLM provider "${name}"`);
+        }
+        provider = factory();
+        providers.set(name, provider);
+    }
+    return provider;
+};
+
+export function safeJsonParse<T = any>(raw: string): T {
+    const text = String(raw || '').trim();
+
+    try {
+        return JSON.parse(text);
+    } catch {}
+
+    const cleaned = text
+        .replace(/^```json\s*/i, '')
+        .replace(/^```\s*/i, '')
+        .replace(/```$/i, '')
+        .trim();
+
+    try {
+        return JSON.parse(cleaned);
+    } catch {}
+
+    const objMatch = cleaned.match(/\{[\s\S]*\}/);
+    if (objMatch) {
+        try {
+            return JSON.parse(objMatch[0]);
+        } catch {}
+    }
+
+    const arrMatch = cleaned.match(/\[[\s\S]*\]/);
+    if (arrMatch) {
+        try {
+            return JSON.parse(arrMatch[0]);
+        } catch {}
+    }
+
+    throw new Error('LLM did not return valid JSON');
+}
+
+/**
+ * Generate free text for a task with its configured provider
+ */
+export const generateText = async (
+    task: LLMTask,
+    prompt: string,
+    maxOutputTokens = 1200,
+    json = false
+): Promise<string> => {
+    const config = getLLMTaskConfig(task);
+
+    return getProvider(config.provider).generate({
+        task,
+        prompt,
+        model: config.model,
+        maxOutputTokens,
+        temperature: json ? 0.4 : 0.7,
+        json
+    });
+};
+
+/**
+ * Generate JSON and check it against a validator. Invalid output is sent back to the
+ * model together with the validation errors, up to LLM_MAX_REPAIR_ATTEMPTS times.
+ * Throws LLMValidationError if no valid response is produced.
+ */
+export const generateValidatedJSON = async <T>(
+    task: LLMTask,
+    prompt: string,
+    validate: Validator<T>,
+    maxOutputTokens = 2000
+): Promise<T> => {
+    let currentPrompt = prompt;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        // Provider failures (network, auth) are not repairable and propagate as-is
+        const raw = await generateText(task, withJsonInstructions(currentPrompt), maxOutputTokens, true);
+
+        let parsed: unknown;
+        try {
+            parsed = safeJsonParse(raw);
+        } catch {
+            errors = ['Response was not valid JSON'];
+        }
+
+        if (parsed !== undefined) {
+            const validation = validate(parsed);
+            if (validation.ok) return validation.value;
+            errors = validation.errors;
+        }
+
+        console.warn(`LLM ${task} output invalid (attempt ${attempt + 1}):`, errors);
+
+        currentPrompt = `
+${prompt}
+
+Your previous response was rejected for these reasons:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Previous response:
+${raw.slice(0, 4000)}
+
+Return a corrected response that fixes every problem listed above.
+        `.trim();
+    }
+
+    throw new LLMValidationError(task, errors);
+};
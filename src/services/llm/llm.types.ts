@@ -0,0 +1,27 @@
+/**
+ * The kinds of generation the app performs. Provider and model can be configured per task.
+ */
+export type LLMTask =
+    | 'lesson'
+    | 'quiz'
+    | 'conversation'
+    | 'conversationReply'
+    | 'conversationSummary'
+    | 'pronunciation'
+    | 'pronunciationPractice'
+    | 'placement';
+
+export interface LLMRequest {
+    task: LLMTask;
+    prompt: string;
+    model?: string;
+    maxOutputTokens: number;
+    temperature: number;
+    // Ask the provider for a JSON-only response where it supports it
+    json: boolean;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    generate(request: LLMRequest): Promise<string>;
+}
@@ -0,0 +1,50 @@
+import { LLMProvider, LLMRequest } from './llm.types';
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API
+ * (OpenAI itself, or a local server such as Ollama or llama.cpp).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name = 'openai';
+
+    constructor(
+        private readonly baseUrl: string = process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        private readonly apiKey: string = process.env.OPENAI_API_KEY || '',
+        private readonly defaultModel: string = process.env.OPENAI_MODEL || 'llama3.1',
+        private readonly timeoutMs: number = parseInt(process.env.OPENAI_TIMEOUT_MS || '60000', 10)
+    ) {}
+
+    async generate(request: LLMRequest): Promise<string> {
+        const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+            },
+            body: JSON.stringify({
+                model: request.model || this.defaultModel,
+                messages: [{ role: 'user', content: request.prompt }],
+                max_tokens: request.maxOutputTokens,
+                temperature: request.temperature,
+                ...(request.json && { response_format: { type: 'json_object' } })
+            }),
+            signal: AbortSignal.timeout(this.timeoutMs)
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            throw new Error(`LLM request failed with status ${response.status}: ${body.slice(0, 200)}`);
+        }
+
+        const data = await response.json() as {
+            choices?: Array<{ message?: { content?: string } }>;
+        };
+
+        const content = data.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error('LLM response did not contain any message content');
+        }
+
+        return content;
+    }
+}
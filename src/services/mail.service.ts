@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Prints messages to the server log. Default for local development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+    async send(message: MailMessage): Promise<void> {
+        console.log('📧 ===== OUTGOING EMAIL =====');
+        console.log(`To: ${message.to}`);
+        console.log(`Subject: ${message.subject}`);
+        console.log(message.text);
+        console.log('============================');
+    }
+}
+
+/**
+ * Appends messages as JSON lines to a file so tests and local tools can read them back
+ */
+export class FileMailTransport implements MailTransport {
+    constructor(private readonly filePath: string) {}
+
+    async send(message: MailMessage): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const record = { ...message, sentAt: new Date().toISOString() };
+        await fs.promises.appendFile(this.filePath, JSON.stringify(record) + '\n');
+    }
+}
+
+const createTransportFromEnv = (): MailTransport => {
+    switch ((process.env.MAIL_TRANSPORT || 'console').toLowerCase()) {
+        case 'file':
+            return new FileMailTransport(process.env.MAIL_OUTBOX_FILE || path.join('tmp', 'outbox.jsonl'));
+        case 'console':
+            return new ConsoleMailTransport();
+        default:
+            console.warn(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}", falling back to console`);
+            return new ConsoleMailTransport();
+    }
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * Replace the active transport, e.g. with an SMTP or provider-backed implementation
+ */
+export const setMailTransport = (next: MailTransport): void => {
+    transport = next;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+    if (!transport) {
+        transport = createTransportFromEnv();
+    }
+    await transport.send(message);
+};
@@ -0,0 +1,77 @@
+import { Level } from '@prisma/client';
+import { LEVEL_ORDER } from '../utils/levels';
+
+// Number of questions a learner answers
+export const PLACEMENT_LENGTH = Math.max(3, parseInt(process.env.PLACEMENT_QUESTION_COUNT || '10', 10));
+// Questions generated per level; enough that the staircase rarely runs out of a level
+export const PLACEMENT_QUESTIONS_PER_LEVEL = Math.max(2, Math.ceil(PLACEMENT_LENGTH / 4));
+
+// A level is reached with this share of correct answers over at least MIN_ASKED questions
+const PASS_RATE = 0.6;
+const MIN_ASKED = 2;
+
+export interface PlacementAnswer {
+    level: Level;
+    isCorrect: boolean;
+}
+
+export interface LevelResult {
+    level: Level;
+    asked: number;
+    correct: number;
+    accuracy: number | null;
+}
+
+// Tests start in the middle so the first answers can move either way
+export const START_LEVEL = LEVEL_ORDER[Math.floor((LEVEL_ORDER.length - 1) / 2)];
+
+/**
+ * One step of the staircase: a correct answer moves up a level, a wrong one down
+ */
+export const nextLevel = (current: Level, correct: boolean): Level => {
+    const rank = LEVEL_ORDER.indexOf(current) + (correct ? 1 : -1);
+    return LEVEL_ORDER[Math.min(LEVEL_ORDER.length - 1, Math.max(0, rank))];
+};
+
+/**
+ * Pick the next unasked question at the wanted level, falling back to the nearest
+ * level that still has questions (the easier one on ties)
+ */
+export const pickQuestion = <T extends { level: Level; askedOrder: number | null }>(
+    pool: T[],
+    wanted: Level
+): T | null => {
+    const unasked = pool.filter(q => q.askedOrder === null);
+    const wantedRank = LEVEL_ORDER.indexOf(wanted);
+
+    const byDistance = [...unasked].sort((a, b) => {
+        const distanceA = Math.abs(LEVEL_ORDER.indexOf(a.level) - wantedRank);
+        const distanceB = Math.abs(LEVEL_ORDER.indexOf(b.level) - wantedRank);
+        return distanceA - distanceB || LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level);
+    });
+
+    return byDistance[0] ?? null;
+};
+
+export const summarizeLevels = (answers: PlacementAnswer[]): LevelResult[] =>
+    LEVEL_ORDER.map(level => {
+        const atLevel = answers.filter(answer => answer.level === level);
+        const correct = atLevel.filter(answer => answer.isCorrect).length;
+        return {
+            level,
+            asked: atLevel.length,
+            correct,
+            accuracy: atLevel.length ? Math.round((correct / atLevel.length) * 100) / 100 : null
+        };
+    });
+
+/**
+ * The highest level the learner passed; the easiest level when none was passed
+ */
+export const recommendLevel = (answers: PlacementAnswer[]): Level => {
+    const passed = summarizeLevels(answers).filter(
+        result => result.asked >= MIN_ASKED && result.correct / result.asked >= PASS_RATE
+    );
+
+    return passed.length ? passed[passed.length - 1].level : LEVEL_ORDER[0];
+};
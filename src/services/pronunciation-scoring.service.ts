@@ -0,0 +1,211 @@
+/**
+ * Scores a pronunciation attempt by aligning the speech-to-text transcript against
+ * the target text, first word by word and then sound by sound. Both the expected and the
+ * heard word are transcribed with the language's spelling rules before the sounds are
+ * aligned, so "ll" counts as one sound and a silent "h" does not count at all.
+ */
+import { Phoneme, hasSpellingRules, toPhonemes } from './grapheme-to-phoneme.service';
+
+export type WordStatus = 'correct' | 'mispronounced' | 'missed' | 'extra';
+
+export interface WordAlignment {
+    expected: string | null;
+    heard: string | null;
+    status: WordStatus;
+    // Character similarity between expected and heard, 0 for missed and extra words
+    score: number;
+}
+
+export interface SoundScore {
+    sound: string;
+    // How the sound was written in the target text: Spanish /b/ spelled "v" is scored apart from "b"
+    spelling: string;
+    occurrences: number;
+    correct: number;
+    accuracy: number;
+}
+
+export interface PronunciationScore {
+    accuracy: number;
+    wordAccuracy: number;
+    characterAccuracy: number;
+    words: WordAlignment[];
+    // Every sound of the pronounced target words, weakest first. Null when the language
+    // has no spelling rules: letters are not reported in place of sounds.
+    sounds: SoundScore[] | null;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Lowercase, drop punctuation and split into words. Diacritics are kept:
+ * "esta" and "está" are pronounced differently.
+ */
+export const tokenize = (text: string): string[] =>
+    text
+        .normalize('NFC')
+        .toLocaleLowerCase()
+        .replace(/['’`]/g, '')
+        .replace(/[\p{P}\p{S}]+/gu, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+
+const levenshtein = <T>(a: T[], b: T[]): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+export const characterSimilarity = (expected: string, heard: string): number => {
+    const a = Array.from(expected);
+    const b = Array.from(heard);
+    const longest = Math.max(a.length, b.length);
+    return longest ? 1 - levenshtein(a, b) / longest : 1;
+};
+
+/**
+ * Align two word sequences. Substituting similar words is cheaper than
+ * dropping one and inserting another, so near-misses pair up.
+ */
+const alignWords = (expected: string[], heard: string[]): WordAlignment[] => {
+    const rows = expected.length + 1;
+    const cols = heard.length + 1;
+    const cost: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+    const similarity: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+    for (let i = 0; i < rows; i++) cost[i][0] = i;
+    for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            const sim = characterSimilarity(expected[i - 1], heard[j - 1]);
+            similarity[i][j] = sim;
+            cost[i][j] = Math.min(
+                cost[i - 1][j - 1] + 2 * (1 - sim),
+                cost[i - 1][j] + 1,
+                cost[i][j - 1] + 1
+            );
+        }
+    }
+
+    const alignment: WordAlignment[] = [];
+    let i = expected.length;
+    let j = heard.length;
+
+    while (i > 0 || j > 0) {
+        const sim = i > 0 && j > 0 ? similarity[i][j] : 0;
+        if (i > 0 && j > 0 && Math.abs(cost[i][j] - (cost[i - 1][j - 1] + 2 * (1 - sim))) < 1e-9) {
+            alignment.push({
+                expected: expected[i - 1],
+                heard: heard[j - 1],
+                status: sim === 1 ? 'correct' : 'mispronounced',
+                score: round2(sim)
+            });
+            i--;
+            j--;
+        } else if (i > 0 && Math.abs(cost[i][j] - (cost[i - 1][j] + 1)) < 1e-9) {
+            alignment.push({ expected: expected[i - 1], heard: null, status: 'missed', score: 0 });
+            i--;
+        } else {
+            alignment.push({ expected: null, heard: heard[j - 1], status: 'extra', score: 0 });
+            j--;
+        }
+    }
+
+    return alignment.reverse();
+};
+
+type SoundTally = Map<string, { sound: string; spelling: string; occurrences: number; correct: number }>;
+
+const record = (tally: SoundTally, phoneme: Phoneme, correct: boolean) => {
+    const key = `${phoneme.sound}|${phoneme.spelling}`;
+    const entry = tally.get(key) || { ...phoneme, occurrences: 0, correct: 0 };
+    entry.occurrences++;
+    if (correct) entry.correct++;
+    tally.set(key, entry);
+};
+
+/**
+ * Per-sound tally for a pair of aligned words: which target sounds
+ * survived into what was heard
+ */
+const tallySounds = (expected: Phoneme[], heard: Phoneme[], tally: SoundTally) => {
+    const a = expected.map(p => p.sound);
+    const b = heard.map(p => p.sound);
+
+    const table: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+        Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            table[i][j] = Math.min(
+                table[i - 1][j] + 1,
+                table[i][j - 1] + 1,
+                table[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+    }
+
+    let i = a.length;
+    let j = b.length;
+    while (i > 0) {
+        if (j > 0 && table[i][j] === table[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+            record(tally, expected[i - 1], a[i - 1] === b[j - 1]);
+            i--;
+            j--;
+        } else if (j > 0 && table[i][j] === table[i][j - 1] + 1) {
+            j--;
+        } else {
+            record(tally, expected[i - 1], false);
+            i--;
+        }
+    }
+};
+
+export const scorePronunciation = (targetText: string, transcript: string, languageCode: string): PronunciationScore => {
+    const expected = tokenize(targetText);
+    const heard = tokenize(transcript);
+    const words = alignWords(expected, heard);
+
+    const correctWords = words.filter(w => w.status === 'correct').length;
+    const extraWords = words.filter(w => w.status === 'extra').length;
+    const wordScoreTotal = words.reduce((sum, w) => sum + w.score, 0);
+
+    const wordAccuracy = expected.length ? correctWords / expected.length : 0;
+    // Extra words count half against the learner: filler or a restart is not as bad as a miss
+    const wordScore = expected.length ? wordScoreTotal / (expected.length + extraWords * 0.5) : 0;
+    const characterAccuracy = expected.length ? characterSimilarity(expected.join(' '), heard.join(' ')) : 0;
+
+    let sounds: SoundScore[] | null = null;
+    if (hasSpellingRules(languageCode)) {
+        const tally: SoundTally = new Map();
+        for (const word of words) {
+            // Missed words say nothing about how individual sounds were produced
+            if (word.expected && word.heard) {
+                tallySounds(toPhonemes(word.expected, languageCode)!, toPhonemes(word.heard, languageCode)!, tally);
+            }
+        }
+
+        sounds = Array.from(tally.values())
+            .map(t => ({ ...t, accuracy: round2(t.correct / t.occurrences) }))
+            .sort((a, b) => a.accuracy - b.accuracy || b.occurrences - a.occurrences);
+    }
+
+    return {
+        accuracy: round2(0.5 * wordScore + 0.5 * characterAccuracy),
+        wordAccuracy: round2(wordAccuracy),
+        characterAccuracy: round2(characterAccuracy),
+        words,
+        sounds
+    };
+};
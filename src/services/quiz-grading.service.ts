@@ -0,0 +1,293 @@
+import { Prisma } from '@prisma/client';
+import { matchAnswer, normalizeAnswer, shuffle } from './lesson-exercise.service';
+import { characterSimilarity } from './pronunciation-scoring.service';
+
+export const QUIZ_QUESTION_TYPES = ['multiple_choice', 'true_false', 'multi_select', 'short_answer', 'ordering'] as const;
+export type QuizQuestionType = typeof QUIZ_QUESTION_TYPES[number];
+
+// Generated quizzes stay multiple choice unless other types are asked for
+export const DEFAULT_QUESTION_TYPES: QuizQuestionType[] = ['multiple_choice'];
+
+// Score (percent) a quiz attempt needs to complete its lesson and unlock the next one
+export const PASSING_SCORE = 70;
+
+export const isPassingScore = (score: number): boolean => score >= PASSING_SCORE;
+
+// Typed short answers this similar to an accepted one count as a typo, not a mistake
+export const SHORT_ANSWER_SIMILARITY = 0.8;
+// Below this length a single wrong letter is usually a different word
+const MIN_FUZZY_LENGTH = 4;
+
+interface BaseQuestion {
+    question: string;
+    explanation?: string;
+}
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+    type: 'multiple_choice';
+    options: string[];
+    correctAnswer: number;
+}
+
+export interface TrueFalseQuestion extends BaseQuestion {
+    type: 'true_false';
+    correctAnswer: boolean;
+}
+
+export interface MultiSelectQuestion extends BaseQuestion {
+    type: 'multi_select';
+    options: string[];
+    // Every option that must be selected, ascending
+    correctAnswers: number[];
+}
+
+export interface ShortAnswerQuestion extends BaseQuestion {
+    type: 'short_answer';
+    // Accepted answers, the preferred one first
+    answers: string[];
+}
+
+export interface OrderingQuestion extends BaseQuestion {
+    type: 'ordering';
+    // Items in the order they are shown
+    options: string[];
+    // Option indexes in the correct order
+    correctOrder: number[];
+}
+
+export type QuizQuestion =
+    | MultipleChoiceQuestion
+    | TrueFalseQuestion
+    | MultiSelectQuestion
+    | ShortAnswerQuestion
+    | OrderingQuestion;
+
+/**
+ * A submitted answer: an option index (multiple choice), a boolean (true/false), option
+ * indexes (multi-select, ordering) or text (short answer). Null if the question was skipped.
+ */
+export type QuizAnswer = number | boolean | number[] | string | null;
+
+// What the client sees before submitting: no answer key, no explanation
+export interface PublicQuizQuestion {
+    type: QuizQuestionType;
+    question: string;
+    options?: string[];
+}
+
+export interface GradedQuestion {
+    questionIndex: number;
+    type: QuizQuestionType;
+    answer: QuizAnswer;
+    // The chosen option of a multiple choice question, kept for older clients
+    selectedOption: number | null;
+    correctAnswer: number | boolean | number[] | string;
+    isCorrect: boolean;
+    // Accepted despite a typo or missing accents (short answers)
+    nearMiss?: boolean;
+    explanation: string;
+}
+
+export interface GradedQuiz {
+    score: number;
+    // At least PASSING_SCORE; only a passed attempt completes the lesson
+    passed: boolean;
+    correctCount: number;
+    totalQuestions: number;
+    results: GradedQuestion[];
+}
+
+const isIndexList = (value: unknown, optionCount: number): value is number[] =>
+    Array.isArray(value)
+    && value.every(index => Number.isInteger(index) && index >= 0 && index < optionCount)
+    && new Set(value).size === value.length;
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+
+const parseQuestion = (q: any): QuizQuestion | null => {
+    if (!q || typeof q.question !== 'string') return null;
+
+    const question = q.question;
+    const explanation = typeof q.explanation === 'string' ? q.explanation : '';
+    const options: string[] | null = Array.isArray(q.options) ? q.options.map((o: unknown) => String(o)) : null;
+
+    switch (q.type ?? 'multiple_choice') {
+        case 'multiple_choice':
+            return options ? { type: 'multiple_choice', question, options, correctAnswer: Number(q.correctAnswer), explanation } : null;
+        case 'true_false':
+            return typeof q.correctAnswer === 'boolean'
+                ? { type: 'true_false', question, correctAnswer: q.correctAnswer, explanation }
+                : null;
+        case 'multi_select':
+            return options && isIndexList(q.correctAnswers, options.length)
+                ? { type: 'multi_select', question, options, correctAnswers: [...q.correctAnswers].sort((a, b) => a - b), explanation }
+                : null;
+        case 'short_answer':
+            return isStringList(q.answers) ? { type: 'short_answer', question, answers: q.answers, explanation } : null;
+        case 'ordering':
+            return options && isIndexList(q.correctOrder, options.length) && q.correctOrder.length === options.length
+                ? { type: 'ordering', question, options, correctOrder: q.correctOrder, explanation }
+                : null;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Show an ordering question's items shuffled, so neither the options nor an identity
+ * correctOrder give the answer away. Other questions are returned as they are.
+ */
+export const shuffleOrderingOptions = (question: QuizQuestion): QuizQuestion => {
+    if (question.type !== 'ordering') return question;
+
+    // shown[i] is the position in the correct sequence of the item displayed at i
+    const inOrder = question.correctOrder.map(index => question.options[index]);
+    const shown = shuffle(inOrder.map((_, position) => position));
+    return {
+        ...question,
+        options: shown.map(position => inOrder[position]),
+        correctOrder: inOrder.map((_, position) => shown.indexOf(position))
+    };
+};
+
+/**
+ * Read the stored `Quiz.questions` JSON into typed questions, dropping malformed entries.
+ * Questions stored before there were several types have none and are multiple choice.
+ */
+export const parseQuizQuestions = (raw: Prisma.JsonValue | null | undefined): QuizQuestion[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.map(parseQuestion).filter((q): q is QuizQuestion => q !== null);
+};
+
+/**
+ * Parse a `questionTypes` mix: an array (or comma-separated list) of question types.
+ * Returns the default when none is given and null when it names an unknown type.
+ */
+export const parseQuestionTypes = (value: unknown): QuizQuestionType[] | null => {
+    if (value === undefined || value === null || value === '') return DEFAULT_QUESTION_TYPES;
+
+    const items = typeof value === 'string' ? value.split(',').map(item => item.trim()) : value;
+    if (!Array.isArray(items) || items.length === 0) return null;
+    if (!items.every(item => QUIZ_QUESTION_TYPES.includes(item))) return null;
+    return [...new Set(items as QuizQuestionType[])];
+};
+
+/**
+ * Remove the answer key from questions so they can be sent to the client
+ */
+export const stripAnswers = (questions: QuizQuestion[]): PublicQuizQuestion[] =>
+    questions.map(q => ({
+        type: q.type,
+        question: q.question,
+        ...('options' in q && { options: q.options })
+    }));
+
+// Error message for an answer that does not fit its question, or null
+const answerError = (q: QuizQuestion, answer: unknown, number: number): string | null => {
+    switch (q.type) {
+        case 'multiple_choice':
+            return Number.isInteger(answer) && (answer as number) >= 0 && (answer as number) < q.options.length
+                ? null
+                : `Invalid option index for question ${number}`;
+        case 'true_false':
+            return typeof answer === 'boolean' ? null : `Question ${number} must be answered with true or false`;
+        case 'multi_select':
+            return isIndexList(answer, q.options.length)
+                ? null
+                : `Question ${number} must be answered with a list of distinct option indexes`;
+        case 'short_answer':
+            return typeof answer === 'string' ? null : `Question ${number} must be answered with text`;
+        case 'ordering':
+            return isIndexList(answer, q.options.length) && answer.length === q.options.length
+                ? null
+                : `Question ${number} must be answered with every option index, in order`;
+    }
+};
+
+/**
+ * Validate a submission: one entry per question, each an answer of the question's type or null.
+ * Returns an error message, or null if the submission is well-formed.
+ */
+export const validateSubmission = (questions: QuizQuestion[], answers: unknown): string | null => {
+    if (!Array.isArray(answers)) {
+        return 'answers must be an array with one answer per question';
+    }
+    if (answers.length !== questions.length) {
+        return `Expected ${questions.length} answers, received ${answers.length}`;
+    }
+
+    for (let i = 0; i < answers.length; i++) {
+        if (answers[i] === null) continue;
+        const error = answerError(questions[i], answers[i], i + 1);
+        if (error) return error;
+    }
+
+    return null;
+};
+
+/**
+ * Match typed text against the accepted answers: exact apart from case, punctuation and
+ * accents, or close enough to one of them to be a typo
+ */
+export const matchShortAnswer = (submitted: string, accepted: string[]): { isCorrect: boolean; nearMiss: boolean } => {
+    const match = matchAnswer(submitted, accepted);
+    if (match.isCorrect) return { isCorrect: true, nearMiss: match.accentsDiffer };
+
+    const typed = normalizeAnswer(submitted, true);
+    const close = typed.length >= MIN_FUZZY_LENGTH
+        && accepted.some(answer => characterSimilarity(normalizeAnswer(answer, true), typed) >= SHORT_ANSWER_SIMILARITY);
+    return { isCorrect: close, nearMiss: close };
+};
+
+const sameList = (a: number[], b: number[]): boolean =>
+    a.length === b.length && a.every((item, index) => item === b[index]);
+
+const gradeQuestion = (q: QuizQuestion, answer: QuizAnswer): Pick<GradedQuestion, 'correctAnswer' | 'isCorrect' | 'nearMiss'> => {
+    const answered = answer !== null;
+    switch (q.type) {
+        case 'multiple_choice':
+        case 'true_false':
+            return { correctAnswer: q.correctAnswer, isCorrect: answered && answer === q.correctAnswer };
+        case 'multi_select':
+            return {
+                correctAnswer: q.correctAnswers,
+                isCorrect: answered && sameList([...(answer as number[])].sort((a, b) => a - b), q.correctAnswers)
+            };
+        case 'ordering':
+            return { correctAnswer: q.correctOrder, isCorrect: answered && sameList(answer as number[], q.correctOrder) };
+        case 'short_answer': {
+            const match = answered ? matchShortAnswer(answer as string, q.answers) : { isCorrect: false, nearMiss: false };
+            return { correctAnswer: q.answers[0], ...match };
+        }
+    }
+};
+
+/**
+ * Grade a validated submission against the stored answer key
+ */
+export const gradeQuiz = (questions: QuizQuestion[], answers: QuizAnswer[]): GradedQuiz => {
+    const results = questions.map((q, index) => {
+        const answer = answers[index] ?? null;
+        return {
+            questionIndex: index,
+            type: q.type,
+            answer,
+            selectedOption: q.type === 'multiple_choice' ? (answer as number | null) : null,
+            ...gradeQuestion(q, answer),
+            explanation: q.explanation || ''
+        };
+    });
+
+    const correctCount = results.filter(r => r.isCorrect).length;
+    const totalQuestions = questions.length;
+
+    const score = totalQuestions > 0 ? Math.round((correctCount / totalQuestions) * 100) : 0;
+    return {
+        score,
+        passed: isPassingScore(score),
+        correctCount,
+        totalQuestions,
+        results
+    };
+};
@@ -0,0 +1,41 @@
+import { PrismaClient, Prisma, Quiz } from '@prisma/client';
+import { parseQuizQuestions, shuffleOrderingOptions, QuizQuestion } from './quiz-grading.service';
+
+const prisma = new PrismaClient();
+
+// Newest version first; the first quiz of a lesson in this order is its current one
+export const CURRENT_QUIZ_ORDER = { version: 'desc' } as const;
+
+export const findCurrentQuiz = (lessonId: string): Promise<Quiz | null> =>
+    prisma.quiz.findFirst({ where: { lessonId }, orderBy: CURRENT_QUIZ_ORDER });
+
+/**
+ * Whether any learner may replace the quiz: it has no usable questions (e.g. it was saved
+ * after a failed generation). Flagged quizzes wait for a content editor, who may always
+ * regenerate.
+ */
+export const isQuizReplaceable = (quiz: Pick<Quiz, 'questions'>): boolean =>
+    parseQuizQuestions(quiz.questions).length === 0;
+
+/**
+ * Save questions as the next version of the lesson's quiz, with ordering items shuffled.
+ * The new version resolves any flags on the versions it replaces. Two concurrent saves for
+ * the same lesson cannot both win: the second fails on the unique (lessonId, version).
+ */
+export const createQuizVersion = async (lessonId: string, questions: QuizQuestion[]): Promise<Quiz> => {
+    const latest = await findCurrentQuiz(lessonId);
+    const [quiz] = await prisma.$transaction([
+        prisma.quiz.create({
+            data: {
+                lessonId,
+                version: (latest?.version ?? 0) + 1,
+                questions: questions.map(shuffleOrderingOptions) as unknown as Prisma.InputJsonValue
+            }
+        }),
+        prisma.quiz.updateMany({
+            where: { lessonId, flaggedAt: { not: null } },
+            data: { flaggedAt: null, flagReason: null }
+        })
+    ]);
+    return quiz;
+};
@@ -0,0 +1,152 @@
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { generateToken, hashToken } from './token.service';
+
+const prisma = new PrismaClient();
+
+const ACCESS_TOKEN_TTL = (process.env.ACCESS_TOKEN_TTL || '15m') as SignOptions['expiresIn'];
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+export interface SessionDevice {
+    deviceName?: string | null;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+}
+
+export interface TokenPair {
+    token: string;
+    refreshToken: string;
+    sessionId: string;
+}
+
+export type RefreshResult =
+    | { status: 'ok'; tokens: TokenPair }
+    | { status: 'invalid' }
+    | { status: 'reused' };
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Sign a short-lived access token bound to a session
+ */
+export const signAccessToken = (user: { id: string; tokenVersion: number }, sessionId: string): string => jwt.sign(
+    { userId: user.id, tokenVersion: user.tokenVersion, sessionId },
+    process.env.JWT_SECRET || 'your-secret-key',
+    { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+/**
+ * Start a new session for a device and issue its first token pair
+ */
+export const createSession = async (
+    user: { id: string; tokenVersion: number },
+    device: SessionDevice
+): Promise<TokenPair> => {
+    const refreshToken = generateToken(48);
+
+    const session = await prisma.session.create({
+        data: {
+            userId: user.id,
+            deviceName: device.deviceName || null,
+            userAgent: device.userAgent || null,
+            ipAddress: device.ipAddress || null,
+            expiresAt: refreshExpiry(),
+            refreshTokens: {
+                create: { tokenHash: hashToken(refreshToken) }
+            }
+        }
+    });
+
+    return {
+        token: signAccessToken(user, session.id),
+        refreshToken,
+        sessionId: session.id
+    };
+};
+
+/**
+ * Exchange a refresh token for a new pair. A token that was already exchanged
+ * means it leaked (or was replayed), so the whole session is revoked.
+ */
+export const rotateRefreshToken = async (refreshToken: string): Promise<RefreshResult> => {
+    const stored = await prisma.refreshToken.findUnique({
+        where: { tokenHash: hashToken(refreshToken) },
+        include: {
+            session: {
+                include: { user: true }
+            }
+        }
+    });
+
+    if (!stored) return { status: 'invalid' };
+
+    const { session } = stored;
+    const now = new Date();
+
+    if (session.revokedAt || session.expiresAt < now) return { status: 'invalid' };
+
+    if (stored.usedAt) {
+        await revokeSession(session.id);
+        return { status: 'reused' };
+    }
+
+    const nextRefreshToken = generateToken(48);
+
+    const rotated = await prisma.$transaction(async (tx) => {
+        // Guard against two concurrent refreshes with the same token
+        const { count } = await tx.refreshToken.updateMany({
+            where: { id: stored.id, usedAt: null },
+            data: { usedAt: now }
+        });
+        if (count === 0) return false;
+
+        await tx.refreshToken.create({
+            data: {
+                sessionId: session.id,
+                tokenHash: hashToken(nextRefreshToken)
+            }
+        });
+
+        await tx.session.update({
+            where: { id: session.id },
+            data: {
+                lastUsedAt: now,
+                expiresAt: refreshExpiry()
+            }
+        });
+
+        return true;
+    });
+
+    if (!rotated) {
+        await revokeSession(session.id);
+        return { status: 'reused' };
+    }
+
+    return {
+        status: 'ok',
+        tokens: {
+            token: signAccessToken(session.user, session.id),
+            refreshToken: nextRefreshToken,
+            sessionId: session.id
+        }
+    };
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+    await prisma.session.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: new Date() }
+    });
+};
+
+/**
+ * Revoke every active session of a user. Returns the number revoked.
+ */
+export const revokeAllSessions = async (userId: string): Promise<number> => {
+    const { count } = await prisma.session.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() }
+    });
+    return count;
+};
@@ -0,0 +1,99 @@
+import { PrismaClient, FollowStatus, ActivityType } from '@prisma/client';
+import { ACHIEVEMENTS } from './achievements/achievement.rules';
+
+const prisma = new PrismaClient();
+
+export interface FeedItem {
+    type: 'lesson_completed' | 'achievement_unlocked';
+    user: { id: string; fullName: string };
+    at: Date;
+    lesson?: { id: string; title: string; languageId: string } | null;
+    achievement?: { key: string; title: string; description: string };
+}
+
+/**
+ * Friends are users connected to this one by an accepted follow in either direction
+ */
+export const loadFriendIds = async (userId: string): Promise<string[]> => {
+    const follows = await prisma.follow.findMany({
+        where: {
+            status: FollowStatus.ACCEPTED,
+            OR: [{ followerId: userId }, { followingId: userId }]
+        },
+        select: { followerId: true, followingId: true }
+    });
+
+    return [...new Set(follows.map(follow => (follow.followerId === userId ? follow.followingId : follow.followerId)))];
+};
+
+export const isBlockedBetween = async (userId: string, otherId: string): Promise<boolean> => {
+    const block = await prisma.block.findFirst({
+        where: {
+            OR: [
+                { blockerId: userId, blockedId: otherId },
+                { blockerId: otherId, blockedId: userId }
+            ]
+        },
+        select: { id: true }
+    });
+    return !!block;
+};
+
+/**
+ * Recent lesson completions and achievement unlocks of the given users, newest first
+ */
+export const loadFeed = async (userIds: string[], page: { limit: number; skip: number }): Promise<FeedItem[]> => {
+    if (!userIds.length) return [];
+
+    // Each source can contribute at most a full page at this offset
+    const take = page.skip + page.limit;
+    const user = { select: { id: true, fullName: true } };
+
+    const [completions, unlocks] = await Promise.all([
+        prisma.activityEvent.findMany({
+            where: { userId: { in: userIds }, type: ActivityType.LESSON_COMPLETED },
+            orderBy: { createdAt: 'desc' },
+            take,
+            include: { user }
+        }),
+        prisma.userAchievement.findMany({
+            where: { userId: { in: userIds } },
+            orderBy: { unlockedAt: 'desc' },
+            take,
+            include: { user }
+        })
+    ]);
+
+    const lessonIds = completions.map(event => event.sourceId).filter((id): id is string => !!id);
+    const lessons = new Map(
+        (await prisma.lesson.findMany({
+            where: { id: { in: lessonIds } },
+            select: { id: true, title: true, languageId: true }
+        })).map(lesson => [lesson.id, lesson])
+    );
+
+    const items: FeedItem[] = [
+        ...completions.map(event => ({
+            type: 'lesson_completed' as const,
+            user: event.user,
+            at: event.createdAt,
+            // Null when the lesson has since been deleted
+            lesson: (event.sourceId && lessons.get(event.sourceId)) || null
+        })),
+        ...unlocks.flatMap(unlock => {
+            const rule = ACHIEVEMENTS.find(achievement => achievement.key === unlock.achievementKey);
+            return rule
+                ? [{
+                    type: 'achievement_unlocked' as const,
+                    user: unlock.user,
+                    at: unlock.unlockedAt,
+                    achievement: { key: rule.key, title: rule.title, description: rule.description }
+                }]
+                : [];
+        })
+    ];
+
+    return items
+        .sort((a, b) => b.at.getTime() - a.at.getTime())
+        .slice(page.skip, page.skip + page.limit);
+};
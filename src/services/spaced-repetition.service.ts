@@ -0,0 +1,104 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+// Cards with an interval at or above this many days are considered "mature"
+export const MATURE_INTERVAL_DAYS = 21;
+
+export interface CardSchedule {
+    easeFactor: number;
+    interval: number;
+    repetitions: number;
+}
+
+export interface ScheduledReview extends CardSchedule {
+    dueAt: Date;
+}
+
+export interface LessonVocabularyItem {
+    word: string;
+    translation: string;
+    example: string | null;
+}
+
+/**
+ * Apply an SM-2 review to a card's schedule.
+ * `grade` is the recall quality: 0-2 is a failed recall, 3-5 a successful one.
+ */
+export const scheduleReview = (card: CardSchedule, grade: number, now: Date = new Date()): ScheduledReview => {
+    let { easeFactor, interval, repetitions } = card;
+
+    if (grade >= 3) {
+        if (repetitions === 0) {
+            interval = 1;
+        } else if (repetitions === 1) {
+            interval = 6;
+        } else {
+            interval = Math.round(interval * easeFactor);
+        }
+        repetitions += 1;
+    } else {
+        // Failed recall: start the card over, but keep its (lowered) ease
+        repetitions = 0;
+        interval = 1;
+    }
+
+    easeFactor = easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+    easeFactor = Math.max(MIN_EASE_FACTOR, Math.round(easeFactor * 100) / 100);
+
+    return {
+        easeFactor,
+        interval,
+        repetitions,
+        dueAt: new Date(now.getTime() + interval * DAY_MS)
+    };
+};
+
+/**
+ * Pull the `{word, translation, example}` items out of generated lesson content
+ */
+export const extractLessonVocabulary = (content: Prisma.JsonValue | null | undefined): LessonVocabularyItem[] => {
+    const vocabulary = content && typeof content === 'object' && !Array.isArray(content)
+        ? (content as Prisma.JsonObject).vocabulary
+        : null;
+
+    if (!Array.isArray(vocabulary)) return [];
+
+    return vocabulary
+        .filter((item: any) => item && typeof item.word === 'string' && item.word.trim() && typeof item.translation === 'string')
+        .map((item: any) => ({
+            word: item.word.trim(),
+            translation: item.translation.trim(),
+            example: typeof item.example === 'string' && item.example.trim() ? item.example.trim() : null
+        }));
+};
+
+/**
+ * Add a lesson's vocabulary to the user's review deck.
+ * Words already in the deck for that language keep their existing schedule.
+ * Returns the number of new cards created.
+ */
+export const addLessonVocabularyToDeck = async (
+    userId: string,
+    lesson: { id: string; languageId: string; content: Prisma.JsonValue | null }
+): Promise<number> => {
+    const items = extractLessonVocabulary(lesson.content);
+    if (items.length === 0) return 0;
+
+    const result = await prisma.vocabularyCard.createMany({
+        data: items.map(item => ({
+            userId,
+            languageId: lesson.languageId,
+            lessonId: lesson.id,
+            word: item.word,
+            translation: item.translation,
+            example: item.example
+        })),
+        skipDuplicates: true
+    });
+
+    return result.count;
+};
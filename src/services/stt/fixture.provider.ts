@@ -0,0 +1,20 @@
+import { DecodedAudio } from '../audio.service';
+import { SpeechToTextProvider, TranscriptionOptions, TranscriptionResult } from './stt.types';
+
+/**
+ * Local stand-in for tests and development without a speech recognizer.
+ * Returns STT_FIXTURE_TRANSCRIPT when set, otherwise the expected text,
+ * i.e. it behaves as if the learner read the sentence perfectly.
+ */
+export class FixtureSpeechToTextProvider implements SpeechToTextProvider {
+    readonly name = 'fixture';
+
+    constructor(private readonly transcript: string | undefined = process.env.STT_FIXTURE_TRANSCRIPT) {}
+
+    async transcribe(_audio: DecodedAudio, options: TranscriptionOptions): Promise<TranscriptionResult> {
+        return {
+            text: this.transcript ?? options.expectedText ?? '',
+            confidence: 1
+        };
+    }
+}
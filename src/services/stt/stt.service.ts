@@ -0,0 +1,37 @@
+import { DecodedAudio } from '../audio.service';
+import { SpeechToTextProvider, TranscriptionOptions, TranscriptionResult } from './stt.types';
+import { WhisperProvider } from './whisper.provider';
+import { FixtureSpeechToTextProvider } from './fixture.provider';
+
+const providerFactories: Record<string, () => SpeechToTextProvider> = {
+    whisper: () => new WhisperProvider(),
+    fixture: () => new FixtureSpeechToTextProvider()
+};
+
+const providers = new Map<string, SpeechToTextProvider>();
+
+/**
+ * Register (or replace) a speech-to-text provider under its name, e.g. a stub in tests
+ */
+export const registerSpeechToTextProvider = (provider: SpeechToTextProvider): void => {
+    providers.set(provider.name, provider);
+};
+
+const getProvider = (name: string): SpeechToTextProvider => {
+    let provider = providers.get(name);
+    if (!provider) {
+        const factory = providerFactories[name];
+        if (!factory) {
+            throw new Error(`Unknown speech-to-text provider "${name}"`);
+        }
+        provider = factory();
+        providers.set(name, provider);
+    }
+    return provider;
+};
+
+/**
+ * Transcribe a recording with the provider selected by STT_PROVIDER (default: whisper)
+ */
+export const transcribeAudio = (audio: DecodedAudio, options: TranscriptionOptions): Promise<TranscriptionResult> =>
+    getProvider(process.env.STT_PROVIDER || 'whisper').transcribe(audio, options);
@@ -0,0 +1,19 @@
+import { DecodedAudio } from '../audio.service';
+
+export interface TranscriptionOptions {
+    // BCP-47 or ISO 639-1 code of the spoken language, e.g. "es"
+    languageCode: string;
+    // Text the learner was asked to read; backends may use it as a prompt
+    expectedText?: string;
+}
+
+export interface TranscriptionResult {
+    text: string;
+    // Overall recognition confidence in [0, 1] when the backend reports one
+    confidence?: number;
+}
+
+export interface SpeechToTextProvider {
+    readonly name: string;
+    transcribe(audio: DecodedAudio, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
@@ -0,0 +1,46 @@
+import { DecodedAudio } from '../audio.service';
+import { SpeechToTextProvider, TranscriptionOptions, TranscriptionResult } from './stt.types';
+
+/**
+ * Talks to any server implementing the OpenAI audio transcription API
+ * (OpenAI itself, or a local server such as whisper.cpp or faster-whisper).
+ */
+export class WhisperProvider implements SpeechToTextProvider {
+    readonly name = 'whisper';
+
+    constructor(
+        private readonly baseUrl: string = process.env.STT_BASE_URL || process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1',
+        private readonly apiKey: string = process.env.STT_API_KEY || process.env.OPENAI_API_KEY || '',
+        private readonly model: string = process.env.STT_MODEL || 'whisper-1',
+        private readonly timeoutMs: number = parseInt(process.env.STT_TIMEOUT_MS || '60000', 10)
+    ) {}
+
+    async transcribe(audio: DecodedAudio, options: TranscriptionOptions): Promise<TranscriptionResult> {
+        const form = new FormData();
+        form.append('file', new Blob([new Uint8Array(audio.data)], { type: audio.mimeType }), `recording.${audio.format}`);
+        form.append('model', this.model);
+        form.append('language', options.languageCode.split('-')[0]);
+        form.append('response_format', 'json');
+        // Deliberately no prompt with the expected text: it biases the model towards it
+        // and would hide the very mistakes we are trying to score
+
+        const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+            method: 'POST',
+            headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+            body: form,
+            signal: AbortSignal.timeout(this.timeoutMs)
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            throw new Error(`Transcription request failed with status ${response.status}: ${body.slice(0, 200)}`);
+        }
+
+        const data = await response.json() as { text?: string };
+        if (typeof data.text !== 'string') {
+            throw new Error('Transcription response did not contain any text');
+        }
+
+        return { text: data.text.trim() };
+    }
+}
@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+/**
+ * Random URL-safe token for emailed links
+ */
+export const generateToken = (bytes = 32): string => crypto.randomBytes(bytes).toString('hex');
+
+/**
+ * Tokens are stored hashed so a database leak does not expose usable links
+ */
+export const hashToken = (token: string): string =>
+    crypto.createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,30 @@
+import { SpeechSynthesisOptions, SynthesizedSpeech, TextToSpeechProvider } from './tts.types';
+
+const SAMPLE_RATE = 8000;
+
+/**
+ * Local stand-in for tests and development without a speech synthesizer.
+ * Returns half a second of silent 8 kHz mono WAV, whatever the text.
+ */
+export class FixtureTextToSpeechProvider implements TextToSpeechProvider {
+    readonly name = 'fixture';
+
+    async synthesize(_text: string, _options: SpeechSynthesisOptions): Promise<SynthesizedSpeech> {
+        const pcmBytes = SAMPLE_RATE; // 0.5 s of 16-bit samples
+        const data = Buffer.alloc(44 + pcmBytes);
+        data.write('RIFF', 0, 'ascii');
+        data.writeUInt32LE(36 + pcmBytes, 4);
+        data.write('WAVE', 8, 'ascii');
+        data.write('fmt ', 12, 'ascii');
+        data.writeUInt32LE(16, 16);
+        data.writeUInt16LE(1, 20); // PCM
+        data.writeUInt16LE(1, 22); // mono
+        data.writeUInt32LE(SAMPLE_RATE, 24);
+        data.writeUInt32LE(SAMPLE_RATE * 2, 28);
+        data.writeUInt16LE(2, 32);
+        data.writeUInt16LE(16, 34);
+        data.write('data', 36, 'ascii');
+        data.writeUInt32LE(pcmBytes, 40);
+        return { data, mimeType: 'audio/wav' };
+    }
+}
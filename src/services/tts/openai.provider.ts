@@ -0,0 +1,42 @@
+import { SpeechSynthesisOptions, SynthesizedSpeech, TextToSpeechProvider } from './tts.types';
+
+/**
+ * Talks to any server implementing the OpenAI speech API (OpenAI itself, or a local
+ * server such as openedai-speech). Those voices are multilingual and pick the
+ * language up from the text, so the language code is not sent.
+ */
+export class OpenAITextToSpeechProvider implements TextToSpeechProvider {
+    readonly name = 'openai';
+
+    constructor(
+        private readonly baseUrl: string = process.env.TTS_BASE_URL || process.env.OPENAI_BASE_URL || 'http://localhost:8000/v1',
+        private readonly apiKey: string = process.env.TTS_API_KEY || process.env.OPENAI_API_KEY || '',
+        private readonly model: string = process.env.TTS_MODEL || 'tts-1',
+        private readonly voice: string = process.env.TTS_VOICE || 'alloy',
+        private readonly timeoutMs: number = parseInt(process.env.TTS_TIMEOUT_MS || '30000', 10)
+    ) {}
+
+    async synthesize(text: string, _options: SpeechSynthesisOptions): Promise<SynthesizedSpeech> {
+        const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/audio/speech`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+            },
+            body: JSON.stringify({ model: this.model, voice: this.voice, input: text, response_format: 'mp3' }),
+            signal: AbortSignal.timeout(this.timeoutMs)
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            throw new Error(`Speech request failed with status ${response.status}: ${body.slice(0, 200)}`);
+        }
+
+        const data = Buffer.from(await response.arrayBuffer());
+        if (!data.length) {
+            throw new Error('Speech response was empty');
+        }
+
+        return { data, mimeType: 'audio/mpeg' };
+    }
+}
@@ -0,0 +1,36 @@
+import { SpeechSynthesisOptions, SynthesizedSpeech, TextToSpeechProvider } from './tts.types';
+import { OpenAITextToSpeechProvider } from './openai.provider';
+import { FixtureTextToSpeechProvider } from './fixture.provider';
+
+const providerFactories: Record<string, () => TextToSpeechProvider> = {
+    openai: () => new OpenAITextToSpeechProvider(),
+    fixture: () => new FixtureTextToSpeechProvider()
+};
+
+const providers = new Map<string, TextToSpeechProvider>();
+
+/**
+ * Register (or replace) a text-to-speech provider under its name, e.g. a stub in tests
+ */
+export const registerTextToSpeechProvider = (provider: TextToSpeechProvider): void => {
+    providers.set(provider.name, provider);
+};
+
+const getProvider = (name: string): TextToSpeechProvider => {
+    let provider = providers.get(name);
+    if (!provider) {
+        const factory = providerFactories[name];
+        if (!factory) {
+            throw new Error(`Unknown text-to-speech provider "${name}"`);
+        }
+        provider = factory();
+        providers.set(name, provider);
+    }
+    return provider;
+};
+
+/**
+ * Read text out with the provider selected by TTS_PROVIDER (default: openai)
+ */
+export const synthesizeSpeech = (text: string, options: SpeechSynthesisOptions): Promise<SynthesizedSpeech> =>
+    getProvider(process.env.TTS_PROVIDER || 'openai').synthesize(text, options);
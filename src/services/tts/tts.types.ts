@@ -0,0 +1,14 @@
+export interface SpeechSynthesisOptions {
+    // BCP-47 or ISO 639-1 code of the language to speak, e.g. "es"
+    languageCode: string;
+}
+
+export interface SynthesizedSpeech {
+    data: Buffer;
+    mimeType: string;
+}
+
+export interface TextToSpeechProvider {
+    readonly name: string;
+    synthesize(text: string, options: SpeechSynthesisOptions): Promise<SynthesizedSpeech>;
+}
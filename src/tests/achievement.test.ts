@@ -0,0 +1,94 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+import { ACHIEVEMENTS } from '../services/achievements/achievement.rules';
+
+describe('Achievement Routes', () => {
+  let authToken: string;
+  let userId: string;
+  let lessonId: string;
+
+  beforeAll(async () => {
+    try {
+      const uniqueEmail = `achievement${Date.now()}@test.com`;
+      const hashedPassword = await bcrypt.hash('password123', 10);
+
+      const testUser = await prisma.user.create({
+        data: {
+          email: uniqueEmail,
+          password: hashedPassword,
+          fullName: 'Achievement Test User',
+          emailVerified: true
+        }
+      });
+      userId = testUser.id;
+
+      const loginResponse = await request
+        .post('/api/auth/login')
+        .send({ email: uniqueEmail, password: 'password123' });
+      authToken = loginResponse.body.data?.token || loginResponse.body.token;
+
+      const language = await prisma.language.findFirst({ where: { enabled: true } });
+      if (language) {
+        const lesson = await prisma.lesson.create({
+          data: { title: `Achievement lesson ${Date.now()}`, languageId: language.id, level: 'A1' }
+        });
+        lessonId = lesson.id;
+      }
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      if (userId) {
+        await prisma.learningProgress.deleteMany({ where: { userId } });
+        await prisma.user.delete({ where: { id: userId } });
+      }
+      if (lessonId) {
+        await prisma.lesson.delete({ where: { id: lessonId } });
+      }
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should define each achievement key once', () => {
+    const keys = ACHIEVEMENTS.map(rule => rule.key);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('should unlock an achievement once when it is earned', async () => {
+    if (!authToken || !lessonId) {
+      console.log('Skipping achievement test - setup incomplete');
+      return;
+    }
+
+    const first = await request
+      .post('/api/progress/lesson')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ lessonId, score: 80, completed: true });
+    expect(first.status).toBe(200);
+    expect(first.body.data.achievementsUnlocked.map((a: any) => a.key)).toContain('first-lesson');
+
+    const again = await request
+      .post('/api/progress/lesson')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ lessonId, score: 90, completed: true });
+    expect(again.body.data.achievementsUnlocked).toEqual([]);
+
+    const res = await request
+      .get('/api/progress/achievements')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(res.status).toBe(200);
+    expect(res.body.data.total).toBe(ACHIEVEMENTS.length);
+
+    const firstLesson = res.body.data.achievements.find((a: any) => a.key === 'first-lesson');
+    expect(firstLesson.unlocked).toBe(true);
+    expect(firstLesson.unlockedAt).toBeTruthy();
+
+    const tenLessons = res.body.data.achievements.find((a: any) => a.key === 'ten-lessons');
+    expect(tenLessons.unlocked).toBe(false);
+    expect(tenLessons.progress).toEqual({ current: 1, target: 10 });
+  });
+});
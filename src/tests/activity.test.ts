@@ -0,0 +1,137 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+import { addDaysToKey, dayKeyInTimeZone } from '../utils/dates';
+
+describe('Activity, XP and Streak Routes', () => {
+  let authToken: string;
+  let userId: string;
+  let lessonId: string;
+  const today = dayKeyInTimeZone(new Date(), 'UTC');
+
+  beforeAll(async () => {
+    try {
+      const uniqueEmail = `activity${Date.now()}@test.com`;
+      const hashedPassword = await bcrypt.hash('password123', 10);
+
+      const testUser = await prisma.user.create({
+        data: {
+          email: uniqueEmail,
+          password: hashedPassword,
+          fullName: 'Activity Test User',
+          emailVerified: true
+        }
+      });
+      userId = testUser.id;
+
+      const loginResponse = await request
+        .post('/api/auth/login')
+        .send({ email: uniqueEmail, password: 'password123' });
+      authToken = loginResponse.body.data?.token || loginResponse.body.token;
+
+      const language = await prisma.language.findFirst({ where: { enabled: true } });
+      if (language) {
+        const lesson = await prisma.lesson.create({
+          data: { title: `Activity lesson ${Date.now()}`, languageId: language.id, level: 'A1' }
+        });
+        lessonId = lesson.id;
+      }
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      if (userId) {
+        await prisma.learningProgress.deleteMany({ where: { userId } });
+        await prisma.user.delete({ where: { id: userId } });
+      }
+      if (lessonId) {
+        await prisma.lesson.delete({ where: { id: lessonId } });
+      }
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should validate and update the daily goal and timezone', async () => {
+    if (!authToken) {
+      console.log('Skipping activity tests - no auth token');
+      return;
+    }
+
+    const badGoal = await request
+      .put('/api/progress/settings')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ dailyXpGoal: 25 });
+    expect(badGoal.status).toBe(400);
+
+    const badZone = await request
+      .put('/api/progress/settings')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ timezone: 'Mars/Olympus_Mons' });
+    expect(badZone.status).toBe(400);
+
+    const updated = await request
+      .put('/api/progress/settings')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ dailyXpGoal: 10, timezone: 'UTC' });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.dailyXpGoal).toBe(10);
+  });
+
+  it('should spend streak freezes on missed days', async () => {
+    if (!authToken) return;
+
+    // Active three and four days ago, with two freezes to cover the two days since
+    await prisma.activityEvent.createMany({
+      data: [3, 4].map(daysAgo => ({
+        userId,
+        type: 'CONVERSATION_TURN' as const,
+        xp: 2,
+        day: addDaysToKey(today, -daysAgo)
+      }))
+    });
+    await prisma.user.update({ where: { id: userId }, data: { streakFreezes: 2 } });
+
+    const res = await request
+      .get('/api/progress/activity?days=7')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(res.status).toBe(200);
+    expect(res.body.data.days).toHaveLength(7);
+    expect(res.body.data.streak.freezesUsed).toBe(2);
+    expect(res.body.data.streak.freezesAvailable).toBe(0);
+    expect(res.body.data.streak.current).toBe(2);
+
+    const frozen = res.body.data.days.filter((day: any) => day.frozen).map((day: any) => day.date);
+    expect(frozen).toEqual([addDaysToKey(today, -2), addDaysToKey(today, -1)]);
+  });
+
+  it('should award XP once per completed lesson and extend the streak', async () => {
+    if (!authToken || !lessonId) {
+      console.log('Skipping lesson XP test - setup incomplete');
+      return;
+    }
+
+    const first = await request
+      .post('/api/progress/lesson')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ lessonId, score: 90, completed: true });
+    expect(first.status).toBe(200);
+    expect(first.body.data.xpAwarded).toBe(10);
+
+    const again = await request
+      .post('/api/progress/lesson')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ lessonId, score: 100, completed: true });
+    expect(again.body.data.xpAwarded).toBe(0);
+
+    const res = await request
+      .get('/api/progress/activity')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(res.body.data.today).toEqual({ date: today, xp: 10, goalMet: true });
+    expect(res.body.data.streak.current).toBe(3);
+    expect(res.body.data.streak.activeToday).toBe(true);
+    expect(res.body.data.totalXp).toBe(14);
+  });
+});
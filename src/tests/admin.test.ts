@@ -0,0 +1,182 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+
+describe('Admin Routes', () => {
+  let adminToken: string;
+  let learnerToken: string;
+  let adminId: string;
+  let learnerId: string;
+  const learnerEmail = `learner${Date.now()}@test.com`;
+  let languageId: string;
+
+  const login = async (email: string) => {
+    const response = await request
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data?.token || response.body.token;
+  };
+
+  beforeAll(async () => {
+    try {
+      const hashedPassword = await bcrypt.hash('password123', 10);
+      const adminEmail = `admin${Date.now()}@test.com`;
+
+      const admin = await prisma.user.create({
+        data: { email: adminEmail, password: hashedPassword, fullName: 'Admin Test User', role: 'ADMIN' }
+      });
+      adminId = admin.id;
+
+      const learner = await prisma.user.create({
+        data: { email: learnerEmail, password: hashedPassword, fullName: 'Learner Test User' }
+      });
+      learnerId = learner.id;
+
+      adminToken = await login(adminEmail);
+      learnerToken = await login(learnerEmail);
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      for (const id of [adminId, learnerId].filter(Boolean)) {
+        await prisma.userLanguage.deleteMany({ where: { userId: id } });
+        await prisma.session.deleteMany({ where: { userId: id } });
+        await prisma.user.delete({ where: { id } });
+      }
+      if (languageId) {
+        await prisma.language.deleteMany({ where: { id: languageId } });
+      }
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should reject learners', async () => {
+    if (!learnerToken) {
+      console.log('Skipping admin test - setup incomplete');
+      return;
+    }
+
+    const response = await request
+      .get('/api/admin/users')
+      .set('Authorization', `Bearer ${learnerToken}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should validate catalog language codes', async () => {
+    if (!adminToken) return;
+
+    const invalid = await request
+      .post('/api/admin/languages')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ code: 'not-a-language' });
+    expect(invalid.status).toBe(400);
+
+    // Hawaiian is unlikely to be in a test catalog already
+    const created = await request
+      .post('/api/admin/languages')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ code: 'HAW' });
+    expect([201, 409]).toContain(created.status);
+    if (created.status === 201) {
+      languageId = created.body.data.id;
+      expect(created.body.data.code).toBe('haw');
+      expect(created.body.data.direction).toBe('LTR');
+    }
+
+    const duplicate = await request
+      .post('/api/admin/languages')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ code: 'haw' });
+    expect(duplicate.status).toBe(409);
+  });
+
+  it('should only let learners add enabled catalog languages', async () => {
+    if (!adminToken || !learnerToken || !languageId) return;
+
+    await request
+      .put(`/api/admin/languages/${languageId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ enabled: false });
+
+    const disabled = await request
+      .post('/api/languages/add')
+      .set('Authorization', `Bearer ${learnerToken}`)
+      .send({ code: 'haw' });
+    expect(disabled.status).toBe(400);
+
+    const unknown = await request
+      .post('/api/languages/add')
+      .set('Authorization', `Bearer ${learnerToken}`)
+      .send({ name: 'Klingon', code: 'tlh-x' });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should save quiz edits as a new version', async () => {
+    if (!adminToken) return;
+    const language = await prisma.language.findFirst({ where: { enabled: true } });
+    if (!language) return;
+
+    const lesson = await prisma.lesson.create({
+      data: { title: `Admin quiz lesson ${Date.now()}`, languageId: language.id, level: 'A1' }
+    });
+    const questions = [{ question: 'What does "hola" mean?', options: ['Bye', 'Hello', 'Please', 'Thanks'], correctAnswer: 1 }];
+    const original = await prisma.quiz.create({ data: { lessonId: lesson.id, questions } });
+
+    try {
+      const edited = questions.map(question => ({ ...question, explanation: '"Hola" is the usual greeting.' }));
+      const res = await request
+        .put(`/api/admin/quizzes/${original.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ questions: edited });
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ lessonId: lesson.id, version: 2 });
+      expect(res.body.data.id).not.toBe(original.id);
+
+      // Attempts on version 1 stay graded against the questions they answered
+      const unchanged = await prisma.quiz.findUnique({ where: { id: original.id } });
+      expect(unchanged?.questions).toEqual(questions);
+
+      const stale = await request
+        .put(`/api/admin/quizzes/${original.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ questions: edited });
+      expect(stale.status).toBe(409);
+    } finally {
+      await prisma.quiz.deleteMany({ where: { lessonId: lesson.id } });
+      await prisma.lesson.delete({ where: { id: lesson.id } });
+    }
+  });
+
+  it('should require a filter to reset the leaderboard', async () => {
+    if (!adminToken) return;
+
+    const response = await request
+      .delete('/api/admin/leaderboard/entries')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should deactivate a user and block their login', async () => {
+    if (!adminToken || !learnerId) return;
+
+    const response = await request
+      .post(`/api/admin/users/${learnerId}/deactivate`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(response.status).toBe(200);
+
+    const profile = await request
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${learnerToken}`);
+    expect(profile.status).toBe(403);
+
+    const loginResponse = await request
+      .post('/api/auth/login')
+      .send({ email: learnerEmail, password: 'password123' });
+    expect(loginResponse.status).toBe(403);
+  });
+});
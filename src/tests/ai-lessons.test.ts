@@ -21,6 +21,7 @@ describe('AI Lessons Routes', () => {
             email: uniqueEmail,
             password: hashedPassword,
             fullName: 'AI Test User',
+            emailVerified: true, // AI generation is limited to verified accounts
           }
         });
         
@@ -92,6 +93,14 @@ describe('AI Lessons Routes', () => {
             numberOfQuestions: 3
           }
         },
+        {
+          path: '/api/ai-lessons/quiz/any-quiz-id/attempts',
+          method: 'post',
+          data: {
+            answers: [0, 1, 2], // Graded server-side against the stored quiz
+            timeTaken: 42
+          }
+        },
         {
           path: '/api/ai-lessons/conversation-prompt',
           method: 'post',
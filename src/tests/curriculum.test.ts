@@ -0,0 +1,161 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+
+describe('Curriculum Routes', () => {
+  let authToken: string;
+  let userId: string;
+  let languageId: string;
+  let courseId: string;
+  let unitId: string;
+  const lessonIds: string[] = [];
+
+  beforeAll(async () => {
+    try {
+      const uniqueEmail = `curriculum${Date.now()}@test.com`;
+      const hashedPassword = await bcrypt.hash('password123', 10);
+
+      const testUser = await prisma.user.create({
+        data: {
+          email: uniqueEmail,
+          password: hashedPassword,
+          fullName: 'Curriculum Test User',
+          role: 'CONTENT_EDITOR'
+        }
+      });
+      userId = testUser.id;
+
+      const loginResponse = await request
+        .post('/api/auth/login')
+        .send({ email: uniqueEmail, password: 'password123' });
+      authToken = loginResponse.body.data?.token || loginResponse.body.token;
+
+      const language = await prisma.language.create({
+        data: {
+          name: `Curriculum Lang ${Date.now()}`,
+          code: `cl${Date.now()}`
+        }
+      });
+      languageId = language.id;
+
+      for (const title of ['Greetings', 'Numbers']) {
+        const lesson = await prisma.lesson.create({
+          data: { title, languageId, level: 'A1' }
+        });
+        lessonIds.push(lesson.id);
+      }
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      if (userId) {
+        await prisma.learningProgress.deleteMany({ where: { userId } });
+        await prisma.user.delete({ where: { id: userId } });
+      }
+      if (languageId) {
+        await prisma.course.deleteMany({ where: { languageId } });
+        await prisma.quiz.deleteMany({ where: { lesson: { languageId } } });
+        await prisma.lesson.deleteMany({ where: { languageId } });
+        await prisma.language.delete({ where: { id: languageId } });
+      }
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should build a course with an ordered unit', async () => {
+    if (!authToken || lessonIds.length !== 2) {
+      console.log('Skipping curriculum test - setup incomplete');
+      return;
+    }
+
+    const course = await request
+      .post('/api/curriculum/courses')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ languageId, title: 'Basics', minLevel: 'BEGINNER', maxLevel: 'INTERMEDIATE' });
+    expect(course.status).toBe(201);
+    courseId = course.body.data.id;
+
+    const unit = await request
+      .post(`/api/curriculum/courses/${courseId}/units`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: 'Unit 1' });
+    expect(unit.status).toBe(201);
+    unitId = unit.body.data.id;
+
+    const lessons = await request
+      .put(`/api/curriculum/units/${unitId}/lessons`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ lessonIds });
+    expect(lessons.status).toBe(200);
+    expect(lessons.body.data.lessons.map((l: any) => l.id)).toEqual(lessonIds);
+  });
+
+  it('should reject an inverted level range', async () => {
+    if (!authToken || !languageId) return;
+
+    const response = await request
+      .post('/api/curriculum/courses')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ languageId, title: 'Broken', minLevel: 'ADVANCED', maxLevel: 'BEGINNER' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should unlock lessons in order', async () => {
+    if (!unitId) return;
+
+    const first = await request
+      .get(`/api/curriculum/next?languageId=${languageId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(first.status).toBe(200);
+    expect(first.body.data.lesson.id).toBe(lessonIds[0]);
+
+    const locked = await request
+      .post('/api/progress/lesson')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ lessonId: lessonIds[1], score: 100, completed: true });
+    expect(locked.status).toBe(403);
+
+    // Passing the quiz would complete the lesson, so it is locked as well
+    const quiz = await prisma.quiz.create({
+      data: {
+        lessonId: lessonIds[1],
+        questions: [{ question: 'Uno?', options: ['1', '2', '3', '4'], correctAnswer: 0 }]
+      }
+    });
+    const lockedQuiz = await request
+      .post(`/api/ai-lessons/quiz/${quiz.id}/attempts`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ answers: [0] });
+    expect(lockedQuiz.status).toBe(403);
+
+    await request
+      .post('/api/progress/lesson')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ lessonId: lessonIds[0], score: 90, completed: true });
+
+    const second = await request
+      .get(`/api/curriculum/next?languageId=${languageId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(second.body.data.lesson.id).toBe(lessonIds[1]);
+  });
+
+  it('should reject prerequisite cycles', async () => {
+    if (!unitId) return;
+
+    await request
+      .put(`/api/curriculum/lessons/${lessonIds[1]}/prerequisites`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ prerequisiteIds: [lessonIds[0]] });
+
+    const cycle = await request
+      .put(`/api/curriculum/lessons/${lessonIds[0]}/prerequisites`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ prerequisiteIds: [lessonIds[1]] });
+
+    expect(cycle.status).toBe(400);
+  });
+});
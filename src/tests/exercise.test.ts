@@ -0,0 +1,178 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+import { exerciseAudioPath, gradeExercise, matchAnswer, prepareLessonExercises } from '../services/lesson-exercise.service';
+import { validateExercise } from '../services/llm/llm.schemas';
+
+describe('Lesson Exercise Routes', () => {
+  let authToken: string;
+  let userId: string;
+  let lessonId: string;
+  const exerciseIds: Record<string, string> = {};
+
+  beforeAll(async () => {
+    try {
+      const language = await prisma.language.findFirst({ where: { enabled: true } });
+      if (!language) return;
+
+      const email = `exercise${Date.now()}@test.com`;
+      const user = await prisma.user.create({
+        data: {
+          email,
+          password: await bcrypt.hash('password123', 10),
+          fullName: 'Exercise Test User',
+          emailVerified: true
+        }
+      });
+      userId = user.id;
+
+      const lesson = await prisma.lesson.create({
+        data: {
+          title: `Exercise lesson ${Date.now()}`,
+          languageId: language.id,
+          level: 'A1',
+          exercises: {
+            create: [
+              { position: 0, type: 'FILL_BLANK', prompt: { sentence: 'Buenos ___.' }, answerKey: { answers: ['días'] } },
+              { position: 1, type: 'REORDER', prompt: { words: ['Ana', 'llamo', 'Me'] }, answerKey: { answers: ['Me llamo Ana'] } },
+              {
+                position: 2,
+                type: 'MATCH_PAIRS',
+                prompt: { left: ['hola', 'adiós'], right: ['goodbye', 'hello'] },
+                answerKey: { pairs: [{ left: 'hola', right: 'hello' }, { left: 'adiós', right: 'goodbye' }] }
+              }
+            ]
+          }
+        },
+        include: { exercises: true }
+      });
+      lessonId = lesson.id;
+      for (const exercise of lesson.exercises) exerciseIds[exercise.type] = exercise.id;
+
+      const login = await request.post('/api/auth/login').send({ email, password: 'password123' });
+      authToken = login.body.data?.token || login.body.token;
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      if (userId) {
+        await prisma.learningProgress.deleteMany({ where: { userId } });
+        await prisma.user.delete({ where: { id: userId } });
+      }
+      if (lessonId) await prisma.lesson.delete({ where: { id: lessonId } });
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should tolerate case, punctuation and accepted alternates', () => {
+    expect(matchAnswer('  muchas GRACIAS! ', ['Muchas gracias'])).toEqual({ isCorrect: true, accentsDiffer: false });
+    expect(matchAnswer('Buenas', ['Buenos días', 'Buenas'])).toEqual({ isCorrect: true, accentsDiffer: false });
+    expect(matchAnswer('adios', ['adiós'])).toEqual({ isCorrect: true, accentsDiffer: true });
+    expect(matchAnswer('hola', ['adiós']).isCorrect).toBe(false);
+  });
+
+  it('should tell apart pairs whose left items differ only by accents', () => {
+    const exercise: any = {
+      id: 'pairs',
+      type: 'MATCH_PAIRS',
+      answerKey: { pairs: [{ left: 'te', right: 'you' }, { left: 'té', right: 'tea' }] }
+    };
+    expect(gradeExercise(exercise, { te: 'you', 'té': 'tea' }).isCorrect).toBe(true);
+    expect(gradeExercise(exercise, { te: 'tea', 'té': 'you' }).isCorrect).toBe(false);
+    expect(validateExercise({ type: 'match_pairs', pairs: exercise.answerKey.pairs }, 'exercise')).toEqual([]);
+    expect(validateExercise({ type: 'match_pairs', pairs: [{ left: 'Hola!', right: 'hi' }, { left: 'hola', right: 'hello' }] }, 'exercise'))
+      .toContain('exercise.pairs must not repeat a left item');
+  });
+
+  it('should grade answers into the exercise score, leaving the quiz score alone', async () => {
+    if (!authToken || !lessonId) {
+      console.log('Skipping exercise tests - setup incomplete');
+      return;
+    }
+    const auth = { Authorization: `Bearer ${authToken}` };
+
+    const wrongShape = await request
+      .post(`/api/ai-lessons/exercises/${exerciseIds.MATCH_PAIRS}/answers`)
+      .set(auth)
+      .send({ answer: 'hello' });
+    expect(wrongShape.status).toBe(400);
+
+    const blank = await request
+      .post(`/api/ai-lessons/exercises/${exerciseIds.FILL_BLANK}/answers`)
+      .set(auth)
+      .send({ answer: 'Dias' });
+    expect(blank.status).toBe(201);
+    expect(blank.body.result).toMatchObject({ isCorrect: true, accentsDiffer: true, correctAnswer: 'días' });
+    expect(blank.body.progress).toMatchObject({ exerciseScore: 33, score: 0 });
+
+    const reorder = await request
+      .post(`/api/ai-lessons/exercises/${exerciseIds.REORDER}/answers`)
+      .set(auth)
+      .send({ answer: ['Ana', 'me', 'llamo'] });
+    expect(reorder.body.result.isCorrect).toBe(false);
+    expect(reorder.body.progress.exerciseScore).toBe(33);
+
+    const pairs = await request
+      .post(`/api/ai-lessons/exercises/${exerciseIds.MATCH_PAIRS}/answers`)
+      .set(auth)
+      .send({ answer: { hola: 'hello', 'adiós': 'goodbye' } });
+    expect(pairs.body.result.isCorrect).toBe(true);
+    expect(pairs.body.progress.exerciseScore).toBe(67);
+
+    const progress = await prisma.learningProgress.findUnique({
+      where: { userId_lessonId: { userId, lessonId } }
+    });
+    expect(progress).toMatchObject({ exerciseScore: 67, score: 0 });
+  });
+
+  it('should keep the dictation sentence out of the public content', () => {
+    const { content, exercises } = prepareLessonExercises({
+      exercises: [{ type: 'dictation', answers: ['Adiós, hasta mañana.'], translation: 'Goodbye, see you tomorrow.' }]
+    } as any);
+    const [exercise] = (content as any).exercises;
+    expect(JSON.stringify(exercise)).not.toContain('Adiós');
+    expect(exercise.audioUrl).toBe(exerciseAudioPath(exercises[0].id as string));
+  });
+
+  it('should read dictation sentences out instead of sending their text', async () => {
+    if (!authToken || !lessonId) return;
+    const auth = { Authorization: `Bearer ${authToken}` };
+
+    const lesson = await prisma.lesson.findUniqueOrThrow({ where: { id: lessonId } });
+    const dictation = await prisma.lesson.create({
+      data: {
+        title: `Dictation lesson ${Date.now()}`,
+        languageId: lesson.languageId,
+        level: 'A1',
+        exercises: {
+          create: [{ position: 0, type: 'DICTATION', prompt: { translation: 'Goodbye' }, answerKey: { answers: ['Adiós'] } }]
+        }
+      },
+      include: { exercises: true }
+    });
+
+    try {
+      const audio = await request.get(`/api/ai-lessons/exercises/${dictation.exercises[0].id}/audio`).set(auth);
+      expect(audio.status).toBe(200);
+      expect(audio.headers['content-type']).toMatch(/^audio\//);
+
+      const notDictation = await request.get(`/api/ai-lessons/exercises/${exerciseIds.FILL_BLANK}/audio`).set(auth);
+      expect(notDictation.status).toBe(404);
+    } finally {
+      await prisma.lesson.delete({ where: { id: dictation.id } }).catch(() => undefined);
+    }
+  });
+
+  it('should return 404 for unknown exercises', async () => {
+    if (!authToken) return;
+
+    const res = await request
+      .post('/api/ai-lessons/exercises/does-not-exist/answers')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ answer: 'x' });
+    expect(res.status).toBe(404);
+  });
+});
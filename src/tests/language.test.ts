@@ -214,4 +214,39 @@ describe('Language Routes', () => {
       expect(true).toBe(true);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('CEFR levels', () => {
+    it('should accept CEFR and legacy levels and reject unknown ones', async () => {
+      if (!authToken) {
+        console.log('Skipping level tests - no auth token');
+        return;
+      }
+
+      await prisma.userLanguage.deleteMany({ where: { userId, languageId: testLanguageId } });
+
+      const added = await request
+        .post('/api/languages/add')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ languageId: testLanguageId, level: 'b2' });
+      if (added.status !== 201) {
+        console.log('Skipping level tests - language could not be added:', added.body.message);
+        return;
+      }
+      expect(added.body.data.level).toBe('B2');
+
+      // A legacy level maps to the start of its band
+      const legacy = await request
+        .put('/api/languages/level')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ languageId: testLanguageId, level: 'INTERMEDIATE' });
+      expect(legacy.status).toBe(200);
+      expect(legacy.body.data.level).toBe('B1');
+
+      const invalid = await request
+        .put('/api/languages/level')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ languageId: testLanguageId, level: 'EXPERT' });
+      expect(invalid.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+
+describe('Leaderboard Routes', () => {
+  const users: { id: string; token: string }[] = [];
+  let languageId: string;
+  let lessonId: string;
+  let quizId: string;
+
+  const createLearner = async (name: string, score: number) => {
+    const email = `leaderboard${Date.now()}${users.length}@test.com`;
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: await bcrypt.hash('password123', 10),
+        fullName: name,
+        emailVerified: true
+      }
+    });
+    await prisma.quizAttempt.create({
+      data: { userId: user.id, quizId, score, correctCount: score / 10, totalQuestions: 10 }
+    });
+    await prisma.leaderboardEntry.create({ data: { userId: user.id, quizId, score } });
+    await prisma.activityEvent.create({
+      data: { userId: user.id, type: 'QUIZ_ATTEMPT', xp: score, day: new Date().toISOString().slice(0, 10), languageId }
+    });
+
+    const login = await request.post('/api/auth/login').send({ email, password: 'password123' });
+    users.push({ id: user.id, token: login.body.data?.token || login.body.token });
+  };
+
+  beforeAll(async () => {
+    try {
+      const language = await prisma.language.findFirst({ where: { enabled: true } });
+      if (!language) return;
+      languageId = language.id;
+
+      const lesson = await prisma.lesson.create({
+        data: { title: `Leaderboard lesson ${Date.now()}`, languageId, level: 'B2' }
+      });
+      lessonId = lesson.id;
+      const quiz = await prisma.quiz.create({ data: { lessonId, questions: [] } });
+      quizId = quiz.id;
+
+      await createLearner('Leaderboard Leader', 90);
+      await createLearner('Leaderboard Runner-up', 60);
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      const userIds = users.map(user => user.id);
+      await prisma.leaderboardEntry.deleteMany({ where: { userId: { in: userIds } } });
+      await prisma.quizAttempt.deleteMany({ where: { userId: { in: userIds } } });
+      await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+      if (quizId) await prisma.quiz.delete({ where: { id: quizId } });
+      if (lessonId) await prisma.lesson.delete({ where: { id: lessonId } });
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should reject unknown windows and metrics', async () => {
+    const badWindow = await request.get('/api/leaderboard/global?window=year');
+    expect(badWindow.status).toBe(400);
+
+    const badMetric = await request.get('/api/leaderboard/global?metric=median');
+    expect(badMetric.status).toBe(400);
+
+    const xpByLevel = await request.get('/api/leaderboard/global?metric=xp&level=B2');
+    expect(xpByLevel.status).toBe(400);
+  });
+
+  it('should paginate and return the caller rank', async () => {
+    if (users.length < 2) {
+      console.log('Skipping leaderboard test - setup incomplete');
+      return;
+    }
+
+    const [leader, runnerUp] = users;
+    const query = `/api/leaderboard/language/${languageId}?window=week&metric=total&minActivity=1&level=B2&limit=1`;
+
+    const leaderView = await request.get(query).set('Authorization', `Bearer ${leader.token}`);
+    expect(leaderView.status).toBe(200);
+    expect(leaderView.body.data.leaderboard.length).toBeLessThanOrEqual(1);
+    expect(leaderView.body.data.total).toBeGreaterThanOrEqual(2);
+    expect(leaderView.body.data.me.userId).toBe(leader.id);
+
+    const runnerUpView = await request.get(query).set('Authorization', `Bearer ${runnerUp.token}`);
+    expect(runnerUpView.body.data.me.userId).toBe(runnerUp.id);
+    expect(runnerUpView.body.data.me.rank).toBeGreaterThan(leaderView.body.data.me.rank);
+
+    const anonymous = await request.get(query);
+    expect(anonymous.body.data.me).toBeNull();
+  });
+
+  it('should leave users below the minimum activity unranked', async () => {
+    if (!users.length) return;
+
+    // One quiz is not enough for the default average board
+    const res = await request
+      .get('/api/leaderboard/global')
+      .set('Authorization', `Bearer ${users[0].token}`);
+    expect(res.status).toBe(200);
+    expect(res.body.data.metric).toBe('average');
+    expect(res.body.data.me).toBeNull();
+
+    const xp = await request
+      .get('/api/leaderboard/global?metric=xp&window=month')
+      .set('Authorization', `Bearer ${users[0].token}`);
+    expect(xp.body.data.me.xp).toBe(90);
+  });
+});
@@ -0,0 +1,151 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+import { closeLeagueWeek, joinWeeklyLeague, rankCohort } from '../services/league.service';
+import { addDaysToKey, weekStartKey } from '../utils/dates';
+
+describe('League Routes', () => {
+  const users: { id: string; token: string }[] = [];
+  // A past week, far enough back that no other test data lands in it
+  const weekStart = addDaysToKey(weekStartKey(new Date()), -7 * 52);
+  const midWeek = new Date(`${addDaysToKey(weekStart, 3)}T12:00:00Z`);
+
+  const createUser = async (name: string, xp: number) => {
+    const email = `league${Date.now()}${users.length}@test.com`;
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: await bcrypt.hash('password123', 10),
+        fullName: name,
+        emailVerified: true,
+        leagueTier: 'SILVER'
+      }
+    });
+    await prisma.activityEvent.create({
+      data: { userId: user.id, type: 'LESSON_COMPLETED', xp, day: addDaysToKey(weekStart, 3), createdAt: midWeek }
+    });
+    await joinWeeklyLeague(user.id, midWeek);
+
+    const login = await request.post('/api/auth/login').send({ email, password: 'password123' });
+    users.push({ id: user.id, token: login.body.data?.token || login.body.token });
+  };
+
+  const as = (index: number) => ({ Authorization: `Bearer ${users[index].token}` });
+
+  beforeAll(async () => {
+    try {
+      await createUser('League Ana', 40);
+      await createUser('League Ben', 10);
+      await createUser('League Cleo', 25);
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      await prisma.leagueCohort.deleteMany({ where: { members: { some: { userId: { in: users.map(user => user.id) } } } } });
+      await prisma.user.deleteMany({ where: { id: { in: users.map(user => user.id) } } });
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should rank ties by who joined first', () => {
+    const joinedAt = new Date();
+    const ranked = rankCohort([
+      { userId: 'b', joinedAt: new Date(joinedAt.getTime() + 1000), xp: 10 },
+      { userId: 'a', joinedAt, xp: 10 },
+      { userId: 'c', joinedAt, xp: 0 }
+    ], 'BRONZE');
+    expect(ranked.map(member => member.userId)).toEqual(['a', 'b', 'c']);
+    expect(ranked[0].zone).toBe('promotion');
+  });
+
+  it('should require authentication', async () => {
+    const res = await request.get('/api/leagues/current');
+    expect(res.status).toBe(401);
+  });
+
+  it('should show the tier before joining this week', async () => {
+    if (users.length < 3) {
+      console.log('Skipping league tests - setup incomplete');
+      return;
+    }
+
+    const res = await request.get('/api/leagues/current').set(as(0));
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ joined: false, tier: 'SILVER', standings: [] });
+  });
+
+  it('should refuse to close a week that has not ended', async () => {
+    await expect(closeLeagueWeek(weekStartKey(new Date()))).rejects.toThrow();
+    await expect(closeLeagueWeek(addDaysToKey(weekStart, 1))).rejects.toThrow();
+  });
+
+  it('should promote and relegate when the week closes, once', async () => {
+    if (users.length < 3) return;
+    const [ana, ben, cleo] = users;
+
+    const memberships = await prisma.leagueMembership.findMany({ where: { userId: { in: users.map(user => user.id) } } });
+    expect(new Set(memberships.map(membership => membership.cohortId)).size).toBe(1);
+
+    const summary = await closeLeagueWeek(weekStart);
+    expect(summary.cohorts).toBeGreaterThanOrEqual(1);
+
+    const tiers = await prisma.user.findMany({ where: { id: { in: users.map(user => user.id) } } });
+    const tierOf = (id: string) => tiers.find(user => user.id === id)?.leagueTier;
+    expect(tierOf(ana.id)).toBe('GOLD');
+    expect(tierOf(cleo.id)).toBe('SILVER');
+
+    // Closing again changes nothing
+    const again = await closeLeagueWeek(weekStart);
+    expect(again.cohorts).toBe(0);
+
+    const history = await request.get('/api/leagues/history').set(as(0));
+    expect(history.status).toBe(200);
+    expect(history.body.data.weeks[0]).toMatchObject({
+      weekStart,
+      tier: 'SILVER',
+      rank: 1,
+      xp: 40,
+      outcome: 'PROMOTED'
+    });
+
+    const benHistory = await request.get('/api/leagues/history').set(as(1));
+    expect(benHistory.body.data.weeks[0].rank).toBe(3);
+  });
+
+  it('should close the last week before joining the next one if the job has not run', async () => {
+    if (users.length < 3) return;
+    const lastWeek = addDaysToKey(weekStart, 7 * 10);
+    const thisWeek = addDaysToKey(lastWeek, 7);
+
+    const dana = await prisma.user.create({
+      data: {
+        email: `league${Date.now()}dana@test.com`,
+        password: await bcrypt.hash('password123', 10),
+        fullName: 'League Dana',
+        leagueTier: 'SILVER'
+      }
+    });
+    users.push({ id: dana.id, token: '' });
+
+    await prisma.activityEvent.create({
+      data: { userId: dana.id, type: 'LESSON_COMPLETED', xp: 30, day: addDaysToKey(lastWeek, 2), createdAt: new Date(`${addDaysToKey(lastWeek, 2)}T12:00:00Z`) }
+    });
+    await joinWeeklyLeague(dana.id, new Date(`${addDaysToKey(lastWeek, 2)}T12:00:00Z`));
+
+    // First activity of the new week, before closeLeagueWeek(lastWeek) has run
+    await joinWeeklyLeague(dana.id, new Date(`${thisWeek}T00:05:00Z`));
+
+    const memberships = await prisma.leagueMembership.findMany({
+      where: { userId: dana.id },
+      include: { cohort: true },
+      orderBy: { weekStart: 'asc' }
+    });
+    expect(memberships.map(membership => membership.weekStart)).toEqual([lastWeek, thisWeek]);
+    expect(memberships[0].outcome).toBe('PROMOTED');
+    expect(memberships[0].cohort.closedAt).not.toBeNull();
+    expect(memberships[1].cohort.tier).toBe('GOLD');
+  });
+});
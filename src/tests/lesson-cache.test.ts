@@ -0,0 +1,81 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+
+describe('Lesson Cache', () => {
+  let authToken: string;
+  let userId: string;
+  let testLanguageId: string;
+
+  beforeAll(async () => {
+    try {
+      const uniqueEmail = `lessoncache${Date.now()}@test.com`;
+      const hashedPassword = await bcrypt.hash('password123', 10);
+
+      const testUser = await prisma.user.create({
+        data: {
+          email: uniqueEmail,
+          password: hashedPassword,
+          fullName: 'Lesson Cache Test User',
+          emailVerified: true,
+          role: 'ADMIN' // cache-stats is admin-only
+        }
+      });
+      userId = testUser.id;
+
+      const loginResponse = await request
+        .post('/api/auth/login')
+        .send({ email: uniqueEmail, password: 'password123' });
+      authToken = loginResponse.body.data?.token || loginResponse.body.token;
+
+      const language = await prisma.language.findFirst();
+      testLanguageId = language?.id as string;
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      if (userId) {
+        await prisma.learningProgress.deleteMany({ where: { userId } });
+        await prisma.user.delete({ where: { id: userId } });
+      }
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should reuse a lesson for an equivalent topic', async () => {
+    if (!authToken || !testLanguageId) {
+      console.log('Skipping lesson cache test - setup incomplete');
+      return;
+    }
+
+    const topic = `Cache ${Date.now()}`;
+    const first = await request
+      .post('/api/ai-lessons/generate-lesson')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ languageId: testLanguageId, level: 'BEGINNER', topic: `The ${topic}` });
+    expect(first.status).toBe(200);
+
+    // Another learner would be served the same lesson; forceNew always generates
+    const forced = await request
+      .post('/api/ai-lessons/generate-lesson')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ languageId: testLanguageId, level: 'BEGINNER', topic, forceNew: true });
+    expect(forced.status).toBe(200);
+    expect(forced.body.cached).toBe(false);
+  });
+
+  it('should report hit-rate metrics', async () => {
+    if (!authToken) return;
+
+    const response = await request
+      .get('/api/ai-lessons/cache-stats')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveProperty('hitRate');
+    expect(response.body.data.forcedNew).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+import { generateValidatedJSON, registerLLMProvider, LLMValidationError } from '../services/llm/llm.service';
+import { validateQuizQuestions } from '../services/llm/llm.schemas';
+import { LLMProvider, LLMRequest } from '../services/llm/llm.types';
+import { getLLMTaskConfig } from '../config/llm';
+
+// Replays canned responses in order, repeating the last one, and records every prompt
+class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+  prompts: string[] = [];
+  responses: string[] = [];
+
+  async generate(req: LLMRequest): Promise<string> {
+    this.prompts.push(req.prompt);
+    return this.responses[Math.min(this.prompts.length - 1, this.responses.length - 1)];
+  }
+}
+
+const validQuestion = {
+  question: 'What does "hola" mean?',
+  options: ['Goodbye', 'Hello', 'Please', 'Thanks'],
+  correctAnswer: 1,
+  explanation: '"Hola" means hello.'
+};
+
+describe('LLM Output Validation', () => {
+  const stub = new StubProvider();
+
+  beforeAll(() => {
+    registerLLMProvider(stub);
+    process.env.LLM_QUIZ_PROVIDER = 'stub';
+  });
+
+  afterAll(() => {
+    delete process.env.LLM_QUIZ_PROVIDER;
+  });
+
+  beforeEach(() => {
+    stub.prompts = [];
+    stub.responses = [];
+  });
+
+  it('should accept well-formed questions and reject malformed ones', () => {
+    const accepted = validateQuizQuestions([validQuestion]);
+    expect(accepted.ok).toBe(true);
+
+    const rejected = validateQuizQuestions([{ ...validQuestion, correctAnswer: 7 }, { question: '' }]);
+    expect(rejected.ok).toBe(false);
+    if (!rejected.ok) expect(rejected.errors.length).toBeGreaterThanOrEqual(2);
+
+    expect(validateQuizQuestions({ questions: [] }).ok).toBe(false);
+  });
+
+  it('should only apply LLM_MODEL to tasks on the default provider', () => {
+    const saved = { provider: process.env.LLM_PROVIDER, model: process.env.LLM_MODEL };
+    try {
+      process.env.LLM_PROVIDER = 'gemini';
+      process.env.LLM_MODEL = 'gemini-2.5-pro';
+      process.env.LLM_CONVERSATION_PROVIDER = 'openai';
+
+      expect(getLLMTaskConfig('lesson')).toEqual({ provider: 'gemini', model: 'gemini-2.5-pro' });
+      expect(getLLMTaskConfig('conversation')).toEqual({ provider: 'openai', model: undefined });
+
+      process.env.LLM_CONVERSATION_MODEL = 'llama3.1';
+      expect(getLLMTaskConfig('conversation')).toEqual({ provider: 'openai', model: 'llama3.1' });
+    } finally {
+      delete process.env.LLM_CONVERSATION_PROVIDER;
+      delete process.env.LLM_CONVERSATION_MODEL;
+      for (const [key, value] of [['LLM_PROVIDER', saved.provider], ['LLM_MODEL', saved.model]] as const) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+  });
+
+  it('should send invalid output back for repair with the validation errors', async () => {
+    stub.responses = ['Sure! Here is your quiz.', JSON.stringify([{ ...validQuestion, options: ['Hello'] }]), JSON.stringify([validQuestion])];
+
+    const questions = await generateValidatedJSON('quiz', 'Write a quiz', validateQuizQuestions);
+
+    expect(questions).toHaveLength(1);
+    expect(stub.prompts).toHaveLength(3);
+    expect(stub.prompts[1]).toContain('Response was not valid JSON');
+    expect(stub.prompts[1]).toContain('Sure! Here is your quiz.');
+    expect(stub.prompts[2]).toContain('rejected for these reasons');
+  });
+
+  it('should give up with LLMValidationError after the repair attempts', async () => {
+    stub.responses = [JSON.stringify([{ ...validQuestion, correctAnswer: -1 }])];
+
+    const error = await generateValidatedJSON('quiz', 'Write a quiz', validateQuizQuestions).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMValidationError);
+    expect(error.task).toBe('quiz');
+    expect(error.errors.length).toBeGreaterThan(0);
+    // The first attempt plus LLM_MAX_REPAIR_ATTEMPTS (2 by default) repairs
+    expect(stub.prompts).toHaveLength(3);
+  });
+
+  it('should answer 502 generation_failed when quiz output never validates', async () => {
+    let userId = '';
+    let lessonId = '';
+    let authToken = '';
+    try {
+      const language = await prisma.language.findFirst({ where: { enabled: true } });
+      if (language) {
+        const email = `llm${Date.now()}@test.com`;
+        const user = await prisma.user.create({
+          data: { email, password: await bcrypt.hash('password123', 10), fullName: 'LLM Test User', emailVerified: true }
+        });
+        userId = user.id;
+        const lesson = await prisma.lesson.create({
+          data: { title: `LLM lesson ${Date.now()}`, languageId: language.id, level: 'A1' }
+        });
+        lessonId = lesson.id;
+
+        const login = await request.post('/api/auth/login').send({ email, password: 'password123' });
+        authToken = login.body.data?.token || login.body.token;
+      }
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+
+    if (!authToken || !lessonId) {
+      console.log('Skipping generation failure test - setup incomplete');
+      return;
+    }
+
+    try {
+      stub.responses = ['not json at all'];
+      const res = await request
+        .post('/api/ai-lessons/generate-quiz')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ lessonId });
+
+      expect(res.status).toBe(502);
+      expect(res.body.status).toBe('generation_failed');
+      expect(res.body.errors).toContain('Response was not valid JSON');
+      expect(await prisma.quiz.count({ where: { lessonId } })).toBe(0);
+    } finally {
+      await prisma.user.delete({ where: { id: userId } }).catch(() => undefined);
+      await prisma.lesson.delete({ where: { id: lessonId } }).catch(() => undefined);
+    }
+  });
+});
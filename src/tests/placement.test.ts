@@ -0,0 +1,105 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+
+describe('Placement Test Routes', () => {
+  let authToken: string;
+  let userId: string;
+  let testLanguageId: string;
+  let testId: string;
+
+  beforeAll(async () => {
+    try {
+      const uniqueEmail = `placement${Date.now()}@test.com`;
+      const hashedPassword = await bcrypt.hash('password123', 10);
+
+      const testUser = await prisma.user.create({
+        data: {
+          email: uniqueEmail,
+          password: hashedPassword,
+          fullName: 'Placement Test User',
+          emailVerified: true
+        }
+      });
+      userId = testUser.id;
+
+      const loginResponse = await request
+        .post('/api/auth/login')
+        .send({ email: uniqueEmail, password: 'password123' });
+      authToken = loginResponse.body.data?.token || loginResponse.body.token;
+
+      const language = await prisma.language.findFirst({ where: { enabled: true } });
+      testLanguageId = language?.id as string;
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      if (userId) {
+        await prisma.placementTest.deleteMany({ where: { userId } });
+        await prisma.userLanguage.deleteMany({ where: { userId } });
+        await prisma.user.delete({ where: { id: userId } });
+      }
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should run an adaptive test to completion and set the level', async () => {
+    if (!authToken || !testLanguageId) {
+      console.log('Skipping placement test - setup incomplete');
+      return;
+    }
+
+    const start = await request
+      .post('/api/placement/start')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ languageId: testLanguageId });
+    expect(start.status).toBe(201);
+    expect(start.body.data.question).not.toHaveProperty('correctAnswer');
+    testId = start.body.data.testId;
+
+    let question = start.body.data.question;
+    let last: any;
+    for (let i = 0; i < start.body.data.questionCount; i++) {
+      last = await request
+        .post(`/api/placement/${testId}/answers`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ questionId: question.id, answer: 0 });
+      expect(last.status).toBe(200);
+      question = last.body.data.question;
+    }
+
+    expect(last.body.data.completed).toBe(true);
+    expect(['A1', 'A2', 'B1', 'B2', 'C1', 'C2']).toContain(last.body.data.recommendedLevel);
+
+    const userLanguage = await prisma.userLanguage.findUnique({
+      where: { userId_languageId: { userId, languageId: testLanguageId } }
+    });
+    expect(userLanguage?.level).toBe(last.body.data.recommendedLevel);
+  });
+
+  it('should show answers when reviewing a completed test', async () => {
+    if (!testId) return;
+
+    const response = await request
+      .get(`/api/placement/${testId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.status).toBe('COMPLETED');
+    expect(response.body.data.questions[0]).toHaveProperty('correctAnswer');
+  });
+
+  it('should reject answers after completion', async () => {
+    if (!testId) return;
+
+    const response = await request
+      .post(`/api/placement/${testId}/answers`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ questionId: 'any', answer: 1 });
+
+    expect(response.status).toBe(409);
+  });
+});
@@ -0,0 +1,286 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+import fs from 'fs';
+import path from 'path';
+import { decodeAudio } from '../services/audio.service';
+import { toPhonemes } from '../services/grapheme-to-phoneme.service';
+import { scorePronunciation } from '../services/pronunciation-scoring.service';
+
+// 1.2 s of a voiced tone encoded by ffmpeg with libopus. The WebM is written as a live stream,
+// with unknown segment and cluster sizes, the way browsers' MediaRecorder writes it.
+const fixture = (name: string): Buffer => fs.readFileSync(path.join(__dirname, 'fixtures', name));
+
+// One second of 16 kHz mono PCM; amplitude 0 produces silence
+const makeWav = (amplitude: number): Buffer => {
+  const rate = 16000;
+  const frames = rate;
+  const wav = Buffer.alloc(44 + frames * 2);
+
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + frames * 2, 4);
+  wav.write('WAVE', 8);
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(rate, 24);
+  wav.writeUInt32LE(rate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(frames * 2, 40);
+
+  for (let i = 0; i < frames; i++) {
+    wav.writeInt16LE(Math.round(amplitude * 32767 * Math.sin(i / 10)), 44 + i * 2);
+  }
+
+  return wav;
+};
+
+describe('Pronunciation Assessment', () => {
+  let authToken: string;
+  let userId: string;
+  let testLanguageId: string;
+
+  beforeAll(async () => {
+    try {
+      const uniqueEmail = `pronunciation${Date.now()}@test.com`;
+      const hashedPassword = await bcrypt.hash('password123', 10);
+
+      const testUser = await prisma.user.create({
+        data: {
+          email: uniqueEmail,
+          password: hashedPassword,
+          fullName: 'Pronunciation Test User',
+          emailVerified: true
+        }
+      });
+
+      userId = testUser.id;
+
+      const loginResponse = await request
+        .post('/api/auth/login')
+        .send({
+          email: uniqueEmail,
+          password: 'password123'
+        });
+
+      authToken = loginResponse.body.data?.token || loginResponse.body.token;
+
+      const language = await prisma.language.findFirst();
+      testLanguageId = language?.id as string;
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      if (userId) {
+        await prisma.pronunciationFeedback.deleteMany({ where: { userId } });
+        await prisma.user.delete({ where: { id: userId } });
+      }
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should score a base64 recording against the target text', async () => {
+    if (!authToken || !testLanguageId) {
+      console.log('Skipping base64 test - setup incomplete');
+      return;
+    }
+
+    const response = await request
+      .post('/api/ai-lessons/pronunciation-feedback')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        languageId: testLanguageId,
+        targetText: 'Hola, ¿cómo estás?',
+        level: 'BEGINNER',
+        audioData: `data:audio/wav;base64,${makeWav(0.3).toString('base64')}`
+      });
+
+    expect(response.status).toBe(200);
+    // The fixture recognizer hears the target text exactly
+    expect(response.body.feedback).toHaveProperty('accuracy', 1);
+    expect(response.body.feedback).toHaveProperty('transcript');
+    expect(Array.isArray(response.body.feedback.words)).toBe(true);
+  });
+
+  it('should accept a multipart upload', async () => {
+    if (!authToken || !testLanguageId) return;
+
+    const response = await request
+      .post('/api/ai-lessons/pronunciation-feedback')
+      .set('Authorization', `Bearer ${authToken}`)
+      .field('languageId', testLanguageId)
+      .field('targetText', 'Buenos días')
+      .field('level', 'BEGINNER')
+      .attach('audio', makeWav(0.3), { filename: 'recording.wav', contentType: 'audio/wav' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.feedback).toHaveProperty('wordAccuracy');
+  });
+
+  it('should reject silent recordings', async () => {
+    if (!authToken || !testLanguageId) return;
+
+    const response = await request
+      .post('/api/ai-lessons/pronunciation-feedback')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        languageId: testLanguageId,
+        targetText: 'Hola',
+        level: 'BEGINNER',
+        audioData: makeWav(0).toString('base64')
+      });
+
+    expect(response.status).toBe(422);
+  });
+
+  it('should reject unsupported formats', async () => {
+    if (!authToken || !testLanguageId) return;
+
+    const response = await request
+      .post('/api/ai-lessons/pronunciation-feedback')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        languageId: testLanguageId,
+        targetText: 'Hola',
+        level: 'BEGINNER',
+        audioData: Buffer.from('definitely not audio').toString('base64')
+      });
+
+    expect(response.status).toBe(415);
+  });
+
+  it('should decode Opus recordings in WebM and OGG', () => {
+    for (const [name, format] of [['speech.webm', 'webm'], ['speech.ogg', 'ogg']] as const) {
+      const audio = decodeAudio(fixture(name), `audio/${format};codecs=opus`);
+      expect(audio).toMatchObject({ format, codec: 'opus', sampleRate: 48000, channels: 1 });
+      expect(audio.durationMs).toBeGreaterThan(1150);
+      expect(audio.durationMs).toBeLessThan(1300);
+      expect(Math.max(...audio.samples.slice(0, 48000).map(Math.abs))).toBeGreaterThan(0.1);
+      // Speech-to-text gets the recording as uploaded
+      expect(audio.data).toEqual(fixture(name));
+    }
+
+    const webmHeader = Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84, 0x77, 0x65, 0x62, 0x6d]);
+    expect(() => decodeAudio(webmHeader)).toThrow('WEBM file is corrupt or truncated');
+  });
+
+  it('should accept browser recordings', async () => {
+    if (!authToken || !testLanguageId) return;
+
+    const upload = await request
+      .post('/api/ai-lessons/pronunciation-feedback')
+      .set('Authorization', `Bearer ${authToken}`)
+      .field('languageId', testLanguageId)
+      .field('targetText', 'Buenos días')
+      .field('level', 'BEGINNER')
+      .attach('audio', fixture('speech.webm'), { filename: 'recording.webm', contentType: 'audio/webm;codecs=opus' });
+    expect(upload.status).toBe(200);
+
+    const base64 = await request
+      .post('/api/ai-lessons/pronunciation-feedback')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        languageId: testLanguageId,
+        targetText: 'Hola',
+        level: 'BEGINNER',
+        audioData: `data:audio/ogg;codecs=opus;base64,${fixture('speech.ogg').toString('base64')}`
+      });
+    expect(base64.status).toBe(200);
+  });
+
+  it('should transcribe words into sounds', () => {
+    const sounds = (word: string, languageCode: string) => toPhonemes(word, languageCode)!.map(p => p.sound);
+
+    expect(sounds('llave', 'es')).toEqual(['ʝ', 'a', 'b', 'e']);
+    expect(sounds('hola', 'es')).toEqual(['o', 'l', 'a']);
+    expect(sounds('queso', 'es')).toEqual(['k', 'e', 's', 'o']);
+    expect(sounds('figlio', 'it')).toEqual(['f', 'i', 'ʎ', 'o']);
+    expect(sounds('schön', 'de')).toEqual(['ʃ', 'ø', 'n']);
+    expect(sounds('chanson', 'fr')).toEqual(['ʃ', 'ɑ̃', 's', 'ɔ̃']);
+    expect(toPhonemes('hello', 'ja')).toBeNull();
+  });
+
+  it('should score sounds, not letters', () => {
+    // "pero" for "perro" taps the trill; the silent h of "hola" is not a sound
+    const score = scorePronunciation('Hola, el perro', 'ola el pero', 'es');
+    expect(score.sounds![0]).toMatchObject({ sound: 'r', spelling: 'rr', occurrences: 1, correct: 0 });
+    expect(score.sounds!.filter(s => s.accuracy < 1)).toHaveLength(1);
+    expect(score.sounds!.some(s => s.spelling === 'h')).toBe(false);
+
+    // Only Spain tells "caza" and "casa" apart
+    expect(scorePronunciation('caza', 'casa', 'es').sounds!.every(s => s.accuracy === 1)).toBe(true);
+    expect(scorePronunciation('caza', 'casa', 'es-ES').sounds![0]).toMatchObject({ sound: 'θ', spelling: 'z', accuracy: 0 });
+
+    // No letters posing as sounds for languages without spelling rules
+    expect(scorePronunciation('konnichiwa', 'konichiwa', 'ja').sounds).toBeNull();
+  });
+
+  it('should require targetText to be a short string', async () => {
+    if (!authToken || !testLanguageId) return;
+
+    for (const targetText of [{ text: 'Hola' }, 'a'.repeat(501)]) {
+      const response = await request
+        .post('/api/ai-lessons/pronunciation-feedback')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          languageId: testLanguageId,
+          targetText,
+          level: 'BEGINNER',
+          audioData: makeWav(0.3).toString('base64')
+        });
+
+      expect(response.status).toBe(400);
+    }
+  });
+
+  describe('Pronunciation history', () => {
+    it('should return attempts with a weekly trend', async () => {
+      if (!authToken || !testLanguageId) return;
+
+      const response = await request
+        .get(`/api/pronunciation/history?languageId=${testLanguageId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(Array.isArray(response.body.data.trend)).toBe(true);
+      expect(response.body.data.totalAttempts).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should require a languageId', async () => {
+      if (!authToken) return;
+
+      const response = await request
+        .get('/api/pronunciation/weak-sounds')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should report weak sounds and target them in practice sentences', async () => {
+      if (!authToken || !testLanguageId) return;
+
+      const weak = await request
+        .get(`/api/pronunciation/weak-sounds?languageId=${testLanguageId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(weak.status).toBe(200);
+      expect(Array.isArray(weak.body.data.sounds)).toBe(true);
+      expect(typeof weak.body.data.soundsSupported).toBe('boolean');
+      if (!weak.body.data.soundsSupported) return;
+
+      const practice = await request
+        .post('/api/pronunciation/practice-sentences')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ languageId: testLanguageId, count: 3 });
+
+      expect(practice.status).toBe(200);
+      expect(Array.isArray(practice.body.data.sentences)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+import { matchShortAnswer, shuffleOrderingOptions, OrderingQuestion } from '../services/quiz-grading.service';
+
+describe('Quiz Question Types and Versions', () => {
+  let authToken: string;
+  let userId: string;
+  let lessonId: string;
+  let quizId: string;
+
+  beforeAll(async () => {
+    try {
+      const language = await prisma.language.findFirst({ where: { enabled: true } });
+      if (!language) return;
+
+      const email = `quiztypes${Date.now()}@test.com`;
+      const user = await prisma.user.create({
+        data: {
+          email,
+          password: await bcrypt.hash('password123', 10),
+          fullName: 'Quiz Types User',
+          emailVerified: true
+        }
+      });
+      userId = user.id;
+
+      const lesson = await prisma.lesson.create({
+        data: { title: `Quiz types lesson ${Date.now()}`, languageId: language.id, level: 'A1' }
+      });
+      lessonId = lesson.id;
+
+      const quiz = await prisma.quiz.create({
+        data: {
+          lessonId,
+          questions: [
+            // Stored before question types existed
+            { question: 'What does "hola" mean?', options: ['Bye', 'Hello', 'Please', 'Thanks'], correctAnswer: 1 },
+            { type: 'true_false', question: '"Gato" means dog.', correctAnswer: false },
+            { type: 'multi_select', question: 'Which are greetings?', options: ['hola', 'gato', 'buenos días'], correctAnswers: [0, 2] },
+            { type: 'short_answer', question: 'Say "thank you".', answers: ['gracias', 'muchas gracias'] },
+            { type: 'ordering', question: 'Order the sentence.', options: ['Ana', 'Me', 'llamo'], correctOrder: [1, 2, 0] }
+          ]
+        }
+      });
+      quizId = quiz.id;
+
+      const login = await request.post('/api/auth/login').send({ email, password: 'password123' });
+      authToken = login.body.data?.token || login.body.token;
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      if (userId) {
+        await prisma.leaderboardEntry.deleteMany({ where: { userId } });
+        await prisma.quizAttempt.deleteMany({ where: { userId } });
+        await prisma.learningProgress.deleteMany({ where: { userId } });
+        await prisma.user.delete({ where: { id: userId } });
+      }
+      if (lessonId) await prisma.quiz.deleteMany({ where: { lessonId } });
+      if (lessonId) await prisma.lesson.delete({ where: { id: lessonId } });
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should accept typos in longer short answers only', () => {
+    expect(matchShortAnswer('Grasias', ['gracias'])).toEqual({ isCorrect: true, nearMiss: true });
+    expect(matchShortAnswer('GRACIAS!', ['gracias'])).toEqual({ isCorrect: true, nearMiss: false });
+    expect(matchShortAnswer('gata', ['gato']).isCorrect).toBe(false);
+  });
+
+  it('should shuffle ordering items without changing the answer', () => {
+    const question: OrderingQuestion = { type: 'ordering', question: 'Order the sentence.', options: ['Me', 'llamo', 'Ana'], correctOrder: [0, 1, 2] };
+    for (let run = 0; run < 20; run++) {
+      const shuffled = shuffleOrderingOptions(question) as OrderingQuestion;
+      expect(shuffled.correctOrder).not.toEqual([0, 1, 2]);
+      expect(shuffled.correctOrder.map(index => shuffled.options[index])).toEqual(['Me', 'llamo', 'Ana']);
+    }
+  });
+
+  it('should reject unknown question types in the mix', async () => {
+    if (!authToken) {
+      console.log('Skipping quiz type tests - setup incomplete');
+      return;
+    }
+
+    const res = await request
+      .post('/api/ai-lessons/generate-quiz')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ lessonId, questionTypes: ['true_false', 'essay'] });
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject answers of the wrong shape', async () => {
+    if (!authToken || !quizId) return;
+
+    const res = await request
+      .post(`/api/ai-lessons/quiz/${quizId}/attempts`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ answers: [1, 'false', null, null, null] });
+    expect(res.status).toBe(400);
+  });
+
+  it('should not complete the lesson on a failing attempt', async () => {
+    if (!authToken || !quizId) return;
+
+    const res = await request
+      .post(`/api/ai-lessons/quiz/${quizId}/attempts`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ answers: [0, true, [1], 'perro', [0, 1, 2]] });
+    expect(res.status).toBe(201);
+    expect(res.body.attempt).toMatchObject({ score: 0, passed: false });
+
+    const progress = await prisma.learningProgress.findUnique({ where: { userId_lessonId: { userId, lessonId } } });
+    expect(progress?.completed).toBe(false);
+    expect(await prisma.activityEvent.count({ where: { userId, type: 'LESSON_COMPLETED', sourceId: lessonId } })).toBe(0);
+  });
+
+  it('should grade every question type', async () => {
+    if (!authToken || !quizId) return;
+
+    const res = await request
+      .post(`/api/ai-lessons/quiz/${quizId}/attempts`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ answers: [1, false, [2, 0], 'Muchas grasias', [1, 0, 2]] });
+    expect(res.status).toBe(201);
+
+    const results = res.body.attempt.results;
+    expect(results.map((r: any) => r.type)).toEqual(['multiple_choice', 'true_false', 'multi_select', 'short_answer', 'ordering']);
+    expect(results.map((r: any) => r.isCorrect)).toEqual([true, true, true, true, false]);
+    expect(results[0].selectedOption).toBe(1);
+    expect(results[3].nearMiss).toBe(true);
+    expect(res.body.attempt).toMatchObject({ score: 80, passed: true });
+
+    // Passing the quiz completes the lesson, which earns lesson XP once
+    const completions = await prisma.activityEvent.count({
+      where: { userId, type: 'LESSON_COMPLETED', sourceId: lessonId }
+    });
+    expect(completions).toBe(1);
+  });
+
+  it('should queue flagged quizzes for content editors to regenerate, as a new version', async () => {
+    if (!authToken || !quizId) return;
+    const auth = { Authorization: `Bearer ${authToken}` };
+
+    const refused = await request.post(`/api/ai-lessons/lesson/${lessonId}/quiz/regenerate`).set(auth).send({});
+    expect(refused.status).toBe(403);
+
+    const flagged = await request.post(`/api/ai-lessons/quiz/${quizId}/flag`).set(auth).send({ reason: 'Question 5 is ambiguous' });
+    expect(flagged.status).toBe(200);
+
+    // A learner's flag alone does not let them replace the quiz
+    const stillRefused = await request.post(`/api/ai-lessons/lesson/${lessonId}/quiz/regenerate`).set(auth).send({});
+    expect(stillRefused.status).toBe(403);
+
+    const notEditor = await request.get('/api/admin/quizzes/flagged').set(auth);
+    expect(notEditor.status).toBe(403);
+
+    await prisma.user.update({ where: { id: userId }, data: { role: 'CONTENT_EDITOR' } });
+    const queue = await request.get('/api/admin/quizzes/flagged').query({ limit: 100 }).set(auth);
+    expect(queue.status).toBe(200);
+    expect(queue.body.data.quizzes.find((quiz: any) => quiz.id === quizId)).toMatchObject({ flagReason: 'Question 5 is ambiguous' });
+
+    const regenerated = await request.post(`/api/ai-lessons/lesson/${lessonId}/quiz/regenerate`).set(auth).send({});
+    await prisma.user.update({ where: { id: userId }, data: { role: 'LEARNER' } });
+    expect(regenerated.status).toBe(201);
+    expect(regenerated.body.quiz.version).toBe(2);
+    expect(regenerated.body.previousVersion).toBe(1);
+    // The new version resolves the flag
+    expect((await prisma.quiz.findUnique({ where: { id: quizId } }))?.flaggedAt).toBeNull();
+
+    const current = await request.post('/api/ai-lessons/generate-quiz').set(auth).send({ lessonId });
+    expect(current.body.quiz.id).toBe(regenerated.body.quiz.id);
+
+    // The score on version 1 stays on version 1's board
+    const oldBoard = await request.get(`/api/leaderboard/quiz/${quizId}`);
+    expect(oldBoard.body.data.quizInfo.version).toBe(1);
+    expect(oldBoard.body.data.leaderboard.map((row: any) => row.userId)).toContain(userId);
+
+    const newBoard = await request.get(`/api/leaderboard/quiz/${regenerated.body.quiz.id}`);
+    expect(newBoard.body.data.leaderboard).toEqual([]);
+  });
+});
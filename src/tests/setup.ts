@@ -5,9 +5,15 @@ import app from '../app';
 const prisma = new PrismaClient();
 const request = supertest(app);
 
+// Use the deterministic fixture LLM provider so AI endpoints run without network access
+process.env.LLM_PROVIDER = process.env.LLM_PROVIDER || 'fixture';
+process.env.STT_PROVIDER = process.env.STT_PROVIDER || 'fixture';
+process.env.TTS_PROVIDER = process.env.TTS_PROVIDER || 'fixture';
+
 // Display test environment information
 console.log('🧪 Test environment setup initialized');
 console.log(`🔌 API Base URL: http://localhost:${process.env.PORT || 3000}`);
+console.log(`🤖 LLM provider: ${process.env.LLM_PROVIDER}`);
 
 // Clean up database before and after tests
 beforeAll(async () => {
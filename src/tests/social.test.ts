@@ -0,0 +1,118 @@
+import { prisma, request } from './setup';
+import bcrypt from 'bcryptjs';
+
+describe('Social Routes', () => {
+  const users: { id: string; token: string }[] = [];
+
+  const createUser = async (name: string) => {
+    const email = `social${Date.now()}${users.length}@test.com`;
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: await bcrypt.hash('password123', 10),
+        fullName: name,
+        emailVerified: true
+      }
+    });
+    const login = await request.post('/api/auth/login').send({ email, password: 'password123' });
+    users.push({ id: user.id, token: login.body.data?.token || login.body.token });
+  };
+
+  const as = (index: number) => ({ Authorization: `Bearer ${users[index].token}` });
+
+  beforeAll(async () => {
+    try {
+      await createUser('Social Ana');
+      await createUser('Social Ben');
+      await createUser('Social Cleo');
+    } catch (error: any) {
+      console.error('Setup error:', error?.message);
+    }
+  });
+
+  afterAll(async () => {
+    try {
+      await prisma.user.deleteMany({ where: { id: { in: users.map(user => user.id) } } });
+    } catch (error: any) {
+      console.error('Cleanup error:', error?.message);
+    }
+  });
+
+  it('should become friends once a follow request is accepted', async () => {
+    if (users.length < 3) {
+      console.log('Skipping social tests - setup incomplete');
+      return;
+    }
+    const [ana, ben] = users;
+
+    const self = await request.post(`/api/social/follow/${ana.id}`).set(as(0));
+    expect(self.status).toBe(400);
+
+    const follow = await request.post(`/api/social/follow/${ben.id}`).set(as(0));
+    expect(follow.status).toBe(201);
+    expect(follow.body.data.status).toBe('PENDING');
+
+    const duplicate = await request.post(`/api/social/follow/${ben.id}`).set(as(0));
+    expect(duplicate.status).toBe(409);
+
+    const requests = await request.get('/api/social/requests').set(as(1));
+    expect(requests.body.data.incoming.map((r: any) => r.follower.id)).toContain(ana.id);
+
+    const accepted = await request.post(`/api/social/requests/${follow.body.data.id}/accept`).set(as(1));
+    expect(accepted.status).toBe(200);
+
+    // Friendship works both ways
+    const friends = await request.get('/api/social/friends').set(as(1));
+    expect(friends.body.data.map((f: any) => f.id)).toEqual([ana.id]);
+  });
+
+  it('should show friends activity in the feed', async () => {
+    if (users.length < 3) return;
+    const [, ben] = users;
+
+    await prisma.userAchievement.create({ data: { userId: ben.id, achievementKey: 'first-lesson' } });
+
+    const feed = await request.get('/api/social/feed').set(as(0));
+    expect(feed.status).toBe(200);
+    expect(feed.body.data.items[0]).toMatchObject({
+      type: 'achievement_unlocked',
+      user: { id: ben.id },
+      achievement: { key: 'first-lesson' }
+    });
+
+    // Cleo has no friends, so nothing to show
+    const empty = await request.get('/api/social/feed').set(as(2));
+    expect(empty.body.data.items).toEqual([]);
+  });
+
+  it('should stop follow requests between blocked users', async () => {
+    if (users.length < 3) return;
+    const [ana, , cleo] = users;
+
+    const block = await request.post(`/api/social/block/${ana.id}`).set(as(2));
+    expect(block.status).toBe(200);
+
+    const follow = await request.post(`/api/social/follow/${cleo.id}`).set(as(0));
+    expect(follow.status).toBe(404);
+
+    const unblock = await request.delete(`/api/social/block/${ana.id}`).set(as(2));
+    expect(unblock.status).toBe(200);
+  });
+
+  it('should limit leaderboards to friends with scope=friends', async () => {
+    if (users.length < 3) return;
+    const [ana, ben] = users;
+
+    const anonymous = await request.get('/api/leaderboard/global?scope=friends');
+    expect(anonymous.status).toBe(401);
+
+    const res = await request
+      .get('/api/leaderboard/global?scope=friends&metric=total&minActivity=1')
+      .set(as(0));
+    expect(res.status).toBe(200);
+    expect(res.body.data.scope).toBe('friends');
+    for (const row of res.body.data.leaderboard) {
+      expect([ana.id, ben.id]).toContain(row.userId);
+    }
+  });
+});
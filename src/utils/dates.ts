@@ -0,0 +1,44 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Monday of the week containing the date, as YYYY-MM-DD (UTC)
+ */
+export const weekStartKey = (date: Date): string => {
+    const start = new Date(date);
+    start.setUTCHours(0, 0, 0, 0);
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    return start.toISOString().slice(0, 10);
+};
+
+/**
+ * Parse a "days" query parameter, falling back to a default and capping at a maximum
+ */
+export const parseDaysParam = (value: string | undefined, fallback: number, max: number): number => {
+    const days = parseInt(value || '', 10);
+    return Number.isInteger(days) && days > 0 ? Math.min(days, max) : fallback;
+};
+
+/**
+ * The calendar date at an instant in an IANA timezone, as YYYY-MM-DD
+ */
+export const dayKeyInTimeZone = (date: Date, timeZone: string): string =>
+    new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export const addDaysToKey = (day: string, days: number): string => {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+};
+
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+    if (typeof timeZone !== 'string' || !timeZone) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
@@ -0,0 +1,71 @@
+import { Level } from '@prisma/client';
+
+// CEFR levels from easiest to hardest
+export const LEVEL_ORDER: Level[] = [Level.A1, Level.A2, Level.B1, Level.B2, Level.C1, Level.C2];
+
+/**
+ * The three levels used before CEFR levels. Clients may still send them: a legacy level
+ * means the start of its band, except as the upper bound of a range, where it means the end.
+ */
+export type LegacyLevel = 'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED';
+
+export const LEGACY_LEVEL_RANGES: Record<LegacyLevel, [Level, Level]> = {
+    BEGINNER: [Level.A1, Level.A2],
+    INTERMEDIATE: [Level.B1, Level.B2],
+    ADVANCED: [Level.C1, Level.C2]
+};
+
+// What a learner at each level can do, used to steer generated content
+export const LEVEL_DESCRIPTIONS: Record<Level, string> = {
+    [Level.A1]: 'beginner: knows familiar everyday words and very basic phrases',
+    [Level.A2]: 'elementary: handles simple routine exchanges and the present and simple past',
+    [Level.B1]: 'intermediate: copes with travel situations and describes experiences and plans',
+    [Level.B2]: 'upper intermediate: follows complex texts and talks fluently on a wide range of topics',
+    [Level.C1]: 'advanced: uses the language flexibly, including idioms and implicit meaning',
+    [Level.C2]: 'proficient: understands virtually everything and expresses fine shades of meaning'
+};
+
+export const LEVEL_INPUT_HINT = `${LEVEL_ORDER.join(', ')} (BEGINNER, INTERMEDIATE and ADVANCED are also accepted)`;
+
+const isLegacyLevel = (value: string): value is LegacyLevel => value in LEGACY_LEVEL_RANGES;
+
+/**
+ * Read a level from client input: "b2" -> B2, "INTERMEDIATE" -> B1 (or B2 as an upper bound).
+ * Returns null for anything else.
+ */
+export const parseLevel = (value: unknown, bound: 'min' | 'max' = 'min'): Level | null => {
+    if (typeof value !== 'string') return null;
+
+    const normalized = value.trim().toUpperCase();
+    if (LEVEL_ORDER.includes(normalized as Level)) return normalized as Level;
+    if (isLegacyLevel(normalized)) return LEGACY_LEVEL_RANGES[normalized][bound === 'min' ? 0 : 1];
+    return null;
+};
+
+/**
+ * Levels matched by a filter: a CEFR level matches itself, a legacy level its whole band
+ */
+export const parseLevelFilter = (value: unknown): Level[] | null => {
+    if (typeof value !== 'string') return null;
+
+    const normalized = value.trim().toUpperCase();
+    if (isLegacyLevel(normalized)) {
+        const [min, max] = LEGACY_LEVEL_RANGES[normalized];
+        return LEVEL_ORDER.slice(LEVEL_ORDER.indexOf(min), LEVEL_ORDER.indexOf(max) + 1);
+    }
+
+    const level = parseLevel(normalized);
+    return level ? [level] : null;
+};
+
+// The legacy band a level falls in, for clients that only know the three old levels
+export const levelBand = (level: Level): LegacyLevel =>
+    (Object.keys(LEGACY_LEVEL_RANGES) as LegacyLevel[]).find(band => LEGACY_LEVEL_RANGES[band].includes(level))!;
+
+export const isLevelInRange = (level: Level, minLevel: Level, maxLevel: Level): boolean => {
+    const rank = LEVEL_ORDER.indexOf(level);
+    return rank >= LEVEL_ORDER.indexOf(minLevel) && rank <= LEVEL_ORDER.indexOf(maxLevel);
+};
+
+// "CEFR B1 (intermediate: copes with ...)" for prompts
+export const describeLevelForPrompt = (level: Level): string => `CEFR ${level} (${LEVEL_DESCRIPTIONS[level]})`;
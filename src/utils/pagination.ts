@@ -0,0 +1,21 @@
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PaginationQuery {
+    page?: string;
+    limit?: string;
+}
+
+/**
+ * Read ?page= and ?limit= (1-based page, limit capped at MAX_PAGE_SIZE)
+ */
+export const parsePagination = (query: PaginationQuery): { page: number; limit: number; skip: number } => {
+    const requestedPage = parseInt(query.page || '', 10);
+    const requestedLimit = parseInt(query.limit || '', 10);
+    const page = Number.isInteger(requestedPage) && requestedPage > 0 ? requestedPage : 1;
+    const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+        ? Math.min(requestedLimit, MAX_PAGE_SIZE)
+        : DEFAULT_PAGE_SIZE;
+
+    return { page, limit, skip: (page - 1) * limit };
+};